@@ -1,9 +1,20 @@
 import { Canvas } from '@react-three/fiber'
 import { Physics } from '@react-three/rapier'
 import { KeyboardControls } from '@react-three/drei'
-import { Suspense } from 'react'
+import { Suspense, useState } from 'react'
 import Game from './components/Game'
+import WorldSettings from './components/WorldSettings'
+import TerrainTuningPanel from './components/TerrainTuningPanel'
+import InventoryDisplay from './components/InventoryDisplay'
+import VitalsDisplay from './components/VitalsDisplay'
+import { VitalsProvider } from './components/VitalsSystem'
 import { Controls } from './types/controls'
+import { getWorldSeed } from './utils/noise'
+import { applyWorldSeed } from './utils/worldSeed'
+import { DEFAULT_VIEW_DISTANCE } from './utils/terrainLod'
+import { applyTerrainPreset, getTerrainPreset } from './utils/terrainPresets'
+import { getReduceMotion, saveReduceMotion } from './utils/cameraFeel'
+import type { TerrainPreset } from './utils/terrainPresets'
 import './App.css'
 
 const map = [
@@ -13,42 +24,98 @@ const map = [
   { name: Controls.right, keys: ['ArrowRight', 'd', 'D'] },
   { name: Controls.jump, keys: ['Space'] },
   { name: Controls.run, keys: ['Shift'] },
+  { name: Controls.crouch, keys: ['c', 'C'] }, // Not Ctrl, Ctrl+W would close the tab
   { name: Controls.shoot, keys: ['Mouse0', 'f', 'F'] }, // Mouse click or F key
+  { name: Controls.dig, keys: ['q', 'Q'] },
+  { name: Controls.raise, keys: ['e', 'E'] },
+  { name: Controls.interact, keys: ['r', 'R'] },
+  { name: Controls.view, keys: ['v', 'V'] },
 ]
 
 function App() {
+  const [worldSeed, setSeed] = useState(getWorldSeed)
+  const [viewDistance, setViewDistance] = useState(DEFAULT_VIEW_DISTANCE)
+  const [terrainPreset, setTerrainPreset] = useState(getTerrainPreset)
+  const [caves, setCaves] = useState(false)
+  const [reduceMotion, setReduceMotion] = useState(getReduceMotion)
+
+  const handleSeedChange = (seed: number) => {
+    applyWorldSeed(seed)
+    setSeed(seed)
+  }
+
+  const handleTerrainPresetChange = (preset: TerrainPreset) => {
+    applyTerrainPreset(preset)
+    setTerrainPreset(preset)
+  }
+
+  const handleReduceMotionChange = (nextReduceMotion: boolean) => {
+    saveReduceMotion(nextReduceMotion)
+    setReduceMotion(nextReduceMotion)
+  }
+
   return (
     <div style={{ width: '100vw', height: '100vh' }}>
-      <KeyboardControls map={map}>
-        <Canvas
-          camera={{ position: [0, 5, 10], fov: 75 }}
-          style={{ background: 'linear-gradient(to bottom, #87CEEB, #98FB98)' }}
-          shadows
-        >
-          <Suspense fallback={null}>
-            <Physics gravity={[0, -9.81, 0]}>
-              <Game />
-            </Physics>
-          </Suspense>
-        </Canvas>
-      </KeyboardControls>
-      <div style={{ 
-        position: 'absolute', 
-        top: '10px', 
-        left: '10px', 
-        color: 'white', 
-        fontFamily: 'monospace',
-        backgroundColor: 'rgba(0,0,0,0.7)',
-        padding: '10px',
-        borderRadius: '5px'
-      }}>
-        <div>🔫 R3F Shooter Game</div>
-        <div>WASD / Arrow Keys: Move</div>
-        <div>Shift: Run</div>
-        <div>Space: Jump</div>
-        <div>Mouse: Look Around</div>
-        <div>🔥 F Key / Click: Shoot</div>
-      </div>
+      {/* Vitals are shared by the player in the scene and the HUD outside it */}
+      <VitalsProvider>
+        <KeyboardControls map={map}>
+          <Canvas
+            camera={{ position: [0, 5, 10], fov: 75 }}
+            style={{ background: 'linear-gradient(to bottom, #87CEEB, #98FB98)' }}
+            shadows
+          >
+            <Suspense fallback={null}>
+              <Physics gravity={[0, -9.81, 0]}>
+                {/* Remount the whole world when the seed changes */}
+                <Game
+                  key={worldSeed}
+                  seed={worldSeed}
+                  viewDistance={viewDistance}
+                  terrainConfig={terrainPreset.terrain}
+                  grassConfig={terrainPreset.grass}
+                  caves={caves}
+                  reduceMotion={reduceMotion}
+                />
+              </Physics>
+            </Suspense>
+          </Canvas>
+        </KeyboardControls>
+        <div style={{ 
+          position: 'absolute', 
+          top: '10px', 
+          left: '10px', 
+          color: 'white', 
+          fontFamily: 'monospace',
+          backgroundColor: 'rgba(0,0,0,0.7)',
+          padding: '10px',
+          borderRadius: '5px'
+        }}>
+          <div>🔫 R3F Shooter Game</div>
+          <div>WASD / Arrow Keys: Move</div>
+          <div>Shift: Run (uses stamina)</div>
+          <div>Space: Jump</div>
+          <div>C: Crouch, slide while running</div>
+          <div>Mouse: Look Around</div>
+          <div>🎥 V: First / third person</div>
+          <div>🔥 F Key / Click: Shoot</div>
+          <div>⛏️ Q / E: Dig / Raise terrain</div>
+          <div>🚪 R: Open / close doors</div>
+          <div>🪓 Shoot trees, rocks and crystals to harvest them</div>
+          <VitalsDisplay />
+          <InventoryDisplay />
+          <WorldSettings
+            seed={worldSeed}
+            onSeedChange={handleSeedChange}
+            viewDistance={viewDistance}
+            onViewDistanceChange={setViewDistance}
+            caves={caves}
+            onCavesChange={setCaves}
+            reduceMotion={reduceMotion}
+            onReduceMotionChange={handleReduceMotionChange}
+          />
+          <TerrainTuningPanel preset={terrainPreset} onPresetChange={handleTerrainPresetChange} />
+        </div>
+      </VitalsProvider>
     </div>
   )
 }
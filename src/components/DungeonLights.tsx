@@ -0,0 +1,47 @@
+import { useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import type { PointLight, Vector3 } from 'three'
+import { getNearbyDungeonLights } from '../utils/dungeons'
+
+interface DungeonLightsProps {
+  playerRef: React.MutableRefObject<{ position: Vector3 } | null>
+}
+
+const LIGHT_COUNT = 4        // A fixed pool keeps the shader from recompiling as lights come and go
+const LIGHT_RANGE = 24       // Lanterns further than this from the player stay unlit
+const LIGHT_INTENSITY = 12
+const LIGHT_DISTANCE = 14
+
+// Lights the lanterns nearest the player in any dungeon around them
+export default function DungeonLights({ playerRef }: DungeonLightsProps) {
+  const lights = useRef<(PointLight | null)[]>([])
+
+  useFrame(() => {
+    const player = playerRef.current?.position
+    const nearest = player ? getNearbyDungeonLights(player, LIGHT_RANGE) : []
+
+    lights.current.forEach((light, index) => {
+      if (!light) return
+      const position = nearest[index]
+      light.intensity = position ? LIGHT_INTENSITY : 0
+      if (position) light.position.copy(position)
+    })
+  })
+
+  return (
+    <>
+      {Array.from({ length: LIGHT_COUNT }, (_, index) => (
+        <pointLight
+          key={index}
+          ref={light => {
+            lights.current[index] = light
+          }}
+          color="#ffb066"
+          intensity={0}
+          distance={LIGHT_DISTANCE}
+          decay={2}
+        />
+      ))}
+    </>
+  )
+}
@@ -0,0 +1,61 @@
+import { useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { interactionGroups, useRapier } from '@react-three/rapier'
+import type { Vector3 } from 'three'
+import { getNearbyDungeonSentries, isInsideDungeon } from '../utils/dungeons'
+import { TERRAIN_COLLISION_GROUP } from '../utils/terrainCollider'
+import { useShooter } from '../hooks/useShooter'
+import { useVitals } from '../hooks/useVitals'
+
+interface DungeonSentriesProps {
+  playerRef: React.MutableRefObject<{ position: Vector3 } | null>
+}
+
+const SENTRY_RANGE = 18     // Sentries wake up when the player comes this close
+const SENTRY_INTERVAL = 1.6 // Seconds between shots
+const MUZZLE_OFFSET = 0.5   // Shots leave from the orb's surface
+
+// Dungeon walls block a sentry's view, the ground over the dungeon doesn't
+const ALL_COLLISION_GROUPS = Array.from({ length: 16 }, (_, group) => group)
+const LINE_OF_SIGHT_GROUPS = interactionGroups(
+  ALL_COLLISION_GROUPS,
+  ALL_COLLISION_GROUPS.filter(group => group !== TERRAIN_COLLISION_GROUP)
+)
+
+// Boss room sentries shoot at the player while they are down in a dungeon and in sight
+export default function DungeonSentries({ playerRef }: DungeonSentriesProps) {
+  const { world, rapier } = useRapier()
+  const { shootProjectile } = useShooter()
+  const vitals = useVitals()
+  // Sentry position -> seconds until it can fire again
+  const cooldowns = useRef(new Map<string, number>())
+
+  useFrame((_, delta) => {
+    cooldowns.current.forEach((time, key) => {
+      if (time <= delta) cooldowns.current.delete(key)
+      else cooldowns.current.set(key, time - delta)
+    })
+
+    const player = playerRef.current?.position
+    if (!player || vitals.getVitals().dead || !isInsideDungeon(player)) return
+
+    for (const sentry of getNearbyDungeonSentries(player, SENTRY_RANGE)) {
+      const key = `${sentry.x},${sentry.z}`
+      if (cooldowns.current.has(key)) continue
+
+      const direction = player.clone().sub(sentry).normalize()
+      const origin = sentry.addScaledVector(direction, MUZZLE_OFFSET)
+      const hit = world.castRay(
+        new rapier.Ray(origin, direction), SENTRY_RANGE, true,
+        rapier.QueryFilterFlags.EXCLUDE_SENSORS, LINE_OF_SIGHT_GROUPS
+      )
+      if (!(hit?.collider.parent()?.userData as { player?: boolean } | undefined)?.player) continue
+
+      // No owner, so the shot counts when it reaches the player
+      shootProjectile(origin, direction)
+      cooldowns.current.set(key, SENTRY_INTERVAL)
+    }
+  })
+
+  return null
+}
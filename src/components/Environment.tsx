@@ -1,14 +1,36 @@
-import { useThree } from '@react-three/fiber'
-import { useEffect } from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
+import { useEffect, useRef } from 'react'
 import { Fog } from 'three'
+import type { DirectionalLight } from 'three'
+import { DEFAULT_VIEW_DISTANCE, getFogRange } from '../utils/terrainLod'
 
-export default function Environment() {
-  const { scene } = useThree()
+interface EnvironmentProps {
+  viewDistance?: number
+}
+
+// Sun direction; the light keeps this offset from the camera
+const SUN_OFFSET: [number, number, number] = [50, 50, 25]
+
+export default function Environment({ viewDistance = DEFAULT_VIEW_DISTANCE }: EnvironmentProps) {
+  const { scene, camera } = useThree()
+  const sunRef = useRef<DirectionalLight>(null)
 
   useEffect(() => {
-    // Add fog for atmospheric effect
-    scene.fog = new Fog('#87CEEB', 50, 200)
-  }, [scene])
+    // Add fog for atmospheric effect - ends where the loaded terrain ends
+    const [near, far] = getFogRange(viewDistance)
+    scene.fog = new Fog('#87CEEB', near, far)
+  }, [scene, viewDistance])
+
+  // Move the sun with the camera so the shadow map always covers the ground around the player
+  useFrame(() => {
+    const sun = sunRef.current
+    if (!sun) return
+
+    const { x, y, z } = camera.position
+    sun.position.set(x + SUN_OFFSET[0], y + SUN_OFFSET[1], z + SUN_OFFSET[2])
+    sun.target.position.set(x, y, z)
+    sun.target.updateMatrixWorld()
+  })
 
   return (
     <>
@@ -17,9 +39,11 @@ export default function Environment() {
       
       {/* Main directional light (sun) */}
       <directionalLight
-        position={[50, 50, 25]}
+        ref={sunRef}
+        position={SUN_OFFSET}
         intensity={1}
         castShadow
+        shadow-bias={-0.0005}
         shadow-mapSize-width={2048}
         shadow-mapSize-height={2048}
         shadow-camera-left={-50}
@@ -1,6 +1,7 @@
 import { useRef, useMemo, useState } from 'react'
 import { useFrame, useThree } from '@react-three/fiber'
 import { useKeyboardControls } from '@react-three/drei'
+import { useRapier } from '@react-three/rapier'
 import { 
   Vector3, 
   Mesh, 
@@ -8,14 +9,28 @@ import {
   Euler
 } from 'three'
 import { Controls } from '../types/controls'
+import type { CameraMode } from '../types/player'
 import { useShooter } from '../hooks/useShooter'
+import { useModel } from '../hooks/useModel'
+import { getWeaponModelKey } from '../utils/modelAssets'
 
-export default function FPSGun() {
+interface FPSGunProps {
+  playerRef: React.MutableRefObject<{ eye: Vector3 } | null>  // Third-person shots leave from the player
+  cameraMode: CameraMode
+}
+
+// How far the crosshair is traced to find what third-person shots aim at
+const AIM_RANGE = 150
+
+export default function FPSGun({ playerRef, cameraMode }: FPSGunProps) {
   const { camera } = useThree()
+  const { world, rapier } = useRapier()
   const gunGroupRef = useRef<Group>(null)
   const barrelRef = useRef<Mesh>(null)
   const [, getKeys] = useKeyboardControls<Controls>()
   const { shootProjectile } = useShooter()
+  // glTF blaster if one is provided, the procedural parts below otherwise
+  const model = useModel(getWeaponModelKey('blaster'))
   
   // Gun animation state
   const [isRecoiling, setIsRecoiling] = useState(false)
@@ -126,13 +141,26 @@ export default function FPSGun() {
       shootDirection.sub(cameraWorldPosition).normalize()
       
       const shootOrigin = cameraWorldPosition.clone()
+      const eye = playerRef.current?.eye
+
+      if (cameraMode === 'third' && eye) {
+        // The camera sits behind the player, so find what the crosshair is on and shoot there from the player
+        const ray = new rapier.Ray(cameraWorldPosition, shootDirection)
+        const hit = world.castRay(
+          ray, AIM_RANGE, true, rapier.QueryFilterFlags.EXCLUDE_SENSORS, undefined, undefined, undefined,
+          collider => !(collider.parent()?.userData as { player?: boolean } | undefined)?.player
+        )
+        const aimPoint = cameraWorldPosition.clone().addScaledVector(shootDirection, hit ? hit.timeOfImpact : AIM_RANGE)
+        shootDirection.copy(aimPoint).sub(eye).normalize()
+        shootOrigin.copy(eye).addScaledVector(shootDirection, 1.2)
+      } else {
+        // Add slight barrel offset
+        const barrelOffset = new Vector3(0, 0, -1.2)
+        barrelOffset.applyMatrix4(camera.matrixWorld)
+        shootOrigin.add(barrelOffset.sub(cameraWorldPosition))
+      }
       
-      // Add slight barrel offset
-      const barrelOffset = new Vector3(0, 0, -1.2)
-      barrelOffset.applyMatrix4(camera.matrixWorld)
-      shootOrigin.add(barrelOffset.sub(cameraWorldPosition))
-      
-      shootProjectile(shootOrigin, shootDirection)
+      shootProjectile(shootOrigin, shootDirection, 'player')
       
       // Trigger recoil and set cooldown
       setIsRecoiling(true)
@@ -151,42 +179,48 @@ export default function FPSGun() {
   })
 
   return (
-    <group ref={gunGroupRef}>
-      {/* Main gun body */}
-      <mesh position={gunGeometry.body.position}>
-        <boxGeometry args={gunGeometry.body.geometry} />
-        <meshStandardMaterial color={gunGeometry.body.color} roughness={0.8} metalness={0.3} />
-      </mesh>
-      
-      {/* Barrel */}
-      <mesh ref={barrelRef} position={gunGeometry.barrel.position}>
-        <cylinderGeometry args={[...gunGeometry.barrel.geometry]} />
-        <meshStandardMaterial color={gunGeometry.barrel.color} roughness={0.6} metalness={0.4} />
-      </mesh>
-      
-      {/* Grip */}
-      <mesh position={gunGeometry.grip.position} rotation={gunGeometry.grip.rotation}>
-        <boxGeometry args={gunGeometry.grip.geometry} />
-        <meshStandardMaterial color={gunGeometry.grip.color} roughness={0.9} metalness={0.1} />
-      </mesh>
-      
-      {/* Trigger guard */}
-      <mesh position={gunGeometry.triggerGuard.position}>
-        <boxGeometry args={gunGeometry.triggerGuard.geometry} />
-        <meshStandardMaterial color={gunGeometry.triggerGuard.color} roughness={0.8} metalness={0.3} />
-      </mesh>
-      
-      {/* Front sight */}
-      <mesh position={gunGeometry.sight.position}>
-        <boxGeometry args={gunGeometry.sight.geometry} />
-        <meshStandardMaterial color={gunGeometry.sight.color} roughness={0.7} metalness={0.2} />
-      </mesh>
-      
-      {/* Muzzle brake */}
-      <mesh position={gunGeometry.muzzleBrake.position}>
-        <cylinderGeometry args={[...gunGeometry.muzzleBrake.geometry]} />
-        <meshStandardMaterial color={gunGeometry.muzzleBrake.color} roughness={0.7} metalness={0.3} />
-      </mesh>
+    <group ref={gunGroupRef} visible={cameraMode === 'first'}>
+      {model ? (
+        <primitive object={model} />
+      ) : (
+        <>
+          {/* Main gun body */}
+          <mesh position={gunGeometry.body.position}>
+            <boxGeometry args={gunGeometry.body.geometry} />
+            <meshStandardMaterial color={gunGeometry.body.color} roughness={0.8} metalness={0.3} />
+          </mesh>
+
+          {/* Barrel */}
+          <mesh ref={barrelRef} position={gunGeometry.barrel.position}>
+            <cylinderGeometry args={[...gunGeometry.barrel.geometry]} />
+            <meshStandardMaterial color={gunGeometry.barrel.color} roughness={0.6} metalness={0.4} />
+          </mesh>
+
+          {/* Grip */}
+          <mesh position={gunGeometry.grip.position} rotation={gunGeometry.grip.rotation}>
+            <boxGeometry args={gunGeometry.grip.geometry} />
+            <meshStandardMaterial color={gunGeometry.grip.color} roughness={0.9} metalness={0.1} />
+          </mesh>
+
+          {/* Trigger guard */}
+          <mesh position={gunGeometry.triggerGuard.position}>
+            <boxGeometry args={gunGeometry.triggerGuard.geometry} />
+            <meshStandardMaterial color={gunGeometry.triggerGuard.color} roughness={0.8} metalness={0.3} />
+          </mesh>
+
+          {/* Front sight */}
+          <mesh position={gunGeometry.sight.position}>
+            <boxGeometry args={gunGeometry.sight.geometry} />
+            <meshStandardMaterial color={gunGeometry.sight.color} roughness={0.7} metalness={0.2} />
+          </mesh>
+
+          {/* Muzzle brake */}
+          <mesh position={gunGeometry.muzzleBrake.position}>
+            <cylinderGeometry args={[...gunGeometry.muzzleBrake.geometry]} />
+            <meshStandardMaterial color={gunGeometry.muzzleBrake.color} roughness={0.7} metalness={0.3} />
+          </mesh>
+        </>
+      )}
       
       {/* Muzzle flash effect (when shooting) */}
       {isRecoiling && (
@@ -1,32 +1,109 @@
-import { useRef, useCallback } from 'react'
+import { useRef, useCallback, useEffect, useMemo, useState } from 'react'
+import { useKeyboardControls } from '@react-three/drei'
 import { Vector3 } from 'three'
 import Player from './Player'
 import Terrain from './Terrain'
 import Environment from './Environment'
 import SimpleAtmosphericSky from './SimpleAtmosphericSky'
 import FPSGun from './FPSGun'
+import TerrainTools from './TerrainTools'
+import UnderwaterEffect from './UnderwaterEffect'
+import PropEffects from './PropEffects'
+import DungeonLights from './DungeonLights'
+import DungeonSentries from './DungeonSentries'
 import { ShooterProvider } from './ShooterSystem'
+import type { GrassConfig, TerrainConfig } from '../utils/noise'
+import type { CameraMode, PlayerHandle } from '../types/player'
+import { Controls } from '../types/controls'
+import { carveCrater } from '../utils/terrainEdits'
+import { damageProp } from '../utils/propDamage'
+import type { PropTarget } from '../utils/propDamage'
+import { getSurfaceHeight } from '../utils/worldQuery'
+import { useVitals } from '../hooks/useVitals'
+import { loadModelManifest } from '../utils/modelAssets'
+import { defaultCameraFeelConfig } from '../utils/cameraFeel'
 
-export default function Game() {
-  const playerRef = useRef<{ position: Vector3 } | null>(null)
+interface GameProps {
+  seed: number
+  viewDistance: number
+  terrainConfig: TerrainConfig
+  grassConfig: GrassConfig
+  caves: boolean
+  reduceMotion: boolean
+}
 
-  // Handle projectile hits
-  const handleProjectileHit = useCallback((position: Vector3) => {
-    console.log('Projectile hit at:', position)
-    // Here you could add hit effects, damage calculation, etc.
+// Health a projectile takes from the player
+const PROJECTILE_DAMAGE = 15
+
+export default function Game({ seed, viewDistance, terrainConfig, grassConfig, caves, reduceMotion }: GameProps) {
+  const playerRef = useRef<PlayerHandle | null>(null)
+  const vitals = useVitals()
+  const cameraFeelConfig = useMemo(() => ({ ...defaultCameraFeelConfig, enabled: !reduceMotion }), [reduceMotion])
+  const [cameraMode, setCameraMode] = useState<CameraMode>('first')
+  const [subscribeKeys] = useKeyboardControls<Controls>()
+
+  // Each press of the view key switches between first and third person
+  useEffect(() => subscribeKeys(
+    state => state.view,
+    pressed => {
+      if (pressed) setCameraMode(mode => mode === 'first' ? 'third' : 'first')
+    }
+  ), [subscribeKeys])
+
+  // Preload any glTF models; procedural meshes show until they arrive
+  useEffect(() => {
+    loadModelManifest()
   }, [])
 
+  // Handle projectile hits
+  const handleProjectileHit = useCallback((position: Vector3, userData?: Record<string, unknown>) => {
+    // Sentry shots; the player's own never get here, see the owner in shootProjectile
+    if (userData?.player) {
+      vitals.damage(PROJECTILE_DAMAGE, 'projectile')
+      return
+    }
+
+    // Trees, rocks and crystals take damage
+    const target = userData?.prop as PropTarget | undefined
+    if (target) {
+      damageProp(target.chunkKey, target.prop)
+      return
+    }
+
+    // Only hits on the ground leave a crater
+    if (Math.abs(position.y - getSurfaceHeight(position.x, position.z)) < 0.5) {
+      carveCrater(position.x, position.z, 1.2, 0.3)
+    }
+  }, [vitals])
+
   return (
     <ShooterProvider onProjectileHit={handleProjectileHit}>
       {/* Essential lighting for terrain and models */}
-      <Environment />
+      <Environment viewDistance={viewDistance} />
       {/* Simple blue-purple sky with white stars */}
-      <SimpleAtmosphericSky />
-      <Terrain playerRef={playerRef} />
-      <Player ref={playerRef} />
+      <SimpleAtmosphericSky seed={seed} />
+      <Terrain
+        playerRef={playerRef}
+        seed={seed}
+        viewDistance={viewDistance}
+        terrainConfig={terrainConfig}
+        grassConfig={grassConfig}
+        caves={caves}
+      />
+      <Player ref={playerRef} cameraMode={cameraMode} cameraFeelConfig={cameraFeelConfig} />
+      {/* Lanterns in the dungeon around the player */}
+      <DungeonLights playerRef={playerRef} />
+      {/* Boss room sentries that shoot at the player */}
+      <DungeonSentries playerRef={playerRef} />
+      <UnderwaterEffect />
+      {/* Debris and resource pickups from destroyed props */}
+      <PropEffects playerRef={playerRef} />
       
       {/* FPS Gun System */}
-      <FPSGun />
+      <FPSGun playerRef={playerRef} cameraMode={cameraMode} />
+      
+      {/* Dig / raise terrain tool */}
+      <TerrainTools />
     </ShooterProvider>
   )
 }
\ No newline at end of file
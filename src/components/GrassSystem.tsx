@@ -1,61 +1,64 @@
-import { useMemo } from 'react'
-import { 
-  BoxGeometry, 
-  MeshBasicMaterial,
-  Color,
+import { useEffect, useMemo } from 'react'
+import {
+  InstancedBufferAttribute,
+  InstancedBufferGeometry,
+  Sphere,
   Vector3
 } from 'three'
-import { getTerrainHeight } from '../utils/noise'
+import type { BufferGeometry, Material } from 'three'
+import type { GrassConfig } from '../utils/noise'
+import { generateGrassBlades } from '../utils/grass'
 
 interface GrassSystemProps {
   chunkX: number
   chunkZ: number
   chunkSize: number
+  seed: number
+  grassConfig: GrassConfig  // Tuning applied on top of each biome's grass rules
+  bladeGeometry: BufferGeometry  // Shared single blade, see createGrassBladeGeometry
+  material: Material  // Shared grass material, see createGrassMaterial
 }
 
-// Simplified parameters for guaranteed visibility
-const GRASS_SIZE = 2.0              // Very large for visibility
-const GRASS_HEIGHT = 4.0            // Tall grass
-
-export default function GrassSystem({ chunkX, chunkZ, chunkSize }: GrassSystemProps) {
-  // Generate simple grass positions - guaranteed to be visible
-  const grassPositions = useMemo(() => {
-    const positions: Vector3[] = []
-    
-    // Create a grid of grass positions for guaranteed visibility
-    const grassSpacing = chunkSize / 8 // 8x8 grid of grass per chunk
-    
-    for (let x = 1; x < 8; x++) {
-      for (let z = 1; z < 8; z++) {
-        const worldX = chunkX * chunkSize + x * grassSpacing
-        const worldZ = chunkZ * chunkSize + z * grassSpacing
-        const terrainHeight = getTerrainHeight(worldX, worldZ)
-        
-        positions.push(new Vector3(worldX, terrainHeight + GRASS_HEIGHT/2, worldZ))
-      }
-    }
-    
-    console.log(`DEBUG: Chunk (${chunkX}, ${chunkZ}) created ${positions.length} grass cubes`)
-    return positions
-  }, [chunkX, chunkZ, chunkSize])
-
-  // Simple geometry and bright green material
-  const geometry = useMemo(() => new BoxGeometry(GRASS_SIZE, GRASS_HEIGHT, GRASS_SIZE/4), [])
-  const material = useMemo(() => new MeshBasicMaterial({ 
-    color: new Color(0.2, 0.8, 0.2), // Bright green
-    transparent: false
-  }), [])
-
-  return (
-    <>
-      {grassPositions.map((position, i) => (
-        <mesh
-          key={`grass-${chunkX}-${chunkZ}-${i}`}
-          geometry={geometry}
-          material={material}
-          position={position}
-        />
-      ))}
-    </>
-  )
-}
\ No newline at end of file
+// Tallest a blade gets, for the culling bounds
+const MAX_BLADE_HEIGHT = 1.5
+
+export default function GrassSystem({
+  chunkX,
+  chunkZ,
+  chunkSize,
+  seed,
+  grassConfig,
+  bladeGeometry,
+  material
+}: GrassSystemProps) {
+  // One instanced draw call for every blade in the chunk
+  const geometry = useMemo(() => {
+    const blades = generateGrassBlades(seed, chunkX, chunkZ, chunkSize, grassConfig)
+    if (blades.count === 0) return null
+
+    const instanced = new InstancedBufferGeometry()
+    instanced.index = bladeGeometry.index
+    instanced.setAttribute('position', bladeGeometry.getAttribute('position'))
+    instanced.setAttribute('normal', bladeGeometry.getAttribute('normal'))
+    instanced.setAttribute('grassOffset', new InstancedBufferAttribute(blades.offsets, 3))
+    instanced.setAttribute('grassShape', new InstancedBufferAttribute(blades.shapes, 4))
+    instanced.setAttribute('color', new InstancedBufferAttribute(blades.colors, 3))
+    instanced.instanceCount = blades.count
+
+    // Blades are placed in the shader, so bound the whole chunk for culling
+    const center = new Vector3(
+      (chunkX + 0.5) * chunkSize,
+      (blades.minHeight + blades.maxHeight + MAX_BLADE_HEIGHT) / 2,
+      (chunkZ + 0.5) * chunkSize
+    )
+    const halfHeight = (blades.maxHeight - blades.minHeight + MAX_BLADE_HEIGHT) / 2
+    instanced.boundingSphere = new Sphere(center, Math.hypot(chunkSize / Math.SQRT2, halfHeight))
+    return instanced
+  }, [chunkX, chunkZ, chunkSize, seed, grassConfig, bladeGeometry])
+
+  useEffect(() => () => geometry?.dispose(), [geometry])
+
+  if (!geometry) return null
+
+  return <mesh geometry={geometry} material={material} receiveShadow />
+}
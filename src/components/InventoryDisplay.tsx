@@ -0,0 +1,21 @@
+import { useSyncExternalStore } from 'react'
+import { getInventory, subscribeInventory } from '../utils/inventory'
+import { ResourceType } from '../types/world'
+
+const RESOURCE_LABELS: Record<ResourceType, string> = {
+  [ResourceType.WOOD]: '🪵',
+  [ResourceType.STONE]: '🪨',
+  [ResourceType.CRYSTAL]: '💎',
+}
+
+export default function InventoryDisplay() {
+  const inventory = useSyncExternalStore(subscribeInventory, getInventory)
+
+  return (
+    <div style={{ marginTop: '8px', display: 'flex', gap: '12px' }}>
+      {Object.values(ResourceType).map(type => (
+        <span key={type} title={type}>{RESOURCE_LABELS[type]} {inventory[type]}</span>
+      ))}
+    </div>
+  )
+}
@@ -1,195 +1,148 @@
-import { useMemo } from 'react'
-import { 
-  Color,
-  Vector3
-} from 'three'
-import { getTerrainHeight } from '../utils/noise'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { Color, InstancedMesh, Matrix4 } from 'three'
+import type { BufferGeometry, Material } from 'three'
+import { CylinderCollider, RigidBody } from '@react-three/rapier'
+import { generateChunkProps, getPropCollider, getPropMatrix, PROP_TYPES } from '../utils/props'
+import type { PropCollider as PropColliderShape, PropInstance } from '../utils/props'
+import { isPropDestroyed, subscribePropDamage } from '../utils/propDamage'
+import type { PropTarget } from '../utils/propDamage'
+import { createRandom, hashSeed } from '../utils/random'
+import type { ModelType } from '../types/world'
+
+export interface PropAsset {
+  geometry: BufferGeometry
+  material: Material | Material[]
+  collider?: PropColliderShape | null  // Replaces the procedural collider, null = walk-through
+}
 
 interface ModelSystemProps {
   chunkX: number
   chunkZ: number
   chunkSize: number
+  seed: number
+  assets: Record<ModelType, PropAsset>  // Shared per type, see createPropGeometry and createPropMaterial
+  colliders: boolean  // Build physics for trunks, rocks and crystals
 }
 
-// Model types for variety
-enum ModelType {
-  TREE = 'tree',
-  ROCK = 'rock',
-  BUSH = 'bush',
-  CRYSTAL = 'crystal'
+// Where each prop lives in the instanced meshes
+interface PropSlot {
+  mesh: InstancedMesh
+  index: number
+  tint: number
 }
 
-interface ModelInstance {
-  position: Vector3
-  modelType: ModelType
-  scale: number
-  rotation: number
-}
+// Props of one type vary this much in brightness
+const TINT_VARIATION = 0.15
 
-const MODELS_PER_CHUNK = 8  // Reasonable density
-const MIN_MODEL_SPACING = 8  // Minimum distance between models
-
-export default function ModelSystem({ chunkX, chunkZ, chunkSize }: ModelSystemProps) {
-  // Generate model instances for this chunk
-  const modelInstances = useMemo(() => {
-    const instances: ModelInstance[] = []
-    const attempts = MODELS_PER_CHUNK * 3 // Try more times to avoid clustering
-    
-    for (let i = 0; i < attempts && instances.length < MODELS_PER_CHUNK; i++) {
-      const localX = Math.random() * chunkSize
-      const localZ = Math.random() * chunkSize
-      const worldX = chunkX * chunkSize + localX
-      const worldZ = chunkZ * chunkSize + localZ
-      
-      // Check minimum spacing from other models
-      const tooClose = instances.some(existing => {
-        const distance = existing.position.distanceTo(new Vector3(worldX, 0, worldZ))
-        return distance < MIN_MODEL_SPACING
-      })
-      
-      if (tooClose) continue
-      
-      const terrainHeight = getTerrainHeight(worldX, worldZ)
-      
-      // Choose model type based on terrain height and random factor
-      let modelType: ModelType
-      const heightFactor = (terrainHeight + 10) / 20 // Normalize height
-      const random = Math.random()
-      
-      if (heightFactor > 0.7 && random < 0.4) {
-        modelType = ModelType.CRYSTAL // Crystals on high areas
-      } else if (heightFactor < 0.3 && random < 0.5) {
-        modelType = ModelType.ROCK // Rocks in low areas
-      } else if (random < 0.6) {
-        modelType = ModelType.TREE // Trees are common
-      } else {
-        modelType = ModelType.BUSH // Bushes fill remaining spots
-      }
-      
-      instances.push({
-        position: new Vector3(worldX, terrainHeight, worldZ),
-        modelType,
-        scale: 0.8 + Math.random() * 0.6, // 0.8 to 1.4 scale
-        rotation: Math.random() * Math.PI * 2
-      })
-    }
-    
-    console.log(`DEBUG: Chunk (${chunkX}, ${chunkZ}) placed ${instances.length} models`)
-    return instances
-  }, [chunkX, chunkZ, chunkSize])
-
-  // Create different model components
-  const createTree = (instance: ModelInstance, index: number) => (
-    <group
-      key={`tree-${chunkX}-${chunkZ}-${index}`}
-      position={[instance.position.x, instance.position.y, instance.position.z]}
-      rotation={[0, instance.rotation, 0]}
-      scale={[instance.scale, instance.scale, instance.scale]}
-    >
-      {/* Tree trunk */}
-      <mesh position={[0, 1.5, 0]}>
-        <cylinderGeometry args={[0.3, 0.4, 3, 8]} />
-        <meshStandardMaterial color={new Color(0.4, 0.2, 0.1)} />
-      </mesh>
-      {/* Tree foliage */}
-      <mesh position={[0, 4, 0]}>
-        <coneGeometry args={[2, 3, 8]} />
-        <meshStandardMaterial color={new Color(0.1, 0.5, 0.1)} />
-      </mesh>
-      <mesh position={[0, 5.5, 0]}>
-        <coneGeometry args={[1.5, 2.5, 8]} />
-        <meshStandardMaterial color={new Color(0.15, 0.6, 0.15)} />
-      </mesh>
-    </group>
-  )
+// Hit props flash this color and fade back over the duration (seconds)
+const HIT_FLASH_COLOR = new Color(1.8, 0.5, 0.4)
+const HIT_FLASH_DURATION = 0.3
 
-  const createRock = (instance: ModelInstance, index: number) => (
-    <mesh
-      key={`rock-${chunkX}-${chunkZ}-${index}`}
-      position={[instance.position.x, instance.position.y + 0.5, instance.position.z]}
-      rotation={[Math.random() * 0.3, instance.rotation, Math.random() * 0.3]}
-      scale={[instance.scale, instance.scale * 0.6, instance.scale]}
-    >
-      <sphereGeometry args={[1, 8, 6]} />
-      <meshStandardMaterial color={new Color(0.4, 0.4, 0.5)} />
-    </mesh>
-  )
+export default function ModelSystem({ chunkX, chunkZ, chunkSize, seed, assets, colliders }: ModelSystemProps) {
+  const chunkKey = `${chunkX},${chunkZ}`
+  // Props destroyed while this chunk is loaded
+  const [destroyedIds, setDestroyedIds] = useState<ReadonlySet<number>>(() => new Set())
+  // Prop id -> time its hit flash started
+  const flashes = useRef(new Map<number, number>())
 
-  const createBush = (instance: ModelInstance, index: number) => (
-    <group
-      key={`bush-${chunkX}-${chunkZ}-${index}`}
-      position={[instance.position.x, instance.position.y, instance.position.z]}
-      rotation={[0, instance.rotation, 0]}
-      scale={[instance.scale, instance.scale * 0.7, instance.scale]}
-    >
-      <mesh position={[0, 0.8, 0]}>
-        <sphereGeometry args={[1.2, 8, 6]} />
-        <meshStandardMaterial color={new Color(0.1, 0.4, 0.1)} />
-      </mesh>
-      <mesh position={[0.5, 0.5, 0.3]}>
-        <sphereGeometry args={[0.8, 8, 6]} />
-        <meshStandardMaterial color={new Color(0.15, 0.5, 0.1)} />
-      </mesh>
-      <mesh position={[-0.3, 0.6, -0.4]}>
-        <sphereGeometry args={[0.9, 8, 6]} />
-        <meshStandardMaterial color={new Color(0.12, 0.45, 0.12)} />
-      </mesh>
-    </group>
+  // Deterministic placement - a chunk always gets the same props for a given world seed
+  const instances = useMemo(
+    () => generateChunkProps(seed, chunkX, chunkZ, chunkSize),
+    [chunkX, chunkZ, chunkSize, seed]
   )
 
-  const createCrystal = (instance: ModelInstance, index: number) => (
-    <group
-      key={`crystal-${chunkX}-${chunkZ}-${index}`}
-      position={[instance.position.x, instance.position.y, instance.position.z]}
-      rotation={[0, instance.rotation, 0]}
-      scale={[instance.scale, instance.scale * 1.5, instance.scale]}
-    >
-      <mesh position={[0, 1.5, 0]} rotation={[0, 0, 0]}>
-        <coneGeometry args={[0.5, 3, 6]} />
-        <meshStandardMaterial 
-          color={new Color(0.7, 0.3, 0.8)} 
-          transparent
-          opacity={0.8}
-          emissive={new Color(0.1, 0.05, 0.15)}
-        />
-      </mesh>
-      <mesh position={[0.8, 1, 0.5]} rotation={[0.2, 0.5, 0.1]}>
-        <coneGeometry args={[0.3, 2, 6]} />
-        <meshStandardMaterial 
-          color={new Color(0.5, 0.3, 0.9)} 
-          transparent
-          opacity={0.7}
-          emissive={new Color(0.05, 0.05, 0.1)}
-        />
-      </mesh>
-      <mesh position={[-0.6, 0.8, -0.3]} rotation={[-0.1, -0.3, 0.2]}>
-        <coneGeometry args={[0.4, 1.8, 6]} />
-        <meshStandardMaterial 
-          color={new Color(0.6, 0.2, 0.7)} 
-          transparent
-          opacity={0.75}
-          emissive={new Color(0.08, 0.02, 0.1)}
-        />
-      </mesh>
-    </group>
+  // Destroyed props stay gone, even after the chunk reloads
+  const standing = useMemo(
+    () => instances.filter(instance => !destroyedIds.has(instance.id) && !isPropDestroyed(chunkKey, instance)),
+    [instances, chunkKey, destroyedIds]
   )
 
+  // One instanced mesh per model type
+  const { meshes, slots } = useMemo(() => {
+    const matrix = new Matrix4()
+    const tint = new Color()
+    const tintRandom = createRandom(hashSeed(seed, chunkX, chunkZ, 2))
+    const slots = new Map<number, PropSlot>()
+    // One tint per spot rather than per prop, so a prop keeps its tint when another spot empties
+    const spots = instances.length > 0 ? instances[instances.length - 1].id + 1 : 0
+    const tints = Array.from({ length: spots }, () => 1 + (tintRandom() * 2 - 1) * TINT_VARIATION)
+
+    const meshes = PROP_TYPES.flatMap(type => {
+      const ofType = standing.filter(instance => instance.type === type)
+      if (ofType.length === 0) return []
+
+      const mesh = new InstancedMesh(assets[type].geometry, assets[type].material, ofType.length)
+      ofType.forEach((instance, index) => {
+        mesh.setMatrixAt(index, getPropMatrix(instance, matrix))
+        mesh.setColorAt(index, tint.setScalar(tints[instance.id]))
+        slots.set(instance.id, { mesh, index, tint: tints[instance.id] })
+      })
+      mesh.castShadow = true
+      mesh.receiveShadow = true
+      mesh.computeBoundingSphere()
+      return [mesh]
+    })
+
+    return { meshes, slots }
+  }, [instances, standing, assets, seed, chunkX, chunkZ])
+
+  // Instance buffers belong to the meshes; geometry and material are shared
+  useEffect(() => () => meshes.forEach(mesh => mesh.dispose()), [meshes])
+
+  useEffect(() => subscribePropDamage(event => {
+    if (event.chunkKey !== chunkKey) return
+    if (event.destroyed) {
+      flashes.current.delete(event.prop.id)
+      setDestroyedIds(ids => new Set(ids).add(event.prop.id))
+    } else {
+      flashes.current.set(event.prop.id, performance.now())
+    }
+  }), [chunkKey])
+
+  // Fade hit flashes back to each prop's own tint
+  useFrame(() => {
+    if (flashes.current.size === 0) return
+
+    const now = performance.now()
+    const color = new Color()
+    flashes.current.forEach((start, id) => {
+      const slot = slots.get(id)
+      const t = (now - start) / 1000 / HIT_FLASH_DURATION
+      if (!slot || t >= 1) flashes.current.delete(id)
+      if (!slot) return
+
+      color.setScalar(slot.tint).lerp(HIT_FLASH_COLOR, Math.max(0, 1 - t))
+      slot.mesh.setColorAt(slot.index, color)
+      slot.mesh.instanceColor!.needsUpdate = true
+    })
+  })
+
   return (
     <>
-      {modelInstances.map((instance, index) => {
-        switch (instance.modelType) {
-          case ModelType.TREE:
-            return createTree(instance, index)
-          case ModelType.ROCK:
-            return createRock(instance, index)
-          case ModelType.BUSH:
-            return createBush(instance, index)
-          case ModelType.CRYSTAL:
-            return createCrystal(instance, index)
-          default:
-            return null
-        }
-      })}
+      {meshes.map(mesh => <primitive key={mesh.uuid} object={mesh} />)}
+      {colliders && standing.map(instance => (
+        <PropCollider key={instance.id} chunkKey={chunkKey} instance={instance} asset={assets[instance.type]} />
+      ))}
     </>
   )
-}
\ No newline at end of file
+}
+
+interface PropColliderProps {
+  chunkKey: string
+  instance: PropInstance
+  asset: PropAsset
+}
+
+function PropCollider({ chunkKey, instance, asset }: PropColliderProps) {
+  const shape = useMemo(() => getPropCollider(instance, asset.collider), [instance, asset])
+  const userData = useMemo<{ prop: PropTarget }>(() => ({ prop: { chunkKey, prop: instance } }), [chunkKey, instance])
+  if (!shape) return null
+
+  // One body per prop so projectile hits can tell which prop they struck
+  return (
+    <RigidBody type="fixed" colliders={false} userData={userData}>
+      <CylinderCollider args={[shape.halfHeight, shape.radius]} position={shape.position.toArray()} />
+    </RigidBody>
+  )
+}
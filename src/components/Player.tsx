@@ -1,67 +1,193 @@
-import { useRef, forwardRef, useImperativeHandle, useEffect } from 'react'
+import { useRef, forwardRef, useImperativeHandle, useEffect, useMemo } from 'react'
 import { useFrame, useThree } from '@react-three/fiber'
 import { useKeyboardControls, PointerLockControls } from '@react-three/drei'
-import { RigidBody, RapierRigidBody } from '@react-three/rapier'
-import { Vector3 } from 'three'
+import { CapsuleCollider, RigidBody, RapierRigidBody, interactionGroups, useRapier } from '@react-three/rapier'
+import type { RapierCollider } from '@react-three/rapier'
+import { Group, PerspectiveCamera, Vector3 } from 'three'
 import { Controls } from '../types/controls'
+import type { CameraMode, PlayerHandle } from '../types/player'
+import { getWaterDepth, getWaterLevel } from '../utils/noise'
+import { getSurfaceHeight } from '../utils/worldQuery'
+import { isInsideDungeon } from '../utils/dungeons'
+import { TERRAIN_COLLISION_GROUP } from '../utils/terrainCollider'
+import { approach, createCharacterState, defaultCharacterControllerConfig } from '../utils/characterController'
+import type { CharacterControllerConfig } from '../utils/characterController'
+import { useCharacterController } from '../hooks/useCharacterController'
+import { useVitals } from '../hooks/useVitals'
+import { getFallDamage } from '../utils/vitals'
+import { createCameraFeel, defaultCameraFeelConfig } from '../utils/cameraFeel'
+import type { CameraFeelConfig } from '../utils/cameraFeel'
+import { createCameraBoom, defaultCameraBoomConfig } from '../utils/cameraBoom'
+import type { CameraBoomConfig } from '../utils/cameraBoom'
+import PlayerModel from './PlayerModel'
 
-// eslint-disable-next-line @typescript-eslint/no-empty-object-type
 interface PlayerProps {
-  // Empty interface for future extensibility
+  cameraMode?: CameraMode
+  controllerConfig?: CharacterControllerConfig
+  cameraFeelConfig?: CameraFeelConfig
+  cameraBoomConfig?: CameraBoomConfig
 }
 
-const Player = forwardRef<{ position: Vector3 }, PlayerProps>((_props, ref) => {
+// Spawn point on the ground at the world origin, dropped from a little above
+const SPAWN_X = 0
+const SPAWN_Z = 0
+const SPAWN_DROP_HEIGHT = 2
+// Falling below this is deadly
+const VOID_HEIGHT = -20
+// Dead players don't move
+const NO_CONTROLS = Object.fromEntries(Object.values(Controls).map(control => [control, false])) as Record<Controls, boolean>
+
+// Inside dungeons the player passes through the ground colliders above them
+const ALL_COLLISION_GROUPS = Array.from({ length: 16 }, (_, group) => group)
+const DEFAULT_COLLISION_GROUPS = interactionGroups(ALL_COLLISION_GROUPS)
+const DUNGEON_COLLISION_GROUPS = interactionGroups(
+  ALL_COLLISION_GROUPS,
+  ALL_COLLISION_GROUPS.filter(group => group !== TERRAIN_COLLISION_GROUP)
+)
+
+function getSpawnPosition(): [number, number, number] {
+  // Never spawn under water - float on the surface instead
+  const ground = Math.max(getSurfaceHeight(SPAWN_X, SPAWN_Z), getWaterLevel(SPAWN_X, SPAWN_Z))
+  return [SPAWN_X, ground + SPAWN_DROP_HEIGHT, SPAWN_Z]
+}
+
+const NO_ROTATION = { x: 0, y: 0, z: 0, w: 1 }
+
+const Player = forwardRef<PlayerHandle, PlayerProps>(({
+  cameraMode = 'first',
+  controllerConfig = defaultCharacterControllerConfig,
+  cameraFeelConfig = defaultCameraFeelConfig,
+  cameraBoomConfig = defaultCameraBoomConfig,
+}, ref) => {
   const { camera } = useThree()
+  const { world, rapier } = useRapier()
   const rigidBody = useRef<RapierRigidBody>(null!)
+  const collider = useRef<RapierCollider>(null!)
+  const controller = useCharacterController(controllerConfig)
   const [, get] = useKeyboardControls<Controls>()
-  
-  const currentPosition = useRef(new Vector3(0, 5, 0))
-  
+  const vitals = useVitals()
+  const cameraFeel = useMemo(() => createCameraFeel(cameraFeelConfig), [cameraFeelConfig])
+  const baseFov = useRef<number | null>(null)
+  const cameraBoom = useMemo(() => createCameraBoom(cameraBoomConfig), [cameraBoomConfig])
+  const boomShape = useMemo(() => new rapier.Ball(cameraBoomConfig.radius), [rapier, cameraBoomConfig.radius])
+  const model = useRef<Group>(null)
+
+  const spawnPosition = useMemo(getSpawnPosition, [])
+  const currentPosition = useRef(new Vector3(...spawnPosition))
+  const eye = useRef(new Vector3())
+  const characterState = useRef(createCharacterState())
+  const velocity = useRef(new Vector3())
+  const isInDungeon = useRef(false)
+  const jumpHeld = useRef(false)
+  const sinceJumpPressed = useRef(Infinity)
+  const hasJumped = useRef(false)  // Since last standing on the ground, so coyote time allows one jump
+  const deadTime = useRef(0)
+  const crouchHeld = useRef(false)
+  const crouched = useRef(false)
+  const sliding = useRef(false)
+  const eyeHeight = useRef(controllerConfig.eyeHeight)
+  const lastCameraMode = useRef(cameraMode)
+  const snapCamera = useRef(true)  // Skip the boom's smoothing after teleports and view switches
+
   const WALK_SPEED = 5
   const RUN_SPEED = 8
-  const JUMP_FORCE = 8
+  const JUMP_SPEED = 8
+  const GROUND_STICK_SPEED = 1   // Small downward speed on the ground keeps snap-to-ground engaged
+
+  const EYE_HEIGHT_RESPONSE = 12  // Higher moves the eyes to a new stance faster
+
+  // Crouching lowers the middle of the capsule by this, keeping the feet in place
+  const { capsuleRadius, capsuleHalfHeight, crouchHalfHeight } = controllerConfig
+  const CROUCH_DROP = capsuleHalfHeight - crouchHalfHeight
+
+  // Swimming tuning
+  const SWIM_START_DEPTH = 0.8     // Feet this deep below the surface start swimming
+  const FLOAT_DEPTH = 1.4          // Depth of the feet where buoyancy balances gravity
+  const SWIM_GRAVITY_SCALE = 0.2   // Reduced gravity in water
+  const BUOYANCY = 6               // Upward acceleration per unit of extra depth
+  const WATER_DRAG = 3             // Vertical velocity damping in water
+  const SURFACE_SWIM_SPEED = 4
+  const UNDERWATER_SWIM_SPEED = 2.5
+  const SWIM_UP_SPEED = 3
 
   useImperativeHandle(ref, () => ({
-    position: currentPosition.current
+    position: currentPosition.current,
+    eye: eye.current,
+    state: characterState.current,
   }))
 
   useEffect(() => {
     // Set camera to first person position
-    camera.position.set(0, 2, 0)
+    const feet = spawnPosition[1] - capsuleHalfHeight - capsuleRadius
+    camera.position.set(spawnPosition[0], feet + controllerConfig.eyeHeight, spawnPosition[2])
+  }, [camera, spawnPosition, capsuleHalfHeight, capsuleRadius, controllerConfig.eyeHeight])
+
+  // Sprinting widens the view from the field of view the camera started with
+  useEffect(() => {
+    if (!(camera instanceof PerspectiveCamera)) return
+    const fov = camera.fov
+    baseFov.current = fov
+    return () => {
+      camera.fov = fov
+      camera.updateProjectionMatrix()
+    }
   }, [camera])
 
-  useFrame(() => {
-    if (!rigidBody.current) return
+  useFrame((_state, delta) => {
+    if (!rigidBody.current || !collider.current || !controller.current) return
+    // Long frames (tab switches) would tunnel the capsule through the ground
+    const dt = Math.min(delta, 0.1)
 
-    const { forward, backward, left, right, jump, run } = get()
-    
-    // Get current position and velocity
+    const state = characterState.current
     const position = rigidBody.current.translation()
-    const currentVelocity = rigidBody.current.linvel()
-    
+    const { config } = vitals
+
+    if (position.y < VOID_HEIGHT) vitals.damage(config.maxHealth, 'hazard')
+
+    // Wait out the death screen, then start over at the spawn point
+    const { dead } = vitals.getVitals()
+    if (dead) {
+      deadTime.current += dt
+      if (deadTime.current >= config.respawnDelay) {
+        const [x, y, z] = getSpawnPosition()
+        rigidBody.current.setTranslation({ x, y, z }, true)
+        velocity.current.set(0, 0, 0)
+        deadTime.current = 0
+        vitals.respawn()
+        snapCamera.current = true
+        return
+      }
+    }
+    vitals.update(dt)
+
+    const { forward, backward, left, right, jump, run, crouch } = dead ? NO_CONTROLS : get()
+    const crouchPressed = crouch && !crouchHeld.current
+    crouchHeld.current = crouch
+
     currentPosition.current.set(position.x, position.y, position.z)
-    
-    // First-person camera follows player position
-    camera.position.x = position.x
-    camera.position.y = position.y + 1.8 // Eye height
-    camera.position.z = position.z
-    
+
+    const inDungeon = isInsideDungeon(currentPosition.current)
+    if (inDungeon !== isInDungeon.current) {
+      isInDungeon.current = inDungeon
+      collider.current.setCollisionGroups(inDungeon ? DUNGEON_COLLISION_GROUPS : DEFAULT_COLLISION_GROUPS)
+    }
+
     // Camera-relative movement vectors
     const cameraDirection = new Vector3()
     const cameraRight = new Vector3()
-    
+
     // Get camera forward direction (ignoring pitch for ground movement)
     camera.getWorldDirection(cameraDirection)
     cameraDirection.y = 0 // Keep movement on ground plane
     cameraDirection.normalize()
-    
+
     // Get camera right direction for strafe movement
     cameraRight.crossVectors(cameraDirection, new Vector3(0, 1, 0))
     cameraRight.normalize()
-    
+
     // Calculate movement direction based on input
     const moveDirection = new Vector3()
-    
+
     if (forward) {
       moveDirection.add(cameraDirection)
     }
@@ -74,58 +200,221 @@ const Player = forwardRef<{ position: Vector3 }, PlayerProps>((_props, ref) => {
     if (left) {
       moveDirection.sub(cameraRight)
     }
-    
+
     // Normalize diagonal movement to prevent speed boost
     if (moveDirection.length() > 0) {
       moveDirection.normalize()
     }
-    
-    // Determine current speed (walking or running)
-    const currentSpeed = run ? RUN_SPEED : WALK_SPEED
-    
-    // Apply movement with proper camera-relative direction
-    rigidBody.current.setLinvel({
-      x: moveDirection.x * currentSpeed,
-      y: currentVelocity.y, // Preserve gravity
-      z: moveDirection.z * currentSpeed
-    }, true)
-    
-    // Improved jumping with camera-relative momentum
-    if (jump && Math.abs(currentVelocity.y) < 0.5) {
-      rigidBody.current.setLinvel({ 
-        x: moveDirection.x * currentSpeed, 
-        y: JUMP_FORCE, 
-        z: moveDirection.z * currentSpeed 
-      }, true)
+
+    // Remember a jump press for a moment, so pressing just before landing still jumps
+    sinceJumpPressed.current = jump && !jumpHeld.current ? 0 : sinceJumpPressed.current + dt
+    jumpHeld.current = jump
+
+    const gravity = world.gravity.y
+    const current = velocity.current
+
+    // Swimming: reduced gravity, buoyancy and slower movement
+    const bodyHalfHeight = (crouched.current ? crouchHalfHeight : capsuleHalfHeight) + capsuleRadius
+    const waterDepth = getWaterDepth(position.x, position.y - bodyHalfHeight, position.z)
+    const swimming = waterDepth > SWIM_START_DEPTH
+
+    if (swimming) {
+      // Swim where the camera looks, including up and down
+      const swimDirection = new Vector3()
+      camera.getWorldDirection(swimDirection)
+
+      const atSurface = waterDepth < FLOAT_DEPTH + 0.3
+      const swimSpeed = atSurface ? SURFACE_SWIM_SPEED : UNDERWATER_SWIM_SPEED
+      const pitch = forward ? swimDirection.y : backward ? -swimDirection.y : 0
+
+      // Buoyancy pushes toward the floating depth, drag calms bobbing
+      let verticalVelocity = current.y + (gravity * SWIM_GRAVITY_SCALE + (waterDepth - FLOAT_DEPTH) * BUOYANCY) * dt
+      verticalVelocity *= Math.max(0, 1 - WATER_DRAG * dt)
+      if (jump) {
+        verticalVelocity = SWIM_UP_SPEED
+      } else if (pitch < -0.2) {
+        // Looking down while moving dives, buoyancy brings you back up
+        verticalVelocity = pitch * swimSpeed
+      }
+
+      current.set(moveDirection.x * swimSpeed, verticalVelocity, moveDirection.z * swimSpeed)
+      hasJumped.current = false
+      sliding.current = false
+    } else {
+      // Pressing crouch while running on the ground slides with extra speed
+      const horizontalSpeed = Math.hypot(current.x, current.z)
+      if (crouchPressed && run && state.grounded && horizontalSpeed > WALK_SPEED) {
+        sliding.current = true
+        current.x *= controllerConfig.slideBoost
+        current.z *= controllerConfig.slideBoost
+      }
+
+      if (sliding.current) {
+        // Momentum carries the slide in a straight line until friction, letting go or leaving the ground ends it
+        const slideSpeed = Math.hypot(current.x, current.z)
+        const slowed = Math.max(0, slideSpeed - controllerConfig.slideFriction * dt)
+        current.x *= slideSpeed > 0 ? slowed / slideSpeed : 0
+        current.z *= slideSpeed > 0 ? slowed / slideSpeed : 0
+        if (!crouch || slowed < controllerConfig.slideEndSpeed || state.airTime > controllerConfig.coyoteTime) {
+          sliding.current = false
+        }
+      } else {
+        // Sprinting drains stamina on the ground, an exhausted player walks until it recovers
+        const moving = moveDirection.lengthSq() > 0
+        const sprinting = run && moving && !crouched.current && (
+          state.grounded ? vitals.drainStamina(config.sprintDrain * dt) : !vitals.getVitals().exhausted
+        )
+
+        // Full control on the ground, only a share of it in the air
+        const targetSpeed = crouched.current ? controllerConfig.crouchSpeed : sprinting ? RUN_SPEED : WALK_SPEED
+        const acceleration = controllerConfig.acceleration * (state.grounded ? 1 : controllerConfig.airControl) * dt
+        current.x = approach(current.x, moveDirection.x * targetSpeed, acceleration)
+        current.z = approach(current.z, moveDirection.z * targetSpeed, acceleration)
+      }
+      current.y = state.grounded ? Math.min(current.y, -GROUND_STICK_SPEED) : current.y + gravity * dt
+
+      // Jump from the ground, or just after walking off an edge
+      const canJump = !hasJumped.current && state.airTime <= controllerConfig.coyoteTime
+      const buffered = sinceJumpPressed.current <= controllerConfig.jumpBufferTime
+      if (canJump && buffered && vitals.spendStamina(config.jumpCost)) {
+        current.y = JUMP_SPEED
+        hasJumped.current = true
+        sinceJumpPressed.current = Infinity
+        sliding.current = false
+      }
+    }
+
+    // Let Rapier slide the capsule along the world, climb steps and snap to the ground
+    const desired = current.clone().multiplyScalar(dt)
+    controller.current.computeColliderMovement(
+      collider.current,
+      desired,
+      rapier.QueryFilterFlags.EXCLUDE_SENSORS,
+      inDungeon ? DUNGEON_COLLISION_GROUPS : DEFAULT_COLLISION_GROUPS
+    )
+    const movement = controller.current.computedMovement()
+    const grounded = controller.current.computedGrounded()
+
+    // Hard landings hurt
+    const landingSpeed = grounded && !state.grounded && current.y < 0 ? -current.y : 0
+    vitals.damage(getFallDamage(landingSpeed, config), 'fall')
+
+    // Landing or bumping a ceiling stops the fall or the rise
+    if ((grounded && current.y < 0) || (current.y > 0 && movement.y < desired.y * 0.5)) {
+      current.y = grounded ? -GROUND_STICK_SPEED : 0
     }
-    
-    // Reset if falling too far
-    if (position.y < -20) {
-      rigidBody.current.setTranslation({ x: 0, y: 5, z: 0 }, true)
-      rigidBody.current.setLinvel({ x: 0, y: 0, z: 0 }, true)
+
+    state.grounded = grounded
+    state.airTime = grounded ? 0 : state.airTime + dt
+    state.velocity.set(movement.x, movement.y, movement.z).divideScalar(dt)
+    if (grounded && current.y <= 0) hasJumped.current = false
+
+    // Crouch and slide with a short capsule, standing up only where there is headroom
+    let stanceShift = 0
+    const wantsCrouch = (crouch || sliding.current) && !swimming
+    if (wantsCrouch && !crouched.current) {
+      crouched.current = true
+      collider.current.setHalfHeight(crouchHalfHeight)
+      stanceShift = -CROUCH_DROP
+    } else if (!wantsCrouch && crouched.current) {
+      const rise = CROUCH_DROP * 2
+      controller.current.computeColliderMovement(
+        collider.current,
+        { x: 0, y: rise, z: 0 },
+        rapier.QueryFilterFlags.EXCLUDE_SENSORS,
+        inDungeon ? DUNGEON_COLLISION_GROUPS : DEFAULT_COLLISION_GROUPS
+      )
+      if (controller.current.computedMovement().y >= rise - 0.01) {
+        crouched.current = false
+        collider.current.setHalfHeight(capsuleHalfHeight)
+        stanceShift = CROUCH_DROP
+      }
+    }
+
+    const next = {
+      x: position.x + movement.x,
+      y: position.y + movement.y + stanceShift,
+      z: position.z + movement.z,
+    }
+    rigidBody.current.setNextKinematicTranslation(next)
+
+    // The camera follows the eyes, with head bob, sprint field of view and landing dip on top
+    const targetEyeHeight = crouched.current ? controllerConfig.crouchEyeHeight : controllerConfig.eyeHeight
+    eyeHeight.current += (targetEyeHeight - eyeHeight.current) * Math.min(1, EYE_HEIGHT_RESPONSE * dt)
+    const speed = Math.hypot(state.velocity.x, state.velocity.z)
+    const feel = cameraFeel.update({
+      speed,
+      bobbing: cameraMode === 'first' && grounded && !sliding.current && !swimming,
+      sprint: Math.min(1, Math.max(0, (speed - WALK_SPEED) / (RUN_SPEED - WALK_SPEED))),
+      landingSpeed,
+    }, dt)
+
+    const feet = next.y - (crouched.current ? crouchHalfHeight : capsuleHalfHeight) - capsuleRadius
+    eye.current.set(next.x, feet + eyeHeight.current, next.z)
+
+    if (cameraMode === 'first') {
+      camera.position.copy(eye.current).addScaledVector(cameraRight, feel.side)
+      camera.position.y += feel.up
+    } else {
+      // Boom from over the shoulder against the view, pulled in where the world gets in the way
+      const lookDirection = camera.getWorldDirection(new Vector3())
+      const target = eye.current.clone().addScaledVector(cameraRight, cameraBoomConfig.shoulder)
+      target.y += feel.up
+      if (snapCamera.current || lastCameraMode.current !== cameraMode) cameraBoom.reset(target)
+      const pivot = cameraBoom.follow(target, dt)
+      const hit = world.castShape(
+        pivot,
+        NO_ROTATION,
+        lookDirection.clone().negate(),
+        boomShape,
+        0,
+        cameraBoomConfig.length,
+        true,
+        rapier.QueryFilterFlags.EXCLUDE_SENSORS,
+        inDungeon ? DUNGEON_COLLISION_GROUPS : DEFAULT_COLLISION_GROUPS,
+        undefined,
+        rigidBody.current
+      )
+      camera.position.copy(cameraBoom.place(lookDirection, hit ? hit.time_of_impact : Infinity, dt))
+    }
+    snapCamera.current = false
+    lastCameraMode.current = cameraMode
+
+    // The body faces where the player looks, and squats with the eyes when crouching
+    if (model.current) {
+      model.current.position.set(next.x, feet, next.z)
+      model.current.rotation.y = Math.atan2(-cameraDirection.x, -cameraDirection.z)
+      model.current.scale.y = eyeHeight.current / controllerConfig.eyeHeight
+    }
+
+    if (camera instanceof PerspectiveCamera && baseFov.current !== null) {
+      const fov = baseFov.current + feel.fov
+      if (Math.abs(camera.fov - fov) > 0.01) {
+        camera.fov = fov
+        camera.updateProjectionMatrix()
+      }
     }
   })
-  
+
   return (
     <>
       <PointerLockControls />
       <RigidBody
         ref={rigidBody}
-        position={[0, 5, 0]}
-        enabledRotations={[false, false, false]}
-        type="dynamic"
-        colliders="cuboid"
+        position={spawnPosition}
+        type="kinematicPosition"
+        colliders={false}
+        userData={{ player: true }}
       >
-        {/* Simple invisible player body */}
-        <mesh>
-          <boxGeometry args={[1, 1.8, 1]} />
-          <meshBasicMaterial transparent opacity={0} />
-        </mesh>
+        <CapsuleCollider ref={collider} args={[capsuleHalfHeight, capsuleRadius]} />
       </RigidBody>
+      <group ref={model} visible={cameraMode === 'third'}>
+        <PlayerModel />
+      </group>
     </>
   )
 })
 
 Player.displayName = 'Player'
 
-export default Player
\ No newline at end of file
+export default Player
@@ -0,0 +1,61 @@
+import { useModel } from '../hooks/useModel'
+import { getCharacterModelKey } from '../utils/modelAssets'
+
+// Proportions of the procedural figure, which stands on the origin facing -z
+const LEG_HEIGHT = 0.8
+const TORSO_HEIGHT = 0.65
+const HEAD_RADIUS = 0.17
+const SHOULDER_WIDTH = 0.46
+
+const SKIN = '#d9a97e'
+const SHIRT = '#3d5a80'
+const TROUSERS = '#3b3b3b'
+
+/**
+ * The player's body, only seen in third person. A glTF character replaces
+ * the procedural figure when one is provided.
+ */
+export default function PlayerModel() {
+  const model = useModel(getCharacterModelKey('player'))
+  if (model) return <primitive object={model} />
+
+  const shoulderY = LEG_HEIGHT + TORSO_HEIGHT - 0.08
+
+  return (
+    <group>
+      {/* Legs */}
+      {[-1, 1].map(side => (
+        <mesh key={side} position={[side * 0.11, LEG_HEIGHT / 2, 0]} castShadow>
+          <boxGeometry args={[0.17, LEG_HEIGHT, 0.2]} />
+          <meshStandardMaterial color={TROUSERS} roughness={0.9} />
+        </mesh>
+      ))}
+
+      {/* Torso and head */}
+      <mesh position={[0, LEG_HEIGHT + TORSO_HEIGHT / 2, 0]} castShadow>
+        <boxGeometry args={[SHOULDER_WIDTH, TORSO_HEIGHT, 0.26]} />
+        <meshStandardMaterial color={SHIRT} roughness={0.85} />
+      </mesh>
+      <mesh position={[0, LEG_HEIGHT + TORSO_HEIGHT + HEAD_RADIUS + 0.04, 0]} castShadow>
+        <sphereGeometry args={[HEAD_RADIUS, 12, 10]} />
+        <meshStandardMaterial color={SKIN} roughness={0.8} />
+      </mesh>
+
+      {/* Left arm hangs, the right one holds the blaster forward */}
+      <mesh position={[-(SHOULDER_WIDTH / 2 + 0.07), shoulderY - 0.3, 0]} castShadow>
+        <boxGeometry args={[0.12, 0.6, 0.14]} />
+        <meshStandardMaterial color={SHIRT} roughness={0.85} />
+      </mesh>
+      <group position={[SHOULDER_WIDTH / 2 + 0.07, shoulderY, 0]} rotation={[Math.PI / 2, 0, 0]}>
+        <mesh position={[0, -0.3, 0]} castShadow>
+          <boxGeometry args={[0.12, 0.6, 0.14]} />
+          <meshStandardMaterial color={SHIRT} roughness={0.85} />
+        </mesh>
+        <mesh position={[0, -0.75, -0.04]} castShadow>
+          <boxGeometry args={[0.08, 0.45, 0.1]} />
+          <meshStandardMaterial color="#2a2a2a" roughness={0.8} metalness={0.3} />
+        </mesh>
+      </group>
+    </group>
+  )
+}
@@ -0,0 +1,94 @@
+import { CuboidCollider, RigidBody } from '@react-three/rapier'
+import type { Structure } from '../utils/structures'
+
+interface ProceduralCampProps {
+  structure: Structure
+  colliders: boolean  // Tents and log seats become solid
+}
+
+const TENT_DISTANCE = 2.4      // From the fire
+const TENT_WIDTH = 1.8
+const TENT_LENGTH = 2.2
+const TENT_RADIUS = TENT_WIDTH / Math.sqrt(3)  // Of the triangle circling the tent's cross-section
+const TENT_HEIGHT = TENT_RADIUS * 1.5
+const LOG_DISTANCE = 1.5
+const FIRE_STONES = 8
+const TENT_COLORS = ['#8a7a5c', '#6e7a5a', '#7a5c4a']
+const LOG_COLOR = '#5a3d24'
+const STONE_COLOR = '#6f6a63'
+
+export default function ProceduralCamp({ structure, colliders }: ProceduralCampProps) {
+  const { scale, variant } = structure
+  const rotation: [number, number, number] = [0, structure.rotation, 0]
+  const tentColor = TENT_COLORS[variant % TENT_COLORS.length]
+
+  // One tent, or two facing each other across the fire
+  const tentAngles = variant === 2 ? [0, Math.PI] : [0]
+  const logAngles = [Math.PI / 2, -Math.PI / 2]
+
+  return (
+    <>
+      <group position={structure.position} rotation={rotation} scale={scale}>
+        {/* Fire ring */}
+        {Array.from({ length: FIRE_STONES }, (_, index) => {
+          const angle = (index / FIRE_STONES) * Math.PI * 2
+          return (
+            <mesh key={index} position={[Math.cos(angle) * 0.55, 0.1, Math.sin(angle) * 0.55]} castShadow>
+              <dodecahedronGeometry args={[0.16]} />
+              <meshStandardMaterial color={STONE_COLOR} />
+            </mesh>
+          )
+        })}
+        <mesh position={[0, 0.35, 0]}>
+          <coneGeometry args={[0.3, 0.7, 6]} />
+          <meshStandardMaterial color="#ff8c2a" emissive="#ff6a00" emissiveIntensity={2} />
+        </mesh>
+
+        {/* A-frame tents: a three-sided prism on its side, the opening toward the fire */}
+        {tentAngles.map(angle => (
+          <group key={angle} position={[Math.sin(angle) * TENT_DISTANCE, 0, Math.cos(angle) * TENT_DISTANCE]} rotation={[0, angle, 0]}>
+            <mesh position={[0, TENT_RADIUS / 2, 0]} rotation={[-Math.PI / 2, 0, 0]} castShadow>
+              <cylinderGeometry args={[TENT_RADIUS, TENT_RADIUS, TENT_LENGTH, 3]} />
+              <meshStandardMaterial color={tentColor} flatShading />
+            </mesh>
+          </group>
+        ))}
+
+        {/* Log seats either side of the fire */}
+        {logAngles.map(angle => (
+          <group key={angle} position={[Math.sin(angle) * LOG_DISTANCE, 0, Math.cos(angle) * LOG_DISTANCE]} rotation={[0, angle, 0]}>
+            <mesh position={[0, 0.2, 0]} rotation={[0, 0, Math.PI / 2]} castShadow>
+              <cylinderGeometry args={[0.2, 0.2, 1.4, 8]} />
+              <meshStandardMaterial color={LOG_COLOR} />
+            </mesh>
+          </group>
+        ))}
+      </group>
+
+      {colliders && (
+        <RigidBody type="fixed" colliders={false} position={structure.position} rotation={rotation}>
+          {tentAngles.map(angle => (
+            <CuboidCollider
+              key={angle}
+              args={[(TENT_WIDTH / 2) * scale, (TENT_HEIGHT / 2) * scale, (TENT_LENGTH / 2) * scale]}
+              position={[
+                Math.sin(angle) * TENT_DISTANCE * scale,
+                (TENT_HEIGHT / 2) * scale,
+                Math.cos(angle) * TENT_DISTANCE * scale,
+              ]}
+              rotation={[0, angle, 0]}
+            />
+          ))}
+          {logAngles.map(angle => (
+            <CuboidCollider
+              key={angle}
+              args={[0.7 * scale, 0.2 * scale, 0.2 * scale]}
+              position={[Math.sin(angle) * LOG_DISTANCE * scale, 0.2 * scale, Math.cos(angle) * LOG_DISTANCE * scale]}
+              rotation={[0, angle, 0]}
+            />
+          ))}
+        </RigidBody>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,117 @@
+import { useEffect, useMemo } from 'react'
+import { CuboidCollider, RigidBody, TrimeshCollider } from '@react-three/rapier'
+import { getDungeonCellPosition, getDungeonLightPosition, getDungeonSentryPosition, getDungeonSite } from '../utils/dungeons'
+import type { DungeonLoot } from '../utils/dungeons'
+import { createDungeonMesh } from '../utils/dungeonMesh'
+import type { Structure } from '../utils/structures'
+
+interface ProceduralDungeonProps {
+  structure: Structure  // The entrance
+  seed: number
+  colliders: boolean  // Floors, walls, ramps and chests become solid
+}
+
+const CHEST_LOOKS: Record<DungeonLoot['tier'], { size: [number, number, number], body: string, trim: string }> = {
+  common: { size: [0.9, 0.6, 0.55], body: '#4f341d', trim: '#8a8a94' },
+  rare: { size: [1, 0.7, 0.6], body: '#2e3a4f', trim: '#c0c0d0' },
+  boss: { size: [1.4, 0.9, 0.8], body: '#5a1f1f', trim: '#B8860B' },
+}
+
+export default function ProceduralDungeon({ structure: entrance, seed, colliders }: ProceduralDungeonProps) {
+  const { structure, layout } = useMemo(() => getDungeonSite(seed, entrance), [seed, entrance])
+  const mesh = useMemo(() => createDungeonMesh(layout), [layout])
+  useEffect(() => () => mesh.geometry.dispose(), [mesh])
+
+  const lanterns = useMemo(() => layout.lights.map(light => getDungeonLightPosition(layout, light)), [layout])
+
+  const chests = useMemo(() => layout.loot.map(loot => ({
+    ...loot,
+    position: getDungeonCellPosition(layout, loot.level, loot.x, loot.z),
+  })), [layout])
+
+  const boss = layout.bossRoom === null ? null : layout.rooms[layout.bossRoom]
+  const bossCenter = boss && getDungeonCellPosition(
+    layout,
+    boss.level,
+    boss.x + Math.floor(boss.width / 2),
+    boss.z + Math.floor(boss.depth / 2)
+  )
+
+  const sentry = useMemo(() => getDungeonSentryPosition(layout), [layout])
+
+  const rotation: [number, number, number] = [0, structure.rotation, 0]
+
+  return (
+    <>
+      <group position={structure.position} rotation={rotation}>
+        <mesh geometry={mesh.geometry} castShadow receiveShadow>
+          <meshStandardMaterial vertexColors roughness={0.9} />
+        </mesh>
+
+        {lanterns.map((position, index) => (
+          <mesh key={index} position={position}>
+            <boxGeometry args={[0.25, 0.35, 0.25]} />
+            <meshStandardMaterial color="#ffb066" emissive="#ff9a3c" emissiveIntensity={2} />
+          </mesh>
+        ))}
+
+        {chests.map((chest, index) => {
+          const look = CHEST_LOOKS[chest.tier]
+          return (
+            <group key={index} position={chest.position}>
+              <mesh position={[0, look.size[1] / 2, 0]} castShadow>
+                <boxGeometry args={look.size} />
+                <meshStandardMaterial color={look.body} />
+              </mesh>
+              <mesh position={[0, look.size[1], 0]}>
+                <boxGeometry args={[look.size[0] + 0.02, 0.1, look.size[2] + 0.02]} />
+                <meshStandardMaterial color={look.trim} metalness={0.7} roughness={0.3} />
+              </mesh>
+            </group>
+          )
+        })}
+
+        {/* Boss room: an altar on a glowing rune circle */}
+        {bossCenter && (
+          <group position={bossCenter}>
+            <mesh position={[0, 0.02, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+              <circleGeometry args={[2.2, 32]} />
+              <meshStandardMaterial color="#4B0082" emissive="#6a1fb0" emissiveIntensity={0.8} />
+            </mesh>
+            <mesh position={[0, 0.5, 0]} castShadow>
+              <boxGeometry args={[1.6, 1, 1]} />
+              <meshStandardMaterial color="#2F4F4F" />
+            </mesh>
+          </group>
+        )}
+
+        {/* Its sentry, which fires at the player (see DungeonSentries) */}
+        {sentry && (
+          <mesh position={sentry}>
+            <icosahedronGeometry args={[0.35, 1]} />
+            <meshStandardMaterial color="#ff3355" emissive="#ff1030" emissiveIntensity={2} />
+          </mesh>
+        )}
+      </group>
+
+      {colliders && (
+        <RigidBody type="fixed" colliders={false} position={structure.position} rotation={rotation}>
+          <TrimeshCollider args={[mesh.colliderVertices, mesh.colliderIndices]} />
+          {chests.map((chest, index) => {
+            const [width, height, depth] = CHEST_LOOKS[chest.tier].size
+            return (
+              <CuboidCollider
+                key={index}
+                args={[width / 2, height / 2, depth / 2]}
+                position={[chest.position.x, chest.position.y + height / 2, chest.position.z]}
+              />
+            )
+          })}
+          {bossCenter && (
+            <CuboidCollider args={[0.8, 0.5, 0.5]} position={[bossCenter.x, bossCenter.y + 0.5, bossCenter.z]} />
+          )}
+        </RigidBody>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,146 @@
+import { useEffect, useMemo, useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { useKeyboardControls } from '@react-three/drei'
+import { CuboidCollider, RigidBody } from '@react-three/rapier'
+import type { RapierRigidBody } from '@react-three/rapier'
+import { Group, Quaternion, Vector3 } from 'three'
+import { generateHouseLayout } from '../utils/houses'
+import type { HouseBox, HouseDoor as HouseDoorLayout } from '../utils/houses'
+import type { Structure } from '../utils/structures'
+import { Controls } from '../types/controls'
+
+interface ProceduralHouseProps {
+  structure: Structure
+  seed: number
+  colliders: boolean  // Walls, floor, roof, furniture and the door become solid
+  playerRef: React.MutableRefObject<{ position: Vector3 } | null>
+}
+
+const UP = new Vector3(0, 1, 0)
+const DOOR_REACH = 2.5         // Player must be this close to the door to use it
+const DOOR_OPEN_ANGLE = -1.75  // Swings outward, radians
+const DOOR_SWING_SPEED = 5     // Higher is snappier
+
+export default function ProceduralHouse({ structure, seed, colliders, playerRef }: ProceduralHouseProps) {
+  const layout = useMemo(() => generateHouseLayout(structure, seed), [structure, seed])
+  const rotation: [number, number, number] = [0, structure.rotation, 0]
+
+  return (
+    <>
+      <group position={structure.position} rotation={rotation}>
+        {layout.shell.map((part, index) => <HouseBoxMesh key={index} part={part} />)}
+        {layout.furniture.map((item, index) => (
+          <group key={index} position={item.position} rotation={[0, item.rotation, 0]}>
+            {item.parts.map((part, partIndex) => <HouseBoxMesh key={partIndex} part={part} />)}
+          </group>
+        ))}
+      </group>
+
+      {colliders && (
+        <RigidBody type="fixed" colliders={false} position={structure.position} rotation={rotation}>
+          {layout.shell.filter(part => part.solid).map((part, index) => (
+            <CuboidCollider
+              key={index}
+              args={[part.size[0] / 2, part.size[1] / 2, part.size[2] / 2]}
+              position={part.center}
+            />
+          ))}
+          {layout.furniture.map((item, index) => (
+            <CuboidCollider
+              key={`furniture-${index}`}
+              args={[item.size[0] / 2, item.size[1] / 2, item.size[2] / 2]}
+              position={[item.position[0], item.position[1] + item.size[1] / 2, item.position[2]]}
+              rotation={[0, item.rotation, 0]}
+            />
+          ))}
+        </RigidBody>
+      )}
+
+      <HouseDoor structure={structure} door={layout.door} colliders={colliders} playerRef={playerRef} />
+    </>
+  )
+}
+
+function HouseBoxMesh({ part }: { part: HouseBox }) {
+  return (
+    <mesh position={part.center} castShadow={!part.glass} receiveShadow>
+      <boxGeometry args={part.size} />
+      {part.glass ? (
+        <meshStandardMaterial color={part.color} transparent opacity={0.7} />
+      ) : (
+        <meshStandardMaterial color={part.color} />
+      )}
+    </mesh>
+  )
+}
+
+interface HouseDoorProps {
+  structure: Structure
+  door: HouseDoorLayout
+  colliders: boolean
+  playerRef: React.MutableRefObject<{ position: Vector3 } | null>
+}
+
+// Hinged door that swings open and shut when the player interacts near it
+function HouseDoor({ structure, door, colliders, playerRef }: HouseDoorProps) {
+  const bodyRef = useRef<RapierRigidBody>(null)
+  const pivotRef = useRef<Group>(null)
+  const isOpen = useRef(false)
+  const angle = useRef(0)
+  const [subscribeKeys] = useKeyboardControls<Controls>()
+
+  // Hinge and door middle in world space
+  const { hinge, center } = useMemo(() => {
+    const hinge = new Vector3(...door.hinge).applyAxisAngle(UP, structure.rotation).add(structure.position)
+    const center = new Vector3(door.width / 2, door.height / 2, 0).applyAxisAngle(UP, structure.rotation).add(hinge)
+    return { hinge, center }
+  }, [structure, door])
+
+  useEffect(() => subscribeKeys(
+    state => state[Controls.interact],
+    pressed => {
+      const player = playerRef.current?.position
+      if (pressed && player && player.distanceTo(center) < DOOR_REACH) {
+        isOpen.current = !isOpen.current
+      }
+    }
+  ), [subscribeKeys, playerRef, center])
+
+  const quaternion = useMemo(() => new Quaternion(), [])
+  useFrame((_state, delta) => {
+    const target = isOpen.current ? DOOR_OPEN_ANGLE : 0
+    if (Math.abs(target - angle.current) < 1e-3) return
+
+    angle.current += (target - angle.current) * Math.min(1, delta * DOOR_SWING_SPEED)
+    quaternion.setFromAxisAngle(UP, structure.rotation + angle.current)
+    bodyRef.current?.setNextKinematicRotation(quaternion)
+    pivotRef.current?.quaternion.copy(quaternion)
+  })
+
+  const panel = (
+    <mesh position={[door.width / 2, door.height / 2, 0]} castShadow receiveShadow>
+      <boxGeometry args={[door.width, door.height, door.thickness]} />
+      <meshStandardMaterial color={door.color} />
+    </mesh>
+  )
+
+  if (!colliders) {
+    return <group ref={pivotRef} position={hinge} rotation={[0, structure.rotation, 0]}>{panel}</group>
+  }
+
+  return (
+    <RigidBody
+      ref={bodyRef}
+      type="kinematicPosition"
+      colliders={false}
+      position={hinge}
+      rotation={[0, structure.rotation, 0]}
+    >
+      <CuboidCollider
+        args={[door.width / 2, door.height / 2, door.thickness / 2]}
+        position={[door.width / 2, door.height / 2, 0]}
+      />
+      {panel}
+    </RigidBody>
+  )
+}
@@ -0,0 +1,85 @@
+import { useMemo } from 'react'
+import { CuboidCollider, RigidBody } from '@react-three/rapier'
+import { createRandom, hashSeed } from '../utils/random'
+import type { Structure } from '../utils/structures'
+
+interface ProceduralRuinProps {
+  structure: Structure
+  seed: number
+  colliders: boolean  // The standing stones become solid
+}
+
+interface RuinStone {
+  center: [number, number, number]
+  size: [number, number, number]
+  tilt: number  // Lean around the local z axis
+}
+
+const HALF_WIDTH = 3.6         // Walls trace a square inside the round footprint
+const SEGMENTS_PER_SIDE = 4
+const MAX_WALL_HEIGHT = 2.8
+const WALL_THICKNESS = 0.6
+const STONE_COLORS = ['#8a857b', '#7a7468', '#9a927f']
+
+export default function ProceduralRuin({ structure, seed, colliders }: ProceduralRuinProps) {
+  const { scale, variant } = structure
+  const rotation: [number, number, number] = [0, structure.rotation, 0]
+  const color = STONE_COLORS[variant % STONE_COLORS.length]
+
+  // Broken walls around a square, some sections fallen, plus a toppled column
+  const stones = useMemo(() => {
+    const { x, z } = structure.position
+    const random = createRandom(hashSeed(seed, Math.floor(x), Math.floor(z)))
+    const length = (HALF_WIDTH * 2) / SEGMENTS_PER_SIDE
+    const result: RuinStone[] = []
+
+    for (let side = 0; side < 4; side++) {
+      for (let segment = 0; segment < SEGMENTS_PER_SIDE; segment++) {
+        if (random() < 0.3) continue
+        const height = 0.4 + random() * random() * MAX_WALL_HEIGHT
+        const along = -HALF_WIDTH + (segment + 0.5) * length
+        const horizontal = side % 2 === 0
+        const edge = side < 2 ? -HALF_WIDTH : HALF_WIDTH
+        result.push({
+          center: horizontal ? [along, height / 2, edge] : [edge, height / 2, along],
+          size: horizontal ? [length, height, WALL_THICKNESS] : [WALL_THICKNESS, height, length],
+          tilt: 0,
+        })
+      }
+    }
+
+    const columnLength = 2 + random() * 1.5
+    result.push({
+      center: [(random() - 0.5) * HALF_WIDTH, 0.3, (random() - 0.5) * HALF_WIDTH],
+      size: [columnLength, 0.6, 0.6],
+      tilt: (random() - 0.5) * 0.2,
+    })
+    return result
+  }, [structure, seed])
+
+  return (
+    <>
+      <group position={structure.position} rotation={rotation} scale={scale}>
+        {stones.map((stone, index) => (
+          <mesh key={index} position={stone.center} rotation={[0, 0, stone.tilt]} castShadow receiveShadow>
+            <boxGeometry args={stone.size} />
+            <meshStandardMaterial color={color} roughness={0.95} />
+          </mesh>
+        ))}
+      </group>
+
+      {colliders && (
+        <RigidBody type="fixed" colliders={false} position={structure.position} rotation={rotation}>
+          {stones.map((stone, index) => (
+            <CuboidCollider
+              key={index}
+              args={[(stone.size[0] / 2) * scale, (stone.size[1] / 2) * scale, (stone.size[2] / 2) * scale]}
+              position={[stone.center[0] * scale, stone.center[1] * scale, stone.center[2] * scale]}
+              rotation={[0, 0, stone.tilt]}
+            />
+          ))}
+        </RigidBody>
+      )}
+    </>
+  )
+}
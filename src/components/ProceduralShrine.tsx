@@ -0,0 +1,77 @@
+import { CuboidCollider, RigidBody } from '@react-three/rapier'
+import type { Structure } from '../utils/structures'
+
+interface ProceduralShrineProps {
+  structure: Structure
+  colliders: boolean  // The plinth and pillars become solid
+}
+
+const PLINTH_SIZE = 2.6        // Matches the footprint
+const STEP_HEIGHT = 0.25
+const PILLAR_HEIGHT = 2.2
+const PILLAR_INSET = 0.35      // From the plinth's edge
+const STONE_COLOR = '#b8b2a6'
+const GLOW_COLORS = ['#7fd4ff', '#c48bff', '#9dff9d']
+
+export default function ProceduralShrine({ structure, colliders }: ProceduralShrineProps) {
+  const { scale, variant } = structure
+  const rotation: [number, number, number] = [0, structure.rotation, 0]
+  const glow = GLOW_COLORS[variant % GLOW_COLORS.length]
+  const top = STEP_HEIGHT * 2
+  const corner = PLINTH_SIZE / 2 - PILLAR_INSET
+  const pillars = [[-1, -1], [1, -1], [-1, 1], [1, 1]]
+
+  return (
+    <>
+      <group position={structure.position} rotation={rotation} scale={scale}>
+        {/* Two stepped slabs */}
+        <mesh position={[0, STEP_HEIGHT / 2, 0]} receiveShadow>
+          <boxGeometry args={[PLINTH_SIZE, STEP_HEIGHT, PLINTH_SIZE]} />
+          <meshStandardMaterial color={STONE_COLOR} roughness={0.9} />
+        </mesh>
+        <mesh position={[0, STEP_HEIGHT * 1.5, 0]} receiveShadow>
+          <boxGeometry args={[PLINTH_SIZE - 0.5, STEP_HEIGHT, PLINTH_SIZE - 0.5]} />
+          <meshStandardMaterial color={STONE_COLOR} roughness={0.9} />
+        </mesh>
+
+        {pillars.map(([x, z], index) => (
+          <mesh key={index} position={[x * corner, top + PILLAR_HEIGHT / 2, z * corner]} castShadow>
+            <cylinderGeometry args={[0.14, 0.17, PILLAR_HEIGHT, 8]} />
+            <meshStandardMaterial color={STONE_COLOR} roughness={0.9} />
+          </mesh>
+        ))}
+        <mesh position={[0, top + PILLAR_HEIGHT + 0.12, 0]} castShadow>
+          <boxGeometry args={[corner * 2 + 0.5, 0.24, corner * 2 + 0.5]} />
+          <meshStandardMaterial color={STONE_COLOR} roughness={0.9} />
+        </mesh>
+
+        {/* Floating crystal over a small altar */}
+        <mesh position={[0, top + 0.35, 0]}>
+          <boxGeometry args={[0.5, 0.7, 0.5]} />
+          <meshStandardMaterial color={STONE_COLOR} roughness={0.9} />
+        </mesh>
+        <mesh position={[0, top + 1.2, 0]}>
+          <octahedronGeometry args={[0.28]} />
+          <meshStandardMaterial color={glow} emissive={glow} emissiveIntensity={1.5} />
+        </mesh>
+      </group>
+
+      {colliders && (
+        <RigidBody type="fixed" colliders={false} position={structure.position} rotation={rotation}>
+          <CuboidCollider
+            args={[(PLINTH_SIZE / 2) * scale, (STEP_HEIGHT / 2) * scale, (PLINTH_SIZE / 2) * scale]}
+            position={[0, (STEP_HEIGHT / 2) * scale, 0]}
+          />
+          {pillars.map(([x, z], index) => (
+            <CuboidCollider
+              key={index}
+              args={[0.15 * scale, (PILLAR_HEIGHT / 2) * scale, 0.15 * scale]}
+              position={[x * corner * scale, (top + PILLAR_HEIGHT / 2) * scale, z * corner * scale]}
+            />
+          ))}
+          <CuboidCollider args={[0.25 * scale, 0.35 * scale, 0.25 * scale]} position={[0, (top + 0.35) * scale, 0]} />
+        </RigidBody>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,80 @@
+import { CuboidCollider, RigidBody } from '@react-three/rapier'
+import type { Structure } from '../utils/structures'
+
+interface ProceduralWatchtowerProps {
+  structure: Structure
+  colliders: boolean  // Legs and the lookout floor become solid
+}
+
+const HALF_WIDTH = 1.5       // Legs stand at the corners of the footprint
+const PLATFORM_HEIGHT = 5.5
+const RAILING_HEIGHT = 1
+const ROOF_HEIGHT = 1.8
+const WOOD_COLORS = ['#6b4a2f', '#7a5230', '#5a3d24']
+const ROOF_COLOR = '#4f341d'
+
+export default function ProceduralWatchtower({ structure, colliders }: ProceduralWatchtowerProps) {
+  const { scale, variant } = structure
+  const rotation: [number, number, number] = [0, structure.rotation, 0]
+  const wood = WOOD_COLORS[variant % WOOD_COLORS.length]
+  const corners = [[-1, -1], [1, -1], [-1, 1], [1, 1]]
+  const legHeight = PLATFORM_HEIGHT + RAILING_HEIGHT + 0.8
+
+  return (
+    <>
+      <group position={structure.position} rotation={rotation} scale={scale}>
+        {corners.map(([x, z], index) => (
+          <mesh key={index} position={[x * HALF_WIDTH, legHeight / 2, z * HALF_WIDTH]} castShadow>
+            <boxGeometry args={[0.25, legHeight, 0.25]} />
+            <meshStandardMaterial color={wood} />
+          </mesh>
+        ))}
+
+        {/* Lookout floor and its railing */}
+        <mesh position={[0, PLATFORM_HEIGHT, 0]} castShadow receiveShadow>
+          <boxGeometry args={[HALF_WIDTH * 2 + 0.4, 0.2, HALF_WIDTH * 2 + 0.4]} />
+          <meshStandardMaterial color={wood} />
+        </mesh>
+        {[0, Math.PI / 2, Math.PI, -Math.PI / 2].map(angle => (
+          <mesh
+            key={angle}
+            position={[Math.sin(angle) * HALF_WIDTH, PLATFORM_HEIGHT + RAILING_HEIGHT, Math.cos(angle) * HALF_WIDTH]}
+            rotation={[0, angle, 0]}
+          >
+            <boxGeometry args={[HALF_WIDTH * 2, 0.12, 0.12]} />
+            <meshStandardMaterial color={wood} />
+          </mesh>
+        ))}
+
+        {/* Ladder up the front */}
+        {Array.from({ length: 8 }, (_, rung) => (
+          <mesh key={rung} position={[0, 0.5 + rung * 0.65, HALF_WIDTH + 0.15]}>
+            <boxGeometry args={[0.8, 0.08, 0.08]} />
+            <meshStandardMaterial color={wood} />
+          </mesh>
+        ))}
+
+        <mesh position={[0, legHeight + ROOF_HEIGHT / 2, 0]} rotation={[0, Math.PI / 4, 0]} castShadow>
+          <coneGeometry args={[HALF_WIDTH * 1.9, ROOF_HEIGHT, 4]} />
+          <meshStandardMaterial color={ROOF_COLOR} />
+        </mesh>
+      </group>
+
+      {colliders && (
+        <RigidBody type="fixed" colliders={false} position={structure.position} rotation={rotation}>
+          {corners.map(([x, z], index) => (
+            <CuboidCollider
+              key={index}
+              args={[0.125 * scale, (legHeight / 2) * scale, 0.125 * scale]}
+              position={[x * HALF_WIDTH * scale, (legHeight / 2) * scale, z * HALF_WIDTH * scale]}
+            />
+          ))}
+          <CuboidCollider
+            args={[(HALF_WIDTH + 0.2) * scale, 0.1 * scale, (HALF_WIDTH + 0.2) * scale]}
+            position={[0, PLATFORM_HEIGHT * scale, 0]}
+          />
+        </RigidBody>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,69 @@
+import { CylinderCollider, RigidBody } from '@react-three/rapier'
+import { DoubleSide } from 'three'
+import type { Structure } from '../utils/structures'
+
+interface ProceduralWellProps {
+  structure: Structure
+  colliders: boolean  // The stone ring becomes solid
+}
+
+const RING_RADIUS = 1.1
+const RING_HEIGHT = 0.9
+const POST_HEIGHT = 2.4
+const ROOF_WIDTH = 2.8
+
+export default function ProceduralWell({ structure, colliders }: ProceduralWellProps) {
+  const rotation: [number, number, number] = [0, structure.rotation, 0]
+
+  return (
+    <>
+      <group position={structure.position} rotation={rotation} scale={structure.scale}>
+        {/* Stone ring with dark water inside */}
+        <mesh position={[0, RING_HEIGHT / 2, 0]} castShadow receiveShadow>
+          <cylinderGeometry args={[RING_RADIUS, RING_RADIUS * 1.08, RING_HEIGHT, 16, 1, true]} />
+          <meshStandardMaterial color="#7d7a73" roughness={0.95} side={DoubleSide} />
+        </mesh>
+        <mesh position={[0, RING_HEIGHT, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+          <torusGeometry args={[RING_RADIUS, 0.12, 6, 16]} />
+          <meshStandardMaterial color="#8e8a82" roughness={0.9} />
+        </mesh>
+        <mesh position={[0, RING_HEIGHT * 0.6, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+          <circleGeometry args={[RING_RADIUS * 0.95, 16]} />
+          <meshStandardMaterial color="#1d3340" roughness={0.2} />
+        </mesh>
+
+        {/* Posts, crossbar and a little gabled roof */}
+        {[-1, 1].map(side => (
+          <mesh key={side} position={[side * (RING_RADIUS + 0.05), POST_HEIGHT / 2, 0]} castShadow>
+            <boxGeometry args={[0.15, POST_HEIGHT, 0.15]} />
+            <meshStandardMaterial color="#6b4a2f" />
+          </mesh>
+        ))}
+        <mesh position={[0, POST_HEIGHT * 0.8, 0]} rotation={[0, 0, Math.PI / 2]}>
+          <cylinderGeometry args={[0.06, 0.06, RING_RADIUS * 2.2, 8]} />
+          <meshStandardMaterial color="#4f341d" />
+        </mesh>
+        {[-1, 1].map(side => (
+          <mesh
+            key={side}
+            position={[0, POST_HEIGHT + 0.3, side * 0.45]}
+            rotation={[side * 0.6, 0, 0]}
+            castShadow
+          >
+            <boxGeometry args={[ROOF_WIDTH, 0.08, 1.1]} />
+            <meshStandardMaterial color="#654321" />
+          </mesh>
+        ))}
+      </group>
+
+      {colliders && (
+        <RigidBody type="fixed" colliders={false} position={structure.position} rotation={rotation}>
+          <CylinderCollider
+            args={[(RING_HEIGHT / 2) * structure.scale, RING_RADIUS * 1.1 * structure.scale]}
+            position={[0, (RING_HEIGHT / 2) * structure.scale, 0]}
+          />
+        </RigidBody>
+      )}
+    </>
+  )
+}
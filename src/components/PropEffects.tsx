@@ -0,0 +1,177 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useFrame } from '@react-three/fiber'
+import { RigidBody } from '@react-three/rapier'
+import {
+  BoxGeometry,
+  Color,
+  CylinderGeometry,
+  DodecahedronGeometry,
+  Group,
+  MeshStandardMaterial,
+  OctahedronGeometry,
+  Vector3
+} from 'three'
+import type { BufferGeometry } from 'three'
+import { subscribePropDamage } from '../utils/propDamage'
+import { getPropCollider, getPropDurability } from '../utils/props'
+import { addResource } from '../utils/inventory'
+import { getSurfaceHeight } from '../utils/worldQuery'
+import { ResourceType } from '../types/world'
+
+interface PropEffectsProps {
+  playerRef: React.MutableRefObject<{ position: Vector3 } | null>
+}
+
+interface Debris {
+  id: number
+  position: [number, number, number]
+  velocity: [number, number, number]
+  spin: [number, number, number]
+  size: number
+  color: Color
+  createdAt: number
+}
+
+interface Pickup {
+  id: number
+  resource: ResourceType
+  position: Vector3
+  createdAt: number
+}
+
+const DEBRIS_PER_PROP = 8
+const DEBRIS_LIFETIME_MS = 4000
+const PICKUP_LIFETIME_MS = 120000
+const PICKUP_RADIUS = 2       // Collected within this distance of the player's body center
+const PICKUP_SCATTER = 1.5    // Pickups land this far around the broken prop
+const PICKUP_HOVER = 0.5      // Height above the ground
+
+export default function PropEffects({ playerRef }: PropEffectsProps) {
+  const [debris, setDebris] = useState<Debris[]>([])
+  const [pickups, setPickups] = useState<Pickup[]>([])
+  // Pickups still lying around, updated straight away so one collected on this
+  // frame is gone on the next even if React hasn't re-rendered yet
+  const livePickups = useRef<Pickup[]>([])
+  const nextId = useRef(0)
+  const pickupGroups = useRef(new Map<number, Group>())
+
+  const debrisGeometry = useMemo(() => new BoxGeometry(1, 1, 1), [])
+  const pickupLooks = useMemo<Record<ResourceType, { geometry: BufferGeometry, material: MeshStandardMaterial }>>(() => ({
+    [ResourceType.WOOD]: {
+      geometry: new CylinderGeometry(0.15, 0.15, 0.6, 8).rotateZ(Math.PI / 2),
+      material: new MeshStandardMaterial({ color: '#8b5a2b' }),
+    },
+    [ResourceType.STONE]: {
+      geometry: new DodecahedronGeometry(0.2),
+      material: new MeshStandardMaterial({ color: '#8a8a94' }),
+    },
+    [ResourceType.CRYSTAL]: {
+      geometry: new OctahedronGeometry(0.2),
+      material: new MeshStandardMaterial({ color: '#b45cd6', emissive: '#3a1050' }),
+    },
+  }), [])
+
+  // Break destroyed props apart and drop their resources
+  useEffect(() => subscribePropDamage(({ prop, destroyed }) => {
+    const durability = getPropDurability(prop.type)
+    if (!destroyed || !durability) return
+
+    const now = performance.now()
+    const center = getPropCollider(prop)?.position ?? prop.position.clone().setY(prop.position.y + 1)
+
+    const fragments: Debris[] = []
+    for (let i = 0; i < DEBRIS_PER_PROP; i++) {
+      const angle = Math.random() * Math.PI * 2
+      const speed = 2 + Math.random() * 2
+      fragments.push({
+        id: nextId.current++,
+        position: [center.x, center.y, center.z],
+        velocity: [Math.cos(angle) * speed, 3 + Math.random() * 2, Math.sin(angle) * speed],
+        spin: [Math.random() * 6 - 3, Math.random() * 6 - 3, Math.random() * 6 - 3],
+        size: (0.25 + Math.random() * 0.25) * prop.scale,
+        color: durability.debrisColor,
+        createdAt: now,
+      })
+    }
+    setDebris(previous => [...previous, ...fragments])
+
+    const [fewest, most] = durability.drops
+    const count = fewest + Math.floor(Math.random() * (most - fewest + 1))
+    const drops: Pickup[] = []
+    for (let i = 0; i < count; i++) {
+      const x = prop.position.x + (Math.random() * 2 - 1) * PICKUP_SCATTER
+      const z = prop.position.z + (Math.random() * 2 - 1) * PICKUP_SCATTER
+      drops.push({
+        id: nextId.current++,
+        resource: durability.resource,
+        position: new Vector3(x, getSurfaceHeight(x, z) + PICKUP_HOVER, z),
+        createdAt: now,
+      })
+    }
+    livePickups.current = [...livePickups.current, ...drops]
+    setPickups(livePickups.current)
+  }), [])
+
+  useFrame(({ clock }) => {
+    const now = performance.now()
+
+    if (debris.some(fragment => now - fragment.createdAt > DEBRIS_LIFETIME_MS)) {
+      setDebris(previous => previous.filter(fragment => now - fragment.createdAt <= DEBRIS_LIFETIME_MS))
+    }
+
+    // Spin and bob so pickups catch the eye
+    pickupGroups.current.forEach((group, id) => {
+      group.rotation.y = clock.elapsedTime * 2 + id
+      group.position.y = Math.sin(clock.elapsedTime * 3 + id) * 0.1
+    })
+
+    const player = playerRef.current?.position
+    const kept = livePickups.current.filter(pickup => {
+      if (player && pickup.position.distanceTo(player) < PICKUP_RADIUS) {
+        addResource(pickup.resource)
+        return false
+      }
+      return now - pickup.createdAt <= PICKUP_LIFETIME_MS
+    })
+
+    if (kept.length < livePickups.current.length) {
+      livePickups.current = kept
+      setPickups(kept)
+    }
+  })
+
+  return (
+    <>
+      {debris.map(fragment => (
+        <RigidBody
+          key={fragment.id}
+          position={fragment.position}
+          linearVelocity={fragment.velocity}
+          angularVelocity={fragment.spin}
+          colliders="cuboid"
+        >
+          <mesh geometry={debrisGeometry} scale={fragment.size} castShadow>
+            <meshStandardMaterial color={fragment.color} />
+          </mesh>
+        </RigidBody>
+      ))}
+      {pickups.map(pickup => (
+        <group key={pickup.id} position={pickup.position}>
+          <group ref={group => {
+            if (group) {
+              pickupGroups.current.set(pickup.id, group)
+            } else {
+              pickupGroups.current.delete(pickup.id)
+            }
+          }}>
+            <mesh
+              geometry={pickupLooks[pickup.resource].geometry}
+              material={pickupLooks[pickup.resource].material}
+              castShadow
+            />
+          </group>
+        </group>
+      ))}
+    </>
+  )
+}
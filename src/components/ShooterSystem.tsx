@@ -2,20 +2,27 @@ import { useRef, useState, useCallback } from 'react'
 import type { ReactNode } from 'react'
 import { useFrame } from '@react-three/fiber'
 import { RigidBody, RapierRigidBody } from '@react-three/rapier'
+import type { CollisionEnterPayload } from '@react-three/rapier'
 import { Vector3, Mesh } from 'three'
 import { ShooterContext } from '../contexts/ShooterContext'
+import { defaultWaterConfig } from '../utils/water'
+import { isUnderwater } from '../utils/noise'
 
 interface Projectile {
   id: number
   origin: Vector3
   direction: Vector3
   createdAt: number
+  owner?: string  // userData flag of the body that fired it
   rigidBodyRef: React.RefObject<RapierRigidBody | null>
 }
 
+// Called with where a projectile hit and the userData of the rigid body it struck
+type ProjectileHitHandler = (position: Vector3, userData?: Record<string, unknown>) => void
+
 interface ShooterProviderProps {
   children: ReactNode
-  onProjectileHit?: (position: Vector3) => void
+  onProjectileHit?: ProjectileHitHandler
 }
 
 export function ShooterProvider({ children, onProjectileHit }: ShooterProviderProps) {
@@ -23,12 +30,13 @@ export function ShooterProvider({ children, onProjectileHit }: ShooterProviderPr
   const projectileIdRef = useRef(0)
   
   // Create a new projectile
-  const shootProjectile = useCallback((origin: Vector3, direction: Vector3) => {
+  const shootProjectile = useCallback((origin: Vector3, direction: Vector3, owner?: string) => {
     const newProjectile: Projectile = {
       id: projectileIdRef.current++,
       origin: origin.clone(),
       direction: direction.clone(),
       createdAt: Date.now(),
+      owner,
       rigidBodyRef: { current: null }
     }
     
@@ -37,6 +45,16 @@ export function ShooterProvider({ children, onProjectileHit }: ShooterProviderPr
   
   // Clean up old projectiles
   useFrame(() => {
+    // Water slows projectiles down
+    projectiles.forEach(projectile => {
+      const body = projectile.rigidBodyRef.current
+      if (body) {
+        const { x, y, z } = body.translation()
+        const inWater = isUnderwater(x, y, z)
+        body.setLinearDamping(inWater ? defaultWaterConfig.projectileDrag : 0)
+      }
+    })
+    
     const now = Date.now()
     setProjectiles(prev => prev.filter(projectile => {
       // Remove projectiles after 5 seconds
@@ -44,10 +62,10 @@ export function ShooterProvider({ children, onProjectileHit }: ShooterProviderPr
         return false
       }
       
-      // Remove projectiles that are too far away
+      // Remove projectiles that have flown too far
       if (projectile.rigidBodyRef.current) {
         const position = projectile.rigidBodyRef.current.translation()
-        const distance = Math.sqrt(position.x ** 2 + position.y ** 2 + position.z ** 2)
+        const distance = projectile.origin.distanceTo(position)
         if (distance > 200) {
           return false
         }
@@ -74,18 +92,22 @@ export function ShooterProvider({ children, onProjectileHit }: ShooterProviderPr
 
 interface ProjectileBallProps {
   projectile: Projectile
-  onHit?: (position: Vector3) => void
+  onHit?: ProjectileHitHandler
 }
 
 function ProjectileBall({ projectile, onHit }: ProjectileBallProps) {
   const meshRef = useRef<Mesh>(null)
   
-  const handleCollision = useCallback(() => {
+  const handleCollision = useCallback(({ other }: CollisionEnterPayload) => {
+    const userData = other.rigidBodyObject?.userData
+    // Shots can clip whoever fired them on the way out, that doesn't count as a hit
+    if (projectile.owner && userData?.[projectile.owner]) return
+
     if (projectile.rigidBodyRef.current) {
       const position = projectile.rigidBodyRef.current.translation()
-      onHit?.(new Vector3(position.x, position.y, position.z))
+      onHit?.(new Vector3(position.x, position.y, position.z), userData)
     }
-  }, [projectile.rigidBodyRef, onHit])
+  }, [projectile.rigidBodyRef, projectile.owner, onHit])
 
   return (
     <RigidBody
@@ -6,11 +6,16 @@ import {
   Mesh,
   Points
 } from 'three'
+import { createRandom, hashSeed } from '../utils/random'
 
 // Simple sky with white stars - high performance
 const STAR_COUNT = 400
 
-export default function SimpleAtmosphericSky() {
+interface SimpleAtmosphericSkyProps {
+  seed: number
+}
+
+export default function SimpleAtmosphericSky({ seed }: SimpleAtmosphericSkyProps) {
   const { camera } = useThree()
   const skyRef = useRef<Mesh>(null)
   const starsRef = useRef<Points>(null)
@@ -19,11 +24,12 @@ export default function SimpleAtmosphericSky() {
   const starGeometry = useMemo(() => {
     const geometry = new BufferGeometry()
     const positions = new Float32Array(STAR_COUNT * 3)
+    const random = createRandom(hashSeed(seed, STAR_COUNT))
 
     for (let i = 0; i < STAR_COUNT; i++) {
-      // Random star positions in a sphere
-      const theta = Math.random() * Math.PI * 2
-      const phi = Math.acos(2 * Math.random() - 1)
+      // Seeded star positions in a sphere
+      const theta = random() * Math.PI * 2
+      const phi = Math.acos(2 * random() - 1)
       const radius = 300
 
       positions[i * 3] = radius * Math.sin(phi) * Math.cos(theta)
@@ -33,7 +39,7 @@ export default function SimpleAtmosphericSky() {
 
     geometry.setAttribute('position', new BufferAttribute(positions, 3))
     return geometry
-  }, [])
+  }, [seed])
 
   // Keep sky centered on camera
   useFrame(() => {
@@ -1,134 +1,260 @@
-import { useMemo, useState, useRef, useCallback } from 'react'
+import { useMemo, useState, useRef, useCallback, useEffect } from 'react'
 import { useFrame } from '@react-three/fiber'
-import { RigidBody } from '@react-three/rapier'
+import { RigidBody, HeightfieldCollider, TrimeshCollider, interactionGroups } from '@react-three/rapier'
 import { 
   BufferGeometry, 
   BufferAttribute, 
-  ShaderMaterial, 
-  Color,
+  MeshStandardMaterial,
+  DoubleSide,
   Vector3
 } from 'three'
-import { getTerrainHeight, terrainNoise } from '../utils/noise'
+import { terrainNoise } from '../utils/noise'
+import type { GrassConfig, TerrainConfig } from '../utils/noise'
+import { defaultWaterConfig } from '../utils/water'
+import { createTerrainWorkerPool } from '../utils/terrainWorkerPool'
+import type { TerrainWorkerPool } from '../utils/terrainWorkerPool'
+import type { TerrainChunkData } from '../utils/terrainMesh'
+import {
+  CHUNK_SIZE,
+  COLLIDER_RESOLUTION,
+  DEFAULT_VIEW_DISTANCE,
+  SKIRT_DEPTH,
+  TERRAIN_LOD_LEVELS,
+  getLodLevel
+} from '../utils/terrainLod'
+import { getTerrainEditRevision, subscribeTerrainEdits } from '../utils/terrainEdits'
+import { createTerrainMaterial, setTerrainHoles } from '../utils/terrainMaterial'
+import { TERRAIN_COLLISION_GROUP } from '../utils/terrainCollider'
+import { getNearbyTerrainOpenings } from '../utils/dungeons'
+import { createGrassBladeGeometry, createGrassMaterial } from '../utils/grass'
+import { createPropGeometry, createPropMaterial, getPropColliderFromHint, PROP_TYPES } from '../utils/props'
+import { findColliderHint, findModel, getInstancedModel, getPropModelKey } from '../utils/modelAssets'
+import { useLoadedModels } from '../hooks/useModel'
+import type { ModelType } from '../types/world'
 import GrassSystem from './GrassSystem'
 import ModelSystem from './ModelSystem'
+import type { PropAsset } from './ModelSystem'
 import ProceduralStructures from './ProceduralStructures'
 
 interface TerrainProps {
   playerRef: React.MutableRefObject<{ position: Vector3 } | null>
+  seed: number
+  viewDistance?: number  // In chunks around the player
+  terrainConfig: TerrainConfig  // Active shape - changing it regenerates loaded chunks
+  grassConfig: GrassConfig
+  caves?: boolean  // Volumetric caves and overhangs in the nearest ring
 }
 
 interface TerrainChunk {
   x: number
   z: number
   key: string
+  lod: number
+  revision: number  // Terrain edit revision the mesh was built from
+  generation: number  // Terrain config generation the mesh was built from
   geometry: BufferGeometry
-  material: ShaderMaterial
+  heights?: number[]  // Heightfield collider samples for the physics ring
+  trimesh?: [Float32Array, Uint16Array | Uint32Array]  // Collider for volumetric chunks in the physics ring
+  waterGeometry?: BufferGeometry  // Sea, lake and river surface over the chunk
+  material: MeshStandardMaterial
 }
 
-// Optimized parameters for better performance
-const CHUNK_SIZE = 64        // Larger chunks = fewer chunks total
-const CHUNK_RESOLUTION = 16  // Reduced from 32 = 4x fewer vertices!
-const RENDER_DISTANCE = 1    // Reduced from 2 = 9 chunks instead of 25
+function disposeChunk(chunk: TerrainChunk) {
+  chunk.geometry.dispose()
+  chunk.waterGeometry?.dispose()
+}
 
-export default function Terrain({ playerRef }: TerrainProps) {
+export default function Terrain({
+  playerRef,
+  seed,
+  viewDistance = DEFAULT_VIEW_DISTANCE,
+  terrainConfig,
+  grassConfig,
+  caves = false
+}: TerrainProps) {
   // Use ref instead of state to avoid triggering re-renders
   const chunksRef = useRef<Map<string, TerrainChunk>>(new Map())
   const [, forceUpdate] = useState({}) // Only for triggering render when needed
   const lastPlayerChunk = useRef({ x: 999999, z: 999999 }) // Force initial load
   const frameCount = useRef(0)
   
-  // Shared shader material for all chunks
-  const sharedMaterial = useMemo(() => new ShaderMaterial({
-    vertexShader: `
-      attribute vec3 color;
-      varying vec3 vColor;
-      varying vec3 vNormal;
-      varying vec3 vPosition;
-      
-      void main() {
-        vColor = color;
-        vNormal = normalize(normalMatrix * normal);
-        vPosition = position;
-        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
-      }
-    `,
-    fragmentShader: `
-      varying vec3 vColor;
-      varying vec3 vNormal;
-      varying vec3 vPosition;
-      
-      void main() {
-        vec3 lightDirection = normalize(vec3(1.0, 1.0, 1.0));
-        float lightIntensity = max(dot(vNormal, lightDirection), 0.3);
-        
-        gl_FragColor = vec4(vColor * lightIntensity, 1.0);
+  // Shared lit terrain material for all chunks
+  const terrainMaterial = useMemo(() => createTerrainMaterial(), [])
+  const sharedMaterial = terrainMaterial.material
+
+  // Shared blade and wind-animated material for every chunk's grass
+  const grassBlade = useMemo(() => createGrassBladeGeometry(), [])
+  const grassMaterial = useMemo(() => createGrassMaterial(), [])
+
+  // Shared geometry and material per prop type, instanced by every chunk
+  const proceduralPropAssets = useMemo(() => {
+    const assets = {} as Record<ModelType, PropAsset>
+    PROP_TYPES.forEach(type => {
+      assets[type] = { geometry: createPropGeometry(type), material: createPropMaterial(type) }
+    })
+    return assets
+  }, [])
+
+  // glTF models replace the procedural props as they load, per LOD level
+  const models = useLoadedModels()
+  const propAssets = useMemo(() => TERRAIN_LOD_LEVELS.map((_, lod) => {
+    const assets = { ...proceduralPropAssets }
+    PROP_TYPES.forEach(type => {
+      const key = getPropModelKey(type)
+      const scene = findModel(models, key, lod)
+      const model = scene && getInstancedModel(scene)
+      if (model) {
+        assets[type] = { ...model, collider: getPropColliderFromHint(findColliderHint(models, key)) }
       }
-    `
+    })
+    return assets
+  }), [proceduralPropAssets, models])
+
+  // Shared material for every chunk's water surface
+  const waterMaterial = useMemo(() => new MeshStandardMaterial({
+    color: defaultWaterConfig.color,
+    transparent: true,
+    opacity: defaultWaterConfig.opacity,
+    roughness: 0.1,
+    metalness: 0.2,
+    side: DoubleSide, // Visible from below while swimming
+    depthWrite: false
   }), [])
 
-  const getHeightBasedColor = useCallback((height: number) => {
-    const normalizedHeight = (height + 10) / 20
-    const color = new Color()
-    
-    if (normalizedHeight < 0.2) {
-      color.setHSL(0.6, 0.8, 0.3) // Deep blue for low areas
-    } else if (normalizedHeight < 0.4) {
-      color.setHSL(0.3, 0.6, 0.4) // Green for medium areas
-    } else if (normalizedHeight < 0.7) {
-      color.setHSL(0.15, 0.7, 0.5) // Yellow-green for hills
-    } else {
-      color.setHSL(0.0, 0.0, 0.8) // White for peaks
+  // Worker pool that builds chunk buffers off the main thread
+  const poolRef = useRef<TerrainWorkerPool | null>(null)
+  const pendingChunks = useRef<Set<string>>(new Set())
+  // Chunk key -> LOD level the current view wants for it
+  const wantedChunks = useRef<Map<string, number>>(new Map())
+  // Bumped on every terrain config change so older results get rebuilt
+  const generationRef = useRef(0)
+
+  useEffect(() => {
+    const pool = createTerrainWorkerPool()
+    const chunks = chunksRef.current
+    const pending = pendingChunks.current
+    poolRef.current = pool
+    lastPlayerChunk.current = { x: 999999, z: 999999 } // Re-request after remount
+
+    return () => {
+      pool.dispose()
+      poolRef.current = null
+      pending.clear()
+      chunks.forEach(disposeChunk)
+      chunks.clear()
     }
-    
-    return color
   }, [])
 
-  const createChunk = useCallback((chunkX: number, chunkZ: number): TerrainChunk => {
-    const vertices: number[] = []
-    const indices: number[] = []
-    const colors: number[] = []
-    
-    // Generate vertices using Perlin noise
-    for (let i = 0; i <= CHUNK_RESOLUTION; i++) {
-      for (let j = 0; j <= CHUNK_RESOLUTION; j++) {
-        const x = chunkX * CHUNK_SIZE + (i / CHUNK_RESOLUTION) * CHUNK_SIZE
-        const z = chunkZ * CHUNK_SIZE + (j / CHUNK_RESOLUTION) * CHUNK_SIZE
-        
-        const height = getTerrainHeight(x, z)
-        vertices.push(x, height, z)
-        
-        const color = getHeightBasedColor(height)
-        colors.push(color.r, color.g, color.b)
-      }
-    }
-    
-    // Generate indices with correct winding order
-    for (let i = 0; i < CHUNK_RESOLUTION; i++) {
-      for (let j = 0; j < CHUNK_RESOLUTION; j++) {
-        const a = i * (CHUNK_RESOLUTION + 1) + j
-        const b = a + 1
-        const c = a + CHUNK_RESOLUTION + 1
-        const d = c + 1
-        
-        indices.push(a, b, c)
-        indices.push(b, d, c)
-      }
-    }
-    
+  // Rebuild the ring layout whenever the view distance changes
+  useEffect(() => {
+    lastPlayerChunk.current = { x: 999999, z: 999999 }
+  }, [viewDistance])
+
+  const createChunk = useCallback((
+    chunkX: number,
+    chunkZ: number,
+    lod: number,
+    revision: number,
+    generation: number,
+    data: TerrainChunkData
+  ): TerrainChunk => {
     const geometry = new BufferGeometry()
-    geometry.setAttribute('position', new BufferAttribute(new Float32Array(vertices), 3))
-    geometry.setAttribute('color', new BufferAttribute(new Float32Array(colors), 3))
-    geometry.setIndex(indices)
-    geometry.computeVertexNormals()
+    geometry.setAttribute('position', new BufferAttribute(data.positions, 3))
+    geometry.setAttribute('color', new BufferAttribute(data.colors, 3))
+    geometry.setAttribute('road', new BufferAttribute(data.roads, 1))
+    geometry.setAttribute('normal', new BufferAttribute(data.normals, 3))
+    geometry.setIndex(new BufferAttribute(data.indices, 1))
+
+    let waterGeometry: BufferGeometry | undefined
+    if (data.water) {
+      waterGeometry = new BufferGeometry()
+      waterGeometry.setAttribute('position', new BufferAttribute(data.water.positions, 3))
+      waterGeometry.setIndex(new BufferAttribute(data.water.indices, 1))
+      waterGeometry.computeVertexNormals()
+    }
     
     return {
       x: chunkX,
       z: chunkZ,
       key: `${chunkX},${chunkZ}`,
+      lod,
+      revision,
+      generation,
       geometry,
+      heights: data.heights && Array.from(data.heights),
+      trimesh: data.volumetric && TERRAIN_LOD_LEVELS[lod].collider ? [data.positions, data.indices] : undefined,
+      waterGeometry,
       material: sharedMaterial
     }
-  }, [getHeightBasedColor, sharedMaterial])
+  }, [sharedMaterial])
+
+  const requestChunk = useCallback((chunkX: number, chunkZ: number, key: string, lod: number) => {
+    const pool = poolRef.current
+    if (!pool) return
+
+    const jobKey = `${key}@${lod}`
+    const revision = getTerrainEditRevision(key)
+    const generation = generationRef.current
+    const level = TERRAIN_LOD_LEVELS[lod]
+    const volumetric = caves && level.volumetric
+    pendingChunks.current.add(jobKey)
+    pool.generate(jobKey, {
+      chunkX,
+      chunkZ,
+      chunkSize: CHUNK_SIZE,
+      resolution: level.resolution,
+      skirtDepth: SKIRT_DEPTH,
+      // Volumetric meshes are their own collider
+      colliderResolution: level.collider && !volumetric ? COLLIDER_RESOLUTION : 0,
+      volumetric
+    }).then(data => {
+      pendingChunks.current.delete(jobKey)
+
+      // Drop results for chunks the player has already left behind or that changed LOD
+      if (!data || poolRef.current !== pool || wantedChunks.current.get(key) !== lod) return
+
+      // The terrain was edited or retuned while this job was in flight - build it again
+      if (getTerrainEditRevision(key) !== revision || generationRef.current !== generation) {
+        requestChunk(chunkX, chunkZ, key, lod)
+        return
+      }
+
+      // Swap in the new mesh only once it exists so LOD changes never leave holes
+      const previous = chunksRef.current.get(key)
+      if (previous) disposeChunk(previous)
+      chunksRef.current.set(key, createChunk(chunkX, chunkZ, lod, revision, generation, data))
+      forceUpdate({})
+    }).catch(error => {
+      pendingChunks.current.delete(jobKey)
+      console.error(`Failed to generate terrain chunk ${jobKey}:`, error)
+    })
+  }, [createChunk, caves])
+
+  // Rebuild loaded chunks (mesh and collider) when the terrain is edited
+  useEffect(() => subscribeTerrainEdits(chunkKeys => {
+    chunkKeys.forEach(key => {
+      const lod = wantedChunks.current.get(key)
+      if (lod === undefined || pendingChunks.current.has(`${key}@${lod}`)) return
+
+      const [chunkX, chunkZ] = key.split(',').map(Number)
+      requestChunk(chunkX, chunkZ, key, lod)
+    })
+  }), [requestChunk])
+
+  // Regenerate every loaded chunk when the terrain config or cave mode changes, finest LODs first.
+  // Old meshes stay up until their replacements arrive.
+  useEffect(() => {
+    generationRef.current += 1
+
+    Array.from(wantedChunks.current)
+      .sort((a, b) => a[1] - b[1])
+      .forEach(([key, lod]) => {
+        if (pendingChunks.current.has(`${key}@${lod}`)) return
+
+        const [chunkX, chunkZ] = key.split(',').map(Number)
+        requestChunk(chunkX, chunkZ, key, lod)
+      })
+  }, [terrainConfig, requestChunk])
 
   const updateChunks = useCallback((playerX: number, playerZ: number) => {
     const playerChunkX = Math.floor(playerX / CHUNK_SIZE)
@@ -145,34 +271,60 @@ export default function Terrain({ playerRef }: TerrainProps) {
     lastPlayerChunk.current = { x: playerChunkX, z: playerChunkZ }
 
     const currentChunks = chunksRef.current
-    const newChunks = new Map<string, TerrainChunk>()
+    const wanted = new Map<string, number>()
+    const missing: { x: number, z: number, key: string, lod: number, distance: number }[] = []
 
-    // Generate chunks around player
-    for (let x = playerChunkX - RENDER_DISTANCE; x <= playerChunkX + RENDER_DISTANCE; x++) {
-      for (let z = playerChunkZ - RENDER_DISTANCE; z <= playerChunkZ + RENDER_DISTANCE; z++) {
+    // Collect chunks around player, finer LODs on the inner rings
+    for (let x = playerChunkX - viewDistance; x <= playerChunkX + viewDistance; x++) {
+      for (let z = playerChunkZ - viewDistance; z <= playerChunkZ + viewDistance; z++) {
         const key = `${x},${z}`
+        const ring = Math.max(Math.abs(x - playerChunkX), Math.abs(z - playerChunkZ))
+        const lod = getLodLevel(ring)
+        wanted.set(key, lod)
         
-        // Reuse existing chunk or create new one
-        if (currentChunks.has(key)) {
-          newChunks.set(key, currentChunks.get(key)!)
-        } else {
-          newChunks.set(key, createChunk(x, z))
+        // Reuse existing chunk at the right LOD or queue a new one
+        if (currentChunks.get(key)?.lod !== lod && !pendingChunks.current.has(`${key}@${lod}`)) {
+          missing.push({ x, z, key, lod, distance: Math.abs(x - playerChunkX) + Math.abs(z - playerChunkZ) })
         }
       }
     }
 
-    // Dispose of old chunks that are no longer needed
+    wantedChunks.current = wanted
+
+    // Dispose of old chunks and cancel queued ones that are no longer needed
+    let removed = false
     currentChunks.forEach((chunk, key) => {
-      if (!newChunks.has(key)) {
-        chunk.geometry.dispose()
+      if (!wanted.has(key)) {
+        disposeChunk(chunk)
+        currentChunks.delete(key)
+        removed = true
+      }
+    })
+    pendingChunks.current.forEach(jobKey => {
+      const [key, lod] = jobKey.split('@')
+      if (wanted.get(key) !== Number(lod)) {
+        poolRef.current?.cancel(jobKey)
       }
     })
 
-    chunksRef.current = newChunks
+    // Nearest chunks first so the ground under the player shows up first
+    missing
+      .sort((a, b) => a.distance - b.distance)
+      .forEach(({ x, z, key, lod }) => requestChunk(x, z, key, lod))
     
     // Force a re-render only when chunks actually change
-    forceUpdate({})
-  }, [createChunk])
+    if (removed) {
+      forceUpdate({})
+    }
+  }, [requestChunk, viewDistance])
+
+  // Animate the grass every frame
+  useFrame(({ clock }) => {
+    grassMaterial.uniforms.grassTime.value = clock.elapsedTime
+    if (playerRef.current?.position) {
+      grassMaterial.uniforms.grassPlayer.value.copy(playerRef.current.position)
+    }
+  })
 
   // Throttled chunk updates - only check every few frames
   useFrame(() => {
@@ -185,6 +337,9 @@ export default function Terrain({ playerRef }: TerrainProps) {
     
     if (playerRef.current?.position) {
       const { x, z } = playerRef.current.position
+
+      // Open the ground over the nearest dungeon entrances
+      setTerrainHoles(terrainMaterial, getNearbyTerrainOpenings(x, z))
       
       // Only update if player moved significantly
       const currentChunkX = Math.floor(x / CHUNK_SIZE)
@@ -200,25 +355,70 @@ export default function Terrain({ playerRef }: TerrainProps) {
     }
   })
 
+  const chunks = Array.from(chunksRef.current.values())
+  const colliderChunks = chunks.filter(chunk => chunk.heights)
+  const trimeshChunks = chunks.filter(chunk => chunk.trimesh)
+  const grassChunks = chunks.filter(chunk => TERRAIN_LOD_LEVELS[chunk.lod].grass)
+  const propChunks = chunks.filter(chunk => TERRAIN_LOD_LEVELS[chunk.lod].props)
+
   return (
     <>
-      {/* Terrain meshes */}
-      {Array.from(chunksRef.current.values()).map((chunk) => (
+      {/* Heightfield colliders - only the nearest ring, centered on each chunk */}
+      {colliderChunks.map((chunk) => (
         <RigidBody
-          key={chunk.key}
+          key={`collider-${chunk.key}@${chunk.lod}#${chunk.revision}.${chunk.generation}`}
           type="fixed"
-          colliders="trimesh"
+          colliders={false}
+          position={[chunk.x * CHUNK_SIZE + CHUNK_SIZE/2, 0, chunk.z * CHUNK_SIZE + CHUNK_SIZE/2]}
         >
-          <mesh 
-            geometry={chunk.geometry} 
-            material={chunk.material} 
-            receiveShadow 
+          <HeightfieldCollider
+            collisionGroups={interactionGroups(TERRAIN_COLLISION_GROUP)}
+            args={[
+              COLLIDER_RESOLUTION,
+              COLLIDER_RESOLUTION,
+              chunk.heights!,
+              { x: CHUNK_SIZE, y: 1, z: CHUNK_SIZE }
+            ]}
           />
         </RigidBody>
       ))}
       
+      {/* Volumetric chunks collide with their own mesh, caves included */}
+      {trimeshChunks.map((chunk) => (
+        <RigidBody
+          key={`trimesh-${chunk.key}@${chunk.lod}#${chunk.revision}.${chunk.generation}`}
+          type="fixed"
+          colliders={false}
+        >
+          <TrimeshCollider args={chunk.trimesh!} collisionGroups={interactionGroups(TERRAIN_COLLISION_GROUP)} />
+        </RigidBody>
+      ))}
+      
+      {/* Terrain meshes */}
+      {chunks.map((chunk) => (
+        <mesh 
+          key={`${chunk.key}@${chunk.lod}`}
+          geometry={chunk.geometry} 
+          material={chunk.material} 
+          customDepthMaterial={terrainMaterial.depthMaterial}
+          customDistanceMaterial={terrainMaterial.distanceMaterial}
+          castShadow
+          receiveShadow 
+        />
+      ))}
+      
+      {/* Sea, lakes and rivers stream with the terrain chunks */}
+      {chunks.filter(chunk => chunk.waterGeometry).map((chunk) => (
+        <mesh
+          key={`water-${chunk.key}@${chunk.lod}`}
+          geometry={chunk.waterGeometry}
+          material={waterMaterial}
+          renderOrder={1}
+        />
+      ))}
+      
       {/* Debug: Bright red cubes at chunk centers */}
-      {Array.from(chunksRef.current.values()).map((chunk) => (
+      {colliderChunks.map((chunk) => (
         <mesh
           key={`debug-${chunk.key}`}
           position={[chunk.x * CHUNK_SIZE + CHUNK_SIZE/2, 10, chunk.z * CHUNK_SIZE + CHUNK_SIZE/2]}
@@ -228,37 +428,47 @@ export default function Terrain({ playerRef }: TerrainProps) {
         </mesh>
       ))}
       
-      {/* Grass systems for each chunk */}
-      {Array.from(chunksRef.current.values()).map((chunk) => (
+      {/* Grass systems for each chunk - keyed by revision and generation so edits re-place them */}
+      {grassChunks.map((chunk) => (
         <GrassSystem
-          key={`grass-${chunk.key}`}
+          key={`grass-${chunk.key}#${chunk.revision}.${chunk.generation}`}
           chunkX={chunk.x}
           chunkZ={chunk.z}
           chunkSize={CHUNK_SIZE}
+          seed={seed}
+          grassConfig={grassConfig}
+          bladeGeometry={grassBlade}
+          material={grassMaterial.material}
         />
       ))}
       
       {/* 3D Model systems for each chunk */}
-      {Array.from(chunksRef.current.values()).map((chunk) => (
+      {propChunks.map((chunk) => (
         <ModelSystem
-          key={`models-${chunk.key}`}
+          key={`models-${chunk.key}#${chunk.revision}.${chunk.generation}`}
           chunkX={chunk.x}
           chunkZ={chunk.z}
           chunkSize={CHUNK_SIZE}
+          seed={seed}
+          assets={propAssets[chunk.lod]}
+          colliders={TERRAIN_LOD_LEVELS[chunk.lod].collider}
         />
       ))}
       
       {/* Procedural Structures for each chunk */}
-      {Array.from(chunksRef.current.values()).map((chunk) => (
+      {propChunks.map((chunk) => (
         <ProceduralStructures
-          key={`structures-${chunk.key}`}
+          key={`structures-${chunk.key}#${chunk.revision}.${chunk.generation}`}
           chunkX={chunk.x}
           chunkZ={chunk.z}
           chunkSize={CHUNK_SIZE}
-          heightMap={getTerrainHeight}
+          seed={seed}
           noise={terrainNoise}
+          lod={chunk.lod}
+          colliders={TERRAIN_LOD_LEVELS[chunk.lod].collider}
+          playerRef={playerRef}
         />
       ))}
     </>
   )
-}
\ No newline at end of file
+}
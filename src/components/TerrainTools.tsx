@@ -0,0 +1,37 @@
+import { useRef } from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
+import { useKeyboardControls } from '@react-three/drei'
+import { Vector3 } from 'three'
+import { Controls } from '../types/controls'
+import { applyTerrainEdit } from '../utils/terrainEdits'
+import { raycastTerrain } from '../utils/worldQuery'
+
+// Dig tool tuning
+const TOOL_REACH = 10       // How far away the tool can edit
+const TOOL_RADIUS = 2       // Brush radius
+const TOOL_STRENGTH = 0.3   // Height change per use
+const TOOL_COOLDOWN = 0.1   // Seconds between edits while the key is held
+
+export default function TerrainTools() {
+  const { camera } = useThree()
+  const [, getKeys] = useKeyboardControls<Controls>()
+  const cooldownRef = useRef(0)
+
+  useFrame((_state, delta) => {
+    cooldownRef.current = Math.max(0, cooldownRef.current - delta)
+
+    const { dig, raise } = getKeys()
+    if ((!dig && !raise) || cooldownRef.current > 0) return
+
+    const direction = new Vector3()
+    camera.getWorldDirection(direction)
+
+    const hit = raycastTerrain(camera.position, direction, TOOL_REACH)
+    if (!hit) return
+
+    applyTerrainEdit(hit.point.x, hit.point.z, TOOL_RADIUS, dig ? -TOOL_STRENGTH : TOOL_STRENGTH)
+    cooldownRef.current = TOOL_COOLDOWN
+  })
+
+  return null
+}
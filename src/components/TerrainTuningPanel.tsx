@@ -0,0 +1,136 @@
+import { useEffect, useRef, useState } from 'react'
+import type { ChangeEvent } from 'react'
+import type { GrassConfig, TerrainConfig } from '../utils/noise'
+import { defaultTerrainPreset, parseTerrainPreset, serializeTerrainPreset } from '../utils/terrainPresets'
+import type { TerrainPreset } from '../utils/terrainPresets'
+
+interface TerrainTuningPanelProps {
+  preset: TerrainPreset
+  onPresetChange: (preset: TerrainPreset) => void
+}
+
+interface SliderSpec<T> {
+  key: keyof T
+  label: string
+  min: number
+  max: number
+  step: number
+}
+
+const TERRAIN_SLIDERS: SliderSpec<TerrainConfig>[] = [
+  { key: 'scale', label: 'Scale', min: 0.001, max: 0.05, step: 0.001 },
+  { key: 'amplitude', label: 'Amplitude', min: 1, max: 40, step: 0.5 },
+  { key: 'octaves', label: 'Octaves', min: 1, max: 8, step: 1 },
+  { key: 'persistence', label: 'Persistence', min: 0.1, max: 1, step: 0.05 },
+  { key: 'lacunarity', label: 'Lacunarity', min: 1.2, max: 4, step: 0.1 },
+]
+
+const GRASS_SLIDERS: SliderSpec<GrassConfig>[] = [
+  { key: 'scale', label: 'Patch scale', min: 0.005, max: 0.2, step: 0.005 },
+  { key: 'density', label: 'Density', min: 0, max: 1, step: 0.05 },
+  { key: 'minHeight', label: 'Min height', min: -20, max: 20, step: 0.5 },
+  { key: 'maxHeight', label: 'Max height', min: -10, max: 40, step: 0.5 },
+  { key: 'maxSlope', label: 'Max slope', min: 0.1, max: 3, step: 0.1 },
+]
+
+// Wait for the slider to settle before regenerating chunks
+const APPLY_DELAY_MS = 300
+
+export default function TerrainTuningPanel({ preset, onPresetChange }: TerrainTuningPanelProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState(preset)
+  const [importError, setImportError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (draft === preset) return
+    const timeout = setTimeout(() => onPresetChange(draft), APPLY_DELAY_MS)
+    return () => clearTimeout(timeout)
+  }, [draft, preset, onPresetChange])
+
+  const exportPreset = () => {
+    const blob = new Blob([serializeTerrainPreset(draft)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'terrain-preset.json'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const importPreset = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = '' // Allow importing the same file again
+    if (!file) return
+
+    try {
+      setDraft(parseTerrainPreset(await file.text()))
+      setImportError(null)
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  const renderSlider = <T,>(
+    group: 'terrain' | 'grass',
+    values: T,
+    spec: SliderSpec<T>
+  ) => {
+    const id = `tuning-${group}-${String(spec.key)}`
+    const value = values[spec.key] as number
+
+    return (
+      <div key={id} style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+        <label htmlFor={id} style={{ width: '90px' }}>{spec.label}</label>
+        <input
+          id={id}
+          type="range"
+          min={spec.min}
+          max={spec.max}
+          step={spec.step}
+          value={value}
+          onChange={(event) => setDraft({
+            ...draft,
+            [group]: { ...draft[group], [spec.key]: Number(event.target.value) }
+          })}
+        />
+        <span style={{ width: '48px', textAlign: 'right' }}>{Number(value.toFixed(3))}</span>
+      </div>
+    )
+  }
+
+  return (
+    <div
+      style={{ marginTop: '8px', display: 'flex', flexDirection: 'column', gap: '4px' }}
+      // Keep clicks here from grabbing pointer lock
+      onClick={(event) => event.stopPropagation()}
+      // Keep arrow keys on the sliders from moving the player
+      onKeyDown={(event) => event.stopPropagation()}
+    >
+      <button onClick={() => setOpen(!open)}>
+        🛠️ Terrain tuning {open ? '▲' : '▼'}
+      </button>
+      {open && (
+        <>
+          <div>Terrain</div>
+          {TERRAIN_SLIDERS.map(spec => renderSlider('terrain', draft.terrain, spec))}
+          <div>Grass</div>
+          {GRASS_SLIDERS.map(spec => renderSlider('grass', draft.grass, spec))}
+          <div style={{ display: 'flex', gap: '4px' }}>
+            <button onClick={() => setDraft(defaultTerrainPreset)}>Reset</button>
+            <button onClick={exportPreset}>Export</button>
+            <button onClick={() => fileInputRef.current?.click()}>Import</button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={importPreset}
+              style={{ display: 'none' }}
+            />
+          </div>
+          {importError && <div style={{ color: '#ff8080' }}>Import failed: {importError}</div>}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+import { useRef } from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
+import { Fog, Mesh, Vector3 } from 'three'
+import type { FogExp2 } from 'three'
+import { defaultWaterConfig } from '../utils/water'
+import { isUnderwater } from '../utils/noise'
+
+// Dense short-range fog while the camera is under water
+const UNDERWATER_FOG_COLOR = '#1d4e6b'
+const UNDERWATER_FOG_NEAR = 1
+const UNDERWATER_FOG_FAR = 30
+
+export default function UnderwaterEffect() {
+  const { camera, scene } = useThree()
+  const tintRef = useRef<Mesh>(null)
+  const surfaceFog = useRef<Fog | FogExp2 | null>(null)
+  const wasUnderwater = useRef(false)
+
+  useFrame(() => {
+    const { x, y, z } = camera.position
+    const underwater = isUnderwater(x, y, z)
+
+    // Swap fog only when crossing the surface, keeping the normal fog for later
+    if (underwater !== wasUnderwater.current) {
+      wasUnderwater.current = underwater
+      if (underwater) {
+        surfaceFog.current = scene.fog
+        scene.fog = new Fog(UNDERWATER_FOG_COLOR, UNDERWATER_FOG_NEAR, UNDERWATER_FOG_FAR)
+      } else {
+        scene.fog = surfaceFog.current
+      }
+    }
+
+    // Keep the tint quad just in front of the camera
+    if (tintRef.current) {
+      tintRef.current.visible = underwater
+      if (underwater) {
+        const forward = new Vector3()
+        camera.getWorldDirection(forward)
+        tintRef.current.position.copy(camera.position).addScaledVector(forward, 0.2)
+        tintRef.current.quaternion.copy(camera.quaternion)
+      }
+    }
+  })
+
+  return (
+    <mesh ref={tintRef} visible={false} renderOrder={1000}>
+      <planeGeometry args={[2, 2]} />
+      <meshBasicMaterial
+        color={defaultWaterConfig.color}
+        transparent
+        opacity={0.35}
+        depthTest={false}
+        depthWrite={false}
+        fog={false}
+      />
+    </mesh>
+  )
+}
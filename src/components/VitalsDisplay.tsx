@@ -0,0 +1,64 @@
+import { useSyncExternalStore } from 'react'
+import { useVitals } from '../hooks/useVitals'
+import type { DamageSource } from '../utils/vitals'
+
+const DEATH_MESSAGES: Record<DamageSource, string> = {
+  fall: 'You fell to your death',
+  projectile: 'You were shot',
+  hazard: 'You were lost to the world',
+}
+
+interface VitalsBarProps {
+  label: string
+  value: number
+  max: number
+  color: string
+}
+
+function VitalsBar({ label, value, max, color }: VitalsBarProps) {
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '4px' }}>
+      <span style={{ width: '16px' }}>{label}</span>
+      <div style={{ width: '140px', height: '8px', backgroundColor: 'rgba(255,255,255,0.2)', borderRadius: '4px' }}>
+        <div style={{ width: `${(value / max) * 100}%`, height: '100%', backgroundColor: color, borderRadius: '4px' }} />
+      </div>
+      <span>{Math.ceil(value)}</span>
+    </div>
+  )
+}
+
+export default function VitalsDisplay() {
+  const store = useVitals()
+  const vitals = useSyncExternalStore(store.subscribe, store.getVitals)
+
+  return (
+    <>
+      <div style={{ marginTop: '8px' }}>
+        <VitalsBar label="❤️" value={vitals.health} max={vitals.maxHealth} color="#e04848" />
+        <VitalsBar
+          label="⚡"
+          value={vitals.stamina}
+          max={vitals.maxStamina}
+          color={vitals.exhausted ? '#8a7a3a' : '#e0c048'}
+        />
+      </div>
+
+      {vitals.dead && (
+        <div style={{
+          position: 'fixed',
+          inset: 0,
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          justifyContent: 'center',
+          backgroundColor: 'rgba(80,0,0,0.45)',
+          fontSize: '28px',
+          pointerEvents: 'none',
+        }}>
+          <div>{vitals.lastDamage ? DEATH_MESSAGES[vitals.lastDamage] : 'You died'}</div>
+          <div style={{ fontSize: '14px', marginTop: '8px' }}>Respawning...</div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,21 @@
+import { useState } from 'react'
+import type { ReactNode } from 'react'
+import { VitalsContext } from '../contexts/VitalsContext'
+import { createVitalsStore, defaultVitalsConfig } from '../utils/vitals'
+import type { VitalsConfig } from '../utils/vitals'
+
+interface VitalsProviderProps {
+  children: ReactNode
+  config?: VitalsConfig
+}
+
+export function VitalsProvider({ children, config = defaultVitalsConfig }: VitalsProviderProps) {
+  // One store for the provider's lifetime, its vitals change without re-rendering the tree
+  const [store] = useState(() => createVitalsStore(config))
+
+  return (
+    <VitalsContext.Provider value={store}>
+      {children}
+    </VitalsContext.Provider>
+  )
+}
@@ -0,0 +1,87 @@
+import { useState } from 'react'
+import { parseSeed, randomSeed } from '../utils/random'
+import { VIEW_DISTANCE_OPTIONS } from '../utils/terrainLod'
+
+interface WorldSettingsProps {
+  seed: number
+  onSeedChange: (seed: number) => void
+  viewDistance: number
+  onViewDistanceChange: (viewDistance: number) => void
+  caves: boolean
+  onCavesChange: (caves: boolean) => void
+  reduceMotion: boolean
+  onReduceMotionChange: (reduceMotion: boolean) => void
+}
+
+export default function WorldSettings({
+  seed,
+  onSeedChange,
+  viewDistance,
+  onViewDistanceChange,
+  caves,
+  onCavesChange,
+  reduceMotion,
+  onReduceMotionChange
+}: WorldSettingsProps) {
+  const [seedInput, setSeedInput] = useState(String(seed))
+
+  const applySeed = (nextSeed: number) => {
+    setSeedInput(String(nextSeed))
+    onSeedChange(nextSeed)
+  }
+
+  return (
+    <div
+      style={{ marginTop: '8px', display: 'flex', flexDirection: 'column', gap: '4px' }}
+      // Keep clicks here from grabbing pointer lock
+      onClick={(event) => event.stopPropagation()}
+      // Keep typing from moving the player
+      onKeyDown={(event) => event.stopPropagation()}
+    >
+      <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+        <label htmlFor="world-seed">🌍 Seed:</label>
+        <input
+          id="world-seed"
+          value={seedInput}
+          onChange={(event) => setSeedInput(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') applySeed(parseSeed(seedInput))
+          }}
+          style={{ width: '100px', fontFamily: 'monospace' }}
+        />
+        <button onClick={() => applySeed(parseSeed(seedInput))}>Apply</button>
+        <button onClick={() => applySeed(randomSeed())}>🎲</button>
+      </div>
+      <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+        <label htmlFor="view-distance">🔭 View distance:</label>
+        <select
+          id="view-distance"
+          value={viewDistance}
+          onChange={(event) => onViewDistanceChange(Number(event.target.value))}
+        >
+          {VIEW_DISTANCE_OPTIONS.map(option => (
+            <option key={option} value={option}>{option} chunks</option>
+          ))}
+        </select>
+      </div>
+      <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+        <input
+          id="caves"
+          type="checkbox"
+          checked={caves}
+          onChange={(event) => onCavesChange(event.target.checked)}
+        />
+        <label htmlFor="caves">🕳️ Caves and overhangs</label>
+      </div>
+      <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+        <input
+          id="reduce-motion"
+          type="checkbox"
+          checked={reduceMotion}
+          onChange={(event) => onReduceMotionChange(event.target.checked)}
+        />
+        <label htmlFor="reduce-motion">🎥 Reduce motion (no head bob, FOV or landing dip)</label>
+      </div>
+    </div>
+  )
+}
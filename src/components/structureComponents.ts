@@ -0,0 +1,55 @@
+import type { ComponentType } from 'react'
+import type { Vector3 } from 'three'
+import type { Structure } from '../utils/structures'
+import type { StructureType } from '../types/world'
+import ProceduralHouse from './ProceduralHouse'
+import ProceduralDungeon from './ProceduralDungeon'
+import ProceduralWell from './ProceduralWell'
+import ProceduralWatchtower from './ProceduralWatchtower'
+import ProceduralRuin from './ProceduralRuin'
+import ProceduralCamp from './ProceduralCamp'
+import ProceduralShrine from './ProceduralShrine'
+
+/**
+ * Procedural components of the structure types, the rendering half of the
+ * registry in utils/structureTypes. Kept apart so the terrain workers can
+ * place structures without loading any React.
+ */
+
+export interface StructureComponentProps {
+  structure: Structure
+  seed: number
+  colliders: boolean  // Build physics for the structure
+  playerRef: React.MutableRefObject<{ position: Vector3 } | null>
+}
+
+export interface StructureComponent {
+  component: ComponentType<StructureComponentProps>
+  keepWithModel: boolean  // Still rendered under a loaded glTF model, which then only dresses it
+}
+
+const structureComponents = new Map<StructureType, StructureComponent>()
+
+/**
+ * Set the component a structure type renders with when no glTF model replaces it
+ */
+export function registerStructureComponent(
+  type: StructureType,
+  component: ComponentType<StructureComponentProps>,
+  keepWithModel = false
+) {
+  structureComponents.set(type, { component, keepWithModel })
+}
+
+export function getStructureComponent(type: StructureType): StructureComponent | null {
+  return structureComponents.get(type) ?? null
+}
+
+registerStructureComponent('house', ProceduralHouse)
+// Dungeons are always generated underground, a model only dresses their entrance
+registerStructureComponent('dungeon', ProceduralDungeon, true)
+registerStructureComponent('well', ProceduralWell)
+registerStructureComponent('watchtower', ProceduralWatchtower)
+registerStructureComponent('ruin', ProceduralRuin)
+registerStructureComponent('camp', ProceduralCamp)
+registerStructureComponent('shrine', ProceduralShrine)
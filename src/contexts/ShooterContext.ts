@@ -2,7 +2,8 @@ import { createContext } from 'react'
 import { Vector3 } from 'three'
 
 interface ShooterContextType {
-  shootProjectile: (origin: Vector3, direction: Vector3) => void
+  // The owner is the userData flag of the body firing, e.g. 'player', which the shot then can't hit
+  shootProjectile: (origin: Vector3, direction: Vector3, owner?: string) => void
 }
 
 export const ShooterContext = createContext<ShooterContextType | null>(null)
\ No newline at end of file
@@ -0,0 +1,4 @@
+import { createContext } from 'react'
+import type { VitalsStore } from '../utils/vitals'
+
+export const VitalsContext = createContext<VitalsStore | null>(null)
@@ -0,0 +1,33 @@
+import { useEffect, useRef } from 'react'
+import { useRapier } from '@react-three/rapier'
+import { defaultCharacterControllerConfig } from '../utils/characterController'
+import type { CharacterControllerConfig } from '../utils/characterController'
+
+type CharacterController = ReturnType<ReturnType<typeof useRapier>['world']['createCharacterController']>
+
+/**
+ * A Rapier character controller in the physics world, set up from the config.
+ * The ref is empty until the world is ready and again after unmounting.
+ */
+export function useCharacterController(config: CharacterControllerConfig = defaultCharacterControllerConfig) {
+  const { world } = useRapier()
+  const controller = useRef<CharacterController | null>(null)
+
+  useEffect(() => {
+    const created = world.createCharacterController(config.offset)
+    created.setUp({ x: 0, y: 1, z: 0 })
+    created.setMaxSlopeClimbAngle(config.maxClimbAngle)
+    created.setMinSlopeSlideAngle(config.minSlideAngle)
+    created.enableAutostep(config.stepHeight, config.stepMinWidth, false)
+    created.enableSnapToGround(config.snapDistance)
+    created.setApplyImpulsesToDynamicBodies(true)
+    controller.current = created
+
+    return () => {
+      controller.current = null
+      world.removeCharacterController(created)
+    }
+  }, [world, config])
+
+  return controller
+}
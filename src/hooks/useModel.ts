@@ -0,0 +1,16 @@
+import { useMemo, useSyncExternalStore } from 'react'
+import { findModel, getLoadedModels, subscribeModels } from '../utils/modelAssets'
+
+/**
+ * Every glTF model loaded so far, updating as more finish loading
+ */
+export const useLoadedModels = () => useSyncExternalStore(subscribeModels, getLoadedModels)
+
+/**
+ * Own copy of a glTF model (sharing geometry and materials), or null while
+ * it is missing so the caller can render its procedural mesh instead
+ */
+export const useModel = (key: string, lod = 0) => {
+  const scene = findModel(useLoadedModels(), key, lod)
+  return useMemo(() => scene?.clone() ?? null, [scene])
+}
@@ -0,0 +1,10 @@
+import { useContext } from 'react'
+import { VitalsContext } from '../contexts/VitalsContext'
+
+export const useVitals = () => {
+  const context = useContext(VitalsContext)
+  if (!context) {
+    throw new Error('useVitals must be used within a VitalsProvider')
+  }
+  return context
+}
@@ -2,6 +2,13 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { applyWorldSeed, resolveWorldSeed } from './utils/worldSeed'
+import { setRoadPlanning } from './utils/noise'
+
+// Seed the world before anything generates terrain
+applyWorldSeed(resolveWorldSeed())
+// Roads are planned in the terrain workers, path-finding here would stall frames
+setRoadPlanning(false)
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
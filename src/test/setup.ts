@@ -0,0 +1,13 @@
+import { beforeAll } from 'vitest'
+
+/**
+ * Runs ahead of every spec file (setupFiles in vite.config.ts), so they
+ * all generate the same world
+ */
+export const TEST_SEED = 12345
+
+beforeAll(async () => {
+  // Loaded here rather than imported up top, so a spec's vi.mock of noise still applies
+  const { setWorldSeed } = await import('../utils/noise')
+  setWorldSeed(TEST_SEED)
+})
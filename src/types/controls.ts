@@ -5,5 +5,10 @@ export enum Controls {
   right = 'right',
   jump = 'jump',
   run = 'run',
+  crouch = 'crouch',
+  view = 'view',
   shoot = 'shoot',
+  dig = 'dig',
+  raise = 'raise',
+  interact = 'interact',
 }
\ No newline at end of file
@@ -0,0 +1,11 @@
+import type { Vector3 } from 'three'
+import type { CharacterState } from '../utils/characterController'
+
+export type CameraMode = 'first' | 'third'
+
+// What the player exposes to the rest of the game through its ref
+export interface PlayerHandle {
+  position: Vector3       // Center of the body, updated every frame
+  eye: Vector3            // Where the player looks from, without camera bob, the boom or landing dip
+  state: CharacterState   // Ground contact and velocity from the character controller
+}
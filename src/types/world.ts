@@ -0,0 +1,17 @@
+// Model types for variety
+export enum ModelType {
+  TREE = 'tree',
+  ROCK = 'rock',
+  BUSH = 'bush',
+  CRYSTAL = 'crystal'
+}
+
+// Key of a type in the structure registry (see utils/structureTypes)
+export type StructureType = string
+
+// Materials dropped by destroyed props
+export enum ResourceType {
+  WOOD = 'wood',
+  STONE = 'stone',
+  CRYSTAL = 'crystal'
+}
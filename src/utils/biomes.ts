@@ -0,0 +1,326 @@
+import { Color } from 'three'
+import type { GrassConfig } from './noise'
+import { ModelType } from '../types/world'
+
+export enum BiomeType {
+  FOREST = 'forest',
+  PLAINS = 'plains',
+  DESERT = 'desert',
+  TUNDRA = 'tundra',
+  SWAMP = 'swamp',
+  ALPINE = 'alpine'
+}
+
+// Hue, saturation, lightness - same layout as Color.setHSL
+type HSL = [number, number, number]
+
+export interface BiomePalette {
+  low: HSL
+  mid: HSL
+  high: HSL
+  peak: HSL
+}
+
+/**
+ * Modifiers applied on top of the fractal height from TerrainConfig
+ */
+export interface BiomeTerrainModifiers {
+  amplitudeScale: number  // Multiplies the normalized fractal height
+  heightOffset: number    // Raises or lowers the whole biome
+  roughness: number       // Multiplies the fine detail layer
+}
+
+export interface BiomeDefinition {
+  type: BiomeType
+  // Position in climate space (both 0-1), used to pick and blend biomes
+  temperature: number
+  moisture: number
+  palette: BiomePalette
+  terrain: BiomeTerrainModifiers
+  grass: GrassConfig
+  // Relative weights for each prop type plus an overall density (0-1)
+  props: Record<ModelType, number>
+  propDensity: number
+}
+
+export interface BiomeWeight {
+  biome: BiomeDefinition
+  weight: number
+}
+
+export const BIOMES: Record<BiomeType, BiomeDefinition> = {
+  [BiomeType.FOREST]: {
+    type: BiomeType.FOREST,
+    temperature: 0.5,
+    moisture: 0.65,
+    palette: {
+      low: [0.6, 0.8, 0.3],     // Deep blue for low areas
+      mid: [0.3, 0.6, 0.4],     // Green for medium areas
+      high: [0.15, 0.7, 0.5],   // Yellow-green for hills
+      peak: [0.0, 0.0, 0.8],    // White for peaks
+    },
+    terrain: { amplitudeScale: 1, heightOffset: 0, roughness: 1 },
+    grass: { scale: 0.03, density: 0.7, minHeight: -5, maxHeight: 12, maxSlope: 1.2 },
+    props: {
+      [ModelType.TREE]: 0.7,
+      [ModelType.BUSH]: 0.25,
+      [ModelType.ROCK]: 0.05,
+      [ModelType.CRYSTAL]: 0,
+    },
+    propDensity: 1,
+  },
+  [BiomeType.PLAINS]: {
+    type: BiomeType.PLAINS,
+    temperature: 0.55,
+    moisture: 0.35,
+    palette: {
+      low: [0.55, 0.6, 0.35],
+      mid: [0.22, 0.55, 0.45],
+      high: [0.18, 0.5, 0.5],
+      peak: [0.12, 0.3, 0.6],
+    },
+    terrain: { amplitudeScale: 0.6, heightOffset: 0, roughness: 0.5 },
+    grass: { scale: 0.04, density: 0.8, minHeight: -5, maxHeight: 12, maxSlope: 1 },
+    props: {
+      [ModelType.TREE]: 0.2,
+      [ModelType.BUSH]: 0.45,
+      [ModelType.ROCK]: 0.35,
+      [ModelType.CRYSTAL]: 0,
+    },
+    propDensity: 0.5,
+  },
+  [BiomeType.DESERT]: {
+    type: BiomeType.DESERT,
+    temperature: 0.85,
+    moisture: 0.15,
+    palette: {
+      low: [0.1, 0.5, 0.55],
+      mid: [0.11, 0.6, 0.65],
+      high: [0.09, 0.55, 0.6],
+      peak: [0.07, 0.45, 0.5],
+    },
+    terrain: { amplitudeScale: 0.7, heightOffset: 0.5, roughness: 0.3 },
+    grass: { scale: 0.05, density: 0.1, minHeight: -5, maxHeight: 6, maxSlope: 0.6 },
+    props: {
+      [ModelType.TREE]: 0,
+      [ModelType.BUSH]: 0.1,
+      [ModelType.ROCK]: 0.65,
+      [ModelType.CRYSTAL]: 0.25,
+    },
+    propDensity: 0.35,
+  },
+  [BiomeType.TUNDRA]: {
+    type: BiomeType.TUNDRA,
+    temperature: 0.15,
+    moisture: 0.3,
+    palette: {
+      low: [0.58, 0.3, 0.45],
+      mid: [0.5, 0.1, 0.7],
+      high: [0.55, 0.08, 0.8],
+      peak: [0.0, 0.0, 0.95],
+    },
+    terrain: { amplitudeScale: 0.8, heightOffset: 0, roughness: 0.6 },
+    grass: { scale: 0.03, density: 0.25, minHeight: -5, maxHeight: 4, maxSlope: 0.8 },
+    props: {
+      [ModelType.TREE]: 0.1,
+      [ModelType.BUSH]: 0.1,
+      [ModelType.ROCK]: 0.55,
+      [ModelType.CRYSTAL]: 0.25,
+    },
+    propDensity: 0.4,
+  },
+  [BiomeType.SWAMP]: {
+    type: BiomeType.SWAMP,
+    temperature: 0.7,
+    moisture: 0.9,
+    palette: {
+      low: [0.45, 0.5, 0.2],
+      mid: [0.25, 0.4, 0.25],
+      high: [0.2, 0.35, 0.3],
+      peak: [0.15, 0.3, 0.35],
+    },
+    terrain: { amplitudeScale: 0.3, heightOffset: -1.5, roughness: 0.4 },
+    grass: { scale: 0.02, density: 0.9, minHeight: -8, maxHeight: 8, maxSlope: 1.2 },
+    props: {
+      [ModelType.TREE]: 0.4,
+      [ModelType.BUSH]: 0.5,
+      [ModelType.ROCK]: 0.1,
+      [ModelType.CRYSTAL]: 0,
+    },
+    propDensity: 0.8,
+  },
+  [BiomeType.ALPINE]: {
+    type: BiomeType.ALPINE,
+    temperature: 0.25,
+    moisture: 0.75,
+    palette: {
+      low: [0.6, 0.4, 0.35],
+      mid: [0.35, 0.35, 0.35],
+      high: [0.08, 0.1, 0.45],
+      peak: [0.0, 0.0, 0.9],
+    },
+    terrain: { amplitudeScale: 2, heightOffset: 3, roughness: 1.5 },
+    grass: { scale: 0.03, density: 0.4, minHeight: -5, maxHeight: 8, maxSlope: 0.9 },
+    props: {
+      [ModelType.TREE]: 0.35,
+      [ModelType.BUSH]: 0.05,
+      [ModelType.ROCK]: 0.4,
+      [ModelType.CRYSTAL]: 0.2,
+    },
+    propDensity: 0.6,
+  },
+}
+
+// Width of the blend zone in climate space - larger values give softer borders
+const BIOME_BLEND_SHARPNESS = 0.08
+
+/**
+ * Weigh every biome by its distance to a climate sample.
+ * Weights are normalized and near-zero contributions are dropped.
+ */
+export function getClimateBiomeWeights(temperature: number, moisture: number): BiomeWeight[] {
+  const weights: BiomeWeight[] = []
+  let total = 0
+
+  for (const biome of Object.values(BIOMES)) {
+    const dt = temperature - biome.temperature
+    const dm = moisture - biome.moisture
+    const weight = Math.exp(-(dt * dt + dm * dm) / (BIOME_BLEND_SHARPNESS * BIOME_BLEND_SHARPNESS))
+    weights.push({ biome, weight })
+    total += weight
+  }
+
+  return weights
+    .map(({ biome, weight }) => ({ biome, weight: weight / total }))
+    .filter(({ weight }) => weight > 0.01)
+    .sort((a, b) => b.weight - a.weight)
+}
+
+/**
+ * Blend the terrain modifiers of several biomes
+ */
+export function blendTerrainModifiers(weights: BiomeWeight[]): BiomeTerrainModifiers {
+  const result: BiomeTerrainModifiers = { amplitudeScale: 0, heightOffset: 0, roughness: 0 }
+  let total = 0
+
+  for (const { biome, weight } of weights) {
+    result.amplitudeScale += biome.terrain.amplitudeScale * weight
+    result.heightOffset += biome.terrain.heightOffset * weight
+    result.roughness += biome.terrain.roughness * weight
+    total += weight
+  }
+
+  result.amplitudeScale /= total
+  result.heightOffset /= total
+  result.roughness /= total
+
+  return result
+}
+
+/**
+ * Blend the grass configs of several biomes
+ */
+export function blendGrassConfig(weights: BiomeWeight[]): GrassConfig {
+  const result: GrassConfig = { scale: 0, density: 0, minHeight: 0, maxHeight: 0, maxSlope: 0 }
+  let total = 0
+
+  for (const { biome, weight } of weights) {
+    result.scale += biome.grass.scale * weight
+    result.density += biome.grass.density * weight
+    result.minHeight += biome.grass.minHeight * weight
+    result.maxHeight += biome.grass.maxHeight * weight
+    result.maxSlope += biome.grass.maxSlope * weight
+    total += weight
+  }
+
+  result.scale /= total
+  result.density /= total
+  result.minHeight /= total
+  result.maxHeight /= total
+  result.maxSlope /= total
+
+  return result
+}
+
+/**
+ * Get the palette band for a height - same bands the terrain always used
+ */
+function getPaletteColor(palette: BiomePalette, height: number): HSL {
+  const normalizedHeight = (height + 10) / 20
+
+  if (normalizedHeight < 0.2) {
+    return palette.low
+  } else if (normalizedHeight < 0.4) {
+    return palette.mid
+  } else if (normalizedHeight < 0.7) {
+    return palette.high
+  } else {
+    return palette.peak
+  }
+}
+
+const bandColor = new Color()
+
+/**
+ * Blend the palettes of several biomes at a given height into target
+ */
+export function blendBiomeColor(weights: BiomeWeight[], height: number, target: Color): Color {
+  let total = 0
+  target.setRGB(0, 0, 0)
+
+  for (const { biome, weight } of weights) {
+    const [h, s, l] = getPaletteColor(biome.palette, height)
+    bandColor.setHSL(h, s, l)
+    target.r += bandColor.r * weight
+    target.g += bandColor.g * weight
+    target.b += bandColor.b * weight
+    total += weight
+  }
+
+  return target.multiplyScalar(1 / total)
+}
+
+/**
+ * Blend prop weights and density of several biomes
+ */
+export function blendPropWeights(weights: BiomeWeight[]): { props: Record<ModelType, number>, density: number } {
+  const props: Record<ModelType, number> = {
+    [ModelType.TREE]: 0,
+    [ModelType.ROCK]: 0,
+    [ModelType.BUSH]: 0,
+    [ModelType.CRYSTAL]: 0,
+  }
+  let density = 0
+  let total = 0
+
+  for (const { biome, weight } of weights) {
+    for (const type of Object.values(ModelType)) {
+      props[type] += biome.props[type] * weight
+    }
+    density += biome.propDensity * weight
+    total += weight
+  }
+
+  return { props, density: density / total }
+}
+
+/**
+ * Pick a model type from weighted prop distribution using a roll in [0, 1)
+ */
+export function pickModelType(props: Record<ModelType, number>, roll: number): ModelType | null {
+  const types = Object.values(ModelType)
+  const total = types.reduce((sum, type) => sum + props[type], 0)
+  if (total <= 0) return null
+
+  let threshold = roll * total
+  let lastType: ModelType | null = null
+  for (const type of types) {
+    if (props[type] <= 0) continue
+    threshold -= props[type]
+    lastType = type
+    if (threshold < 0) return type
+  }
+
+  // Only reached through floating point rounding
+  return lastType
+}
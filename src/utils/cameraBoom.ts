@@ -0,0 +1,58 @@
+import { Vector3 } from 'three'
+
+/**
+ * Third-person camera on a boom behind the player. The boom hangs off a pivot
+ * beside the player's head and points against the look direction, so the
+ * mouse orbits the camera and the crosshair still aims along the view.
+ * Player casts the boom against the world; this only smooths the result.
+ */
+export interface CameraBoomConfig {
+  length: number          // Distance from the pivot to the camera with nothing in the way
+  minLength: number       // Never pulled in closer than this
+  shoulder: number        // Pivot offset to the right of the eyes, so the player doesn't block the crosshair
+  radius: number          // Size of the camera for the collision cast
+  followResponse: number  // Higher keeps the pivot closer to the player
+  extendResponse: number  // Higher lets the boom out again faster after an obstacle
+}
+
+export const defaultCameraBoomConfig: CameraBoomConfig = {
+  length: 4.5,
+  minLength: 0.6,
+  shoulder: 0.6,
+  radius: 0.25,
+  followResponse: 14,
+  extendResponse: 4,
+}
+
+export interface CameraBoom {
+  follow: (target: Vector3, delta: number) => Vector3                      // Eases the pivot toward the target
+  place: (direction: Vector3, clearance: number, delta: number) => Vector3 // Camera behind the pivot, up to the clearance
+  reset: (target: Vector3) => void                                         // Jumps to the target, fully extended
+}
+
+export function createCameraBoom(config = defaultCameraBoomConfig): CameraBoom {
+  const pivot = new Vector3()
+  const position = new Vector3()
+  let length = config.length
+  let placed = false
+
+  const reset = (target: Vector3) => {
+    pivot.copy(target)
+    length = config.length
+    placed = true
+  }
+
+  return {
+    follow: (target, delta) => {
+      if (!placed) reset(target)
+      return pivot.lerp(target, Math.min(1, config.followResponse * delta))
+    },
+    place: (direction, clearance, delta) => {
+      // Pull in at once so the camera never ends up inside a wall, ease back out
+      const free = Math.max(config.minLength, Math.min(config.length, clearance))
+      length = free < length ? free : length + (free - length) * Math.min(1, config.extendResponse * delta)
+      return position.copy(pivot).addScaledVector(direction, -length)
+    },
+    reset,
+  }
+}
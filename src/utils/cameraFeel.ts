@@ -0,0 +1,96 @@
+/**
+ * First-person camera motion: head bob tied to the stride, a wider field of
+ * view while sprinting and a dip on landing. All of it turns off with the
+ * reduce motion setting.
+ */
+
+export interface CameraFeelConfig {
+  enabled: boolean          // Off keeps the camera steady
+  strideLength: number      // Distance covered by one step
+  bobHeight: number         // Vertical bob per step at walking speed
+  bobSway: number           // Sideways sway per stride at walking speed
+  bobSpeedReference: number // Speed the bob amplitudes are given for
+  sprintFov: number         // Degrees added to the field of view at full sprint
+  fovResponse: number       // Higher eases the field of view faster
+  landingDip: number        // Eye drop per unit of landing speed
+  maxLandingDip: number
+  dipRecovery: number       // Higher springs back from a landing faster
+}
+
+export const defaultCameraFeelConfig: CameraFeelConfig = {
+  enabled: true,
+  strideLength: 1.4,
+  bobHeight: 0.05,
+  bobSway: 0.03,
+  bobSpeedReference: 5,
+  sprintFov: 10,
+  fovResponse: 6,
+  landingDip: 0.035,
+  maxLandingDip: 0.45,
+  dipRecovery: 8,
+}
+
+export interface CameraFeelInput {
+  speed: number          // Horizontal speed
+  bobbing: boolean       // Walking on the ground, not sliding or swimming
+  sprint: number         // 0 at walking speed up to 1 at full sprint
+  landingSpeed: number   // Downward speed of a landing this frame, 0 otherwise
+}
+
+export interface CameraOffset {
+  side: number   // Along the camera's right
+  up: number
+  fov: number    // Degrees added to the base field of view
+}
+
+export interface CameraFeel {
+  update: (input: CameraFeelInput, delta: number) => CameraOffset
+}
+
+export function createCameraFeel(config = defaultCameraFeelConfig): CameraFeel {
+  const offset: CameraOffset = { side: 0, up: 0, fov: 0 }
+  let phase = 0
+  let bobWeight = 0
+  let dip = 0
+
+  return {
+    update: (input, delta) => {
+      if (!config.enabled) {
+        offset.side = 0
+        offset.up = 0
+        offset.fov = 0
+        return offset
+      }
+
+      // One full sway cycle every two steps, a bob on each step
+      phase += (input.speed * delta * Math.PI) / config.strideLength
+      const targetWeight = input.bobbing ? Math.min(1.5, input.speed / config.bobSpeedReference) : 0
+      bobWeight += (targetWeight - bobWeight) * Math.min(1, delta * 10)
+
+      dip = Math.min(config.maxLandingDip, dip + input.landingSpeed * config.landingDip)
+      dip *= Math.exp(-config.dipRecovery * delta)
+
+      offset.side = Math.sin(phase) * config.bobSway * bobWeight
+      offset.up = -Math.abs(Math.sin(phase)) * config.bobHeight * bobWeight - dip
+      offset.fov += (input.sprint * config.sprintFov - offset.fov) * Math.min(1, delta * config.fovResponse)
+      return offset
+    },
+  }
+}
+
+const REDUCE_MOTION_STORAGE_KEY = 'r3f-game.reduceMotion'
+
+/**
+ * Saved reduce motion setting, or the system preference when nothing is saved
+ */
+export function getReduceMotion(): boolean {
+  const fromStorage = window.localStorage.getItem(REDUCE_MOTION_STORAGE_KEY)
+  if (fromStorage !== null) {
+    return fromStorage === 'true'
+  }
+  return window.matchMedia('(prefers-reduced-motion: reduce)').matches
+}
+
+export function saveReduceMotion(reduceMotion: boolean) {
+  window.localStorage.setItem(REDUCE_MOTION_STORAGE_KEY, String(reduceMotion))
+}
@@ -0,0 +1,178 @@
+import { Vector3 } from 'three'
+import { caveNoise, getTerrainHeight, getWorldSeed } from './noise'
+import { dungeonToWorld, getChunkDungeons } from './dungeons'
+import { meshSurfaceNets } from './surfaceNets'
+import type { SurfaceNetsMesh } from './surfaceNets'
+
+/**
+ * Volumetric terrain: the heightfield becomes a 3D density field
+ * (positive = solid) that tunnels, overhangs and dungeon shafts are carved
+ * out of, meshed per chunk with surface nets.
+ */
+
+export interface CaveConfig {
+  tunnelScale: number      // Noise frequency of the tunnel network
+  tunnelWidth: number      // How close to zero both noise fields must be inside a tunnel
+  verticalSquash: number   // Above 1 flattens tunnels so they run more level
+  breakthroughDepth: number  // Tunnels this close to the surface open up into entrances
+  maxDepth: number         // Deepest tunnels below the surface
+  fadeDepth: number        // Tunnels narrow and close over this distance above maxDepth
+  shaftRadius: number      // Dungeon entrance shafts, along each entrance ramp
+  chamberRadius: number    // Chamber at the bottom of each shaft where tunnels meet
+}
+
+export const defaultCaveConfig: CaveConfig = {
+  tunnelScale: 0.03,
+  tunnelWidth: 0.14,
+  verticalSquash: 1.6,
+  breakthroughDepth: -3,
+  maxDepth: 16,
+  fadeDepth: 4,
+  shaftRadius: 2.5,
+  chamberRadius: 5,
+}
+
+// Rough steepness of the simplex noise, turns noise distances into world units
+const NOISE_GRADIENT = 2.5
+
+interface DungeonShaft {
+  top: Vector3
+  bottom: Vector3
+}
+
+/**
+ * Shafts from the dungeons that could reach into a chunk
+ */
+function findDungeonShafts(chunkX: number, chunkZ: number, chunkSize: number, config: CaveConfig): DungeonShaft[] {
+  const shafts: DungeonShaft[] = []
+  const reach = config.chamberRadius + chunkSize
+
+  // Structures sit around their chunk's corner, so look two chunks out
+  for (let cx = chunkX - 2; cx <= chunkX + 2; cx++) {
+    for (let cz = chunkZ - 2; cz <= chunkZ + 2; cz++) {
+      for (const { structure, layout } of getChunkDungeons(getWorldSeed(), cx, cz)) {
+        const top = structure.position.clone()
+        const run = layout.entrance.length * layout.cellSize
+        const centerX = (chunkX + 0.5) * chunkSize
+        const centerZ = (chunkZ + 0.5) * chunkSize
+        if (Math.abs(top.x - centerX) > reach + run || Math.abs(top.z - centerZ) > reach + run) continue
+
+        // Follow the entrance ramp down to the dungeon's first level
+        const bottom = dungeonToWorld(structure, new Vector3(0, layout.floorHeights[0], -run))
+        top.y += 1 // Open slightly above the ground
+        shafts.push({ top, bottom })
+      }
+    }
+  }
+
+  return shafts
+}
+
+function distanceToSegment(point: Vector3, start: Vector3, end: Vector3, scratch: Vector3): number {
+  scratch.subVectors(end, start)
+  const t = Math.max(0, Math.min(1, scratch.dot(point.clone().sub(start)) / scratch.lengthSq()))
+  return scratch.multiplyScalar(t).add(start).distanceTo(point)
+}
+
+/**
+ * Density at a point, given the heightfield surface above it
+ */
+function getDensity(
+  x: number,
+  y: number,
+  z: number,
+  surfaceHeight: number,
+  shafts: DungeonShaft[],
+  config: CaveConfig
+): number {
+  const depth = surfaceHeight - y
+  let density = depth
+
+  // Tunnel network: tubes where two noise fields are both near zero
+  if (depth > config.breakthroughDepth && depth < config.maxDepth) {
+    const width = config.tunnelWidth * Math.min(1, (config.maxDepth - depth) / config.fadeDepth)
+    const scale = config.tunnelScale
+    const [a, b] = caveNoise(x * scale, y * scale * config.verticalSquash, z * scale)
+    const tunnel = (Math.max(Math.abs(a), Math.abs(b)) - width) / (scale * NOISE_GRADIENT)
+    density = Math.min(density, tunnel)
+  }
+
+  if (shafts.length > 0) {
+    const point = new Vector3(x, y, z)
+    const scratch = new Vector3()
+    for (const shaft of shafts) {
+      density = Math.min(
+        density,
+        distanceToSegment(point, shaft.top, shaft.bottom, scratch) - config.shaftRadius,
+        point.distanceTo(shaft.bottom) - config.chamberRadius
+      )
+    }
+  }
+
+  return density
+}
+
+/**
+ * Mesh one chunk of volumetric terrain. The grid overlaps its neighbours by one
+ * sample on each side so the seams line up; each chunk only owns its own quads.
+ */
+export function generateCaveChunkMesh(
+  chunkX: number,
+  chunkZ: number,
+  chunkSize: number,
+  resolution: number,
+  config = defaultCaveConfig
+): SurfaceNetsMesh {
+  const cellSize = chunkSize / resolution
+  const columns = resolution + 3
+  const originX = chunkX * chunkSize - cellSize
+  const originZ = chunkZ * chunkSize - cellSize
+  const shafts = findDungeonShafts(chunkX, chunkZ, chunkSize, config)
+
+  // Surface height per column, and the vertical range the field can change in
+  const surface = new Float32Array(columns * columns)
+  let minHeight = Infinity
+  let maxHeight = -Infinity
+  for (let k = 0; k < columns; k++) {
+    for (let i = 0; i < columns; i++) {
+      const height = getTerrainHeight(originX + i * cellSize, originZ + k * cellSize)
+      surface[i + k * columns] = height
+      minHeight = Math.min(minHeight, height)
+      maxHeight = Math.max(maxHeight, height)
+    }
+  }
+
+  let bottom = minHeight - config.maxDepth
+  for (const shaft of shafts) {
+    bottom = Math.min(bottom, shaft.bottom.y - config.chamberRadius)
+    maxHeight = Math.max(maxHeight, shaft.top.y + config.shaftRadius)
+  }
+
+  // World-aligned vertical samples so neighbouring chunks sample the same points
+  const minLayer = Math.floor(bottom / cellSize) - 1
+  const maxLayer = Math.ceil(maxHeight / cellSize) + 1
+  const layers = maxLayer - minLayer + 1
+
+  const values = new Float32Array(columns * layers * columns)
+  for (let k = 0; k < columns; k++) {
+    for (let j = 0; j < layers; j++) {
+      for (let i = 0; i < columns; i++) {
+        const x = originX + i * cellSize
+        const y = (minLayer + j) * cellSize
+        const z = originZ + k * cellSize
+        values[i + columns * (j + layers * k)] = getDensity(x, y, z, surface[i + k * columns], shafts, config)
+      }
+    }
+  }
+
+  return meshSurfaceNets(
+    {
+      values,
+      size: [columns, layers, columns],
+      origin: [originX, minLayer * cellSize, originZ],
+      cellSize,
+    },
+    [1, 0, 1],
+    [resolution + 1, layers, resolution + 1]
+  )
+}
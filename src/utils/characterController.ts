@@ -0,0 +1,72 @@
+import { Vector3 } from 'three'
+
+/**
+ * Tuning for the kinematic character controller that moves the player.
+ * Rapier resolves the capsule against the world; jumping, coyote time,
+ * jump buffering, air control, crouching and sliding are layered on top in Player.
+ */
+export interface CharacterControllerConfig {
+  capsuleRadius: number
+  capsuleHalfHeight: number  // Of the straight part, the whole capsule is this plus the radius, twice
+  offset: number             // Gap Rapier keeps between the capsule and the world
+  maxClimbAngle: number      // Steepest slope walked up, radians
+  minSlideAngle: number      // Standing on anything steeper slides down, radians
+  stepHeight: number         // Ledges up to this high are stepped onto
+  stepMinWidth: number       // Free ground needed on top of a step
+  snapDistance: number       // Stays on the ground over bumps and down slopes this far below
+  coyoteTime: number         // Seconds after walking off an edge that a jump still works
+  jumpBufferTime: number     // Seconds a jump pressed before landing is remembered
+  acceleration: number       // Horizontal speed change per second on the ground
+  airControl: number         // Share of that acceleration left in the air
+  eyeHeight: number          // Camera height above the feet when standing
+  crouchHalfHeight: number   // Straight part of the capsule while crouched or sliding
+  crouchEyeHeight: number
+  crouchSpeed: number
+  slideBoost: number         // Speed multiplier when a slide starts
+  slideFriction: number      // Speed lost per second while sliding
+  slideEndSpeed: number      // Slides slower than this stop
+}
+
+export const defaultCharacterControllerConfig: CharacterControllerConfig = {
+  capsuleRadius: 0.4,
+  capsuleHalfHeight: 0.5,
+  offset: 0.02,
+  maxClimbAngle: Math.PI / 4,
+  minSlideAngle: (50 * Math.PI) / 180,
+  stepHeight: 0.45,
+  stepMinWidth: 0.2,
+  snapDistance: 0.4,
+  coyoteTime: 0.12,
+  jumpBufferTime: 0.15,
+  acceleration: 60,
+  airControl: 0.3,
+  eyeHeight: 2.7,
+  crouchHalfHeight: 0.15,
+  crouchEyeHeight: 1.6,
+  crouchSpeed: 2.5,
+  slideBoost: 1.3,
+  slideFriction: 6,
+  slideEndSpeed: 3,
+}
+
+/**
+ * What the controller found this frame, kept in one object so anything
+ * holding the player handle can read it at any time
+ */
+export interface CharacterState {
+  grounded: boolean
+  airTime: number    // Seconds since the character last stood on the ground
+  velocity: Vector3  // Of the last move, after collisions
+}
+
+export function createCharacterState(): CharacterState {
+  return { grounded: false, airTime: 0, velocity: new Vector3() }
+}
+
+/**
+ * Move a value toward a target by at most maxDelta
+ */
+export function approach(current: number, target: number, maxDelta: number): number {
+  if (Math.abs(target - current) <= maxDelta) return target
+  return current + Math.sign(target - current) * maxDelta
+}
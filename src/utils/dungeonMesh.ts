@@ -0,0 +1,203 @@
+import { BufferAttribute, BufferGeometry, Color, Matrix4, Vector3 } from 'three'
+import { DungeonCell, getDungeonCellPosition } from './dungeons'
+import type { DungeonLayout, DungeonStairs } from './dungeons'
+
+/**
+ * One vertex-colored mesh per dungeon: floors, ceilings, walls, ramps and the
+ * entrance pillars. The structural part doubles as the trimesh collider;
+ * steps are drawn over the ramps but the player walks on the smooth ramp.
+ */
+
+export interface DungeonMesh {
+  geometry: BufferGeometry
+  colliderVertices: Float32Array
+  colliderIndices: Uint32Array
+}
+
+const FLOOR_COLOR = new Color('#4a4540')
+const CEILING_COLOR = new Color('#3a3632')
+const WALL_COLOR = new Color('#5b5750')
+const RAMP_COLOR = new Color('#6b6258')
+const STEP_COLOR = new Color('#787066')
+const PILLAR_COLOR = new Color('#708090')
+
+const STEPS_PER_CELL = 3
+const PILLAR_SIZE = 0.6
+const PILLAR_HEIGHT = 1.5  // Above the top of the entrance walls
+
+interface MeshBuffers {
+  positions: number[]
+  normals: number[]
+  colors: number[]
+  indices: number[]
+}
+
+const corner = new Vector3()
+const normal = new Vector3()
+
+// Unit box faces as [axis, sign]; corners are wound counter-clockwise seen from outside
+const FACES: [number, number][] = [[0, 1], [0, -1], [1, 1], [1, -1], [2, 1], [2, -1]]
+const FACE_CORNERS = [[-1, -1], [1, -1], [1, 1], [-1, 1]]
+
+function addBox(buffers: MeshBuffers, matrix: Matrix4, size: [number, number, number], color: Color) {
+  for (const [axis, sign] of FACES) {
+    const u = (axis + 1) % 3
+    const v = (axis + 2) % 3
+    const start = buffers.positions.length / 3
+    const corners = sign > 0 ? FACE_CORNERS : [...FACE_CORNERS].reverse()
+
+    normal.set(0, 0, 0).setComponent(axis, sign).transformDirection(matrix)
+    for (const [cu, cv] of corners) {
+      corner.set(0, 0, 0)
+        .setComponent(axis, sign * size[axis] / 2)
+        .setComponent(u, cu * size[u] / 2)
+        .setComponent(v, cv * size[v] / 2)
+        .applyMatrix4(matrix)
+      buffers.positions.push(corner.x, corner.y, corner.z)
+      buffers.normals.push(normal.x, normal.y, normal.z)
+      buffers.colors.push(color.r, color.g, color.b)
+    }
+    buffers.indices.push(start, start + 1, start + 2, start, start + 2, start + 3)
+  }
+}
+
+const boxMatrix = new Matrix4()
+
+function addAlignedBox(buffers: MeshBuffers, min: [number, number, number], max: [number, number, number], color: Color) {
+  boxMatrix.makeTranslation((min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2)
+  addBox(buffers, boxMatrix, [max[0] - min[0], max[1] - min[1], max[2] - min[2]], color)
+}
+
+// Sloped slab from the top landing's edge down to the bottom landing's edge, plus its steps
+function addStairs(structure: MeshBuffers, detail: MeshBuffers, layout: DungeonLayout, stairs: DungeonStairs) {
+  const { cellSize: cs, slabThickness: t } = layout
+  const [dx, dz] = stairs.direction
+  const top = getDungeonCellPosition(layout, stairs.fromLevel, stairs.x, stairs.z)
+    .add(new Vector3(dx * cs / 2, 0, dz * cs / 2))
+  const bottom = getDungeonCellPosition(
+    layout,
+    stairs.toLevel,
+    stairs.x + dx * (stairs.length + 1),
+    stairs.z + dz * (stairs.length + 1)
+  ).sub(new Vector3(dx * cs / 2, 0, dz * cs / 2))
+
+  const run = stairs.length * cs
+  const rise = top.y - bottom.y
+  const along = new Vector3().subVectors(bottom, top).normalize()
+  const up = new Vector3(dx * rise, run, dz * rise).normalize()
+  const side = new Vector3().crossVectors(up, along)
+  const center = new Vector3().addVectors(top, bottom).multiplyScalar(0.5).addScaledVector(up, -t / 2)
+  const matrix = new Matrix4().makeBasis(side, up, along).setPosition(center)
+  addBox(structure, matrix, [cs, t, Math.hypot(run, rise)], RAMP_COLOR)
+
+  // Treads straddle the ramp so feet never sink or float by more than half a step
+  const count = stairs.length * STEPS_PER_CELL
+  const stepRun = run / count
+  const stepRise = rise / count
+  for (let i = 0; i < count; i++) {
+    const near = top.clone().add(new Vector3(dx * stepRun * i, 0, dz * stepRun * i))
+    const far = near.clone().add(new Vector3(dx * stepRun, 0, dz * stepRun))
+    const tread = top.y - (i + 0.5) * stepRise
+    addAlignedBox(
+      detail,
+      [Math.min(near.x, far.x) - Math.abs(dz) * (cs / 2 - 0.05), tread - stepRise - t, Math.min(near.z, far.z) - Math.abs(dx) * (cs / 2 - 0.05)],
+      [Math.max(near.x, far.x) + Math.abs(dz) * (cs / 2 - 0.05), tread, Math.max(near.z, far.z) + Math.abs(dx) * (cs / 2 - 0.05)],
+      STEP_COLOR
+    )
+  }
+}
+
+/**
+ * Build a dungeon's mesh in its local space
+ */
+export function createDungeonMesh(layout: DungeonLayout): DungeonMesh {
+  const { width, depth, cellSize: cs, levelHeight: h, slabThickness: t, levels, floorHeights } = layout
+  const structure: MeshBuffers = { positions: [], normals: [], colors: [], indices: [] }
+  const detail: MeshBuffers = { positions: [], normals: [], colors: [], indices: [] }
+  const entranceX = layout.entrance.x
+
+  const cellAt = (level: number, x: number, z: number) =>
+    x < 0 || z < 0 || x >= width || z >= depth ? DungeonCell.SOLID : levels[level][x + z * width]
+  const cellMinX = (x: number) => (x - entranceX - 0.5) * cs
+  const cellMinZ = (z: number) => (z - depth) * cs
+
+  levels.forEach((cells, level) => {
+    const floor = floorHeights[level]
+    const isEntrance = (x: number, z: number) => level === 0 && cellAt(0, x, z) === DungeonCell.STAIRS_UP
+
+    // Floor and ceiling slabs, merged into runs along x
+    const hasFloor = (x: number, z: number) => {
+      const cell = cellAt(level, x, z)
+      return cell !== DungeonCell.SOLID && cell !== DungeonCell.STAIRS_DOWN
+    }
+    const hasCeiling = (x: number, z: number) => {
+      const cell = cellAt(level, x, z)
+      if (cell === DungeonCell.SOLID || cell === DungeonCell.STAIRS_UP) return false
+      return level === 0 || cellAt(level - 1, x, z) === DungeonCell.SOLID
+    }
+    const addRuns = (test: (x: number, z: number) => boolean, bottom: number, color: Color) => {
+      for (let z = 0; z < depth; z++) {
+        for (let x = 0; x < width; x++) {
+          if (!test(x, z)) continue
+          let end = x
+          while (end + 1 < width && test(end + 1, z)) end++
+          addAlignedBox(structure, [cellMinX(x), bottom, cellMinZ(z)], [cellMinX(end + 1), bottom + t, cellMinZ(z + 1)], color)
+          x = end
+        }
+      }
+    }
+    addRuns(hasFloor, floor - t, FLOOR_COLOR)
+    addRuns(hasCeiling, floor + h - t, CEILING_COLOR)
+
+    // Walls against the rock, on the rock's side of the cell edge
+    for (let z = 0; z < depth; z++) {
+      for (let x = 0; x < width; x++) {
+        if (cells[x + z * width] === DungeonCell.SOLID) continue
+        const entrance = isEntrance(x, z)
+
+        for (const [dx, dz] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+          const neighbor = cellAt(level, x + dx, z + dz)
+          if (entrance && z + dz >= depth) continue  // The mouth
+          if (neighbor !== DungeonCell.SOLID && !(entrance && !isEntrance(x + dx, z + dz))) continue
+
+          // The entrance walls rise to the surface; over the hall they only close the gap above its ceiling
+          const bottom = neighbor === DungeonCell.SOLID ? floor - t : floor + h - t
+          const top = entrance ? layout.stairwellTop : floor + h
+          const minX = dx === 0 ? cellMinX(x) : dx > 0 ? cellMinX(x + 1) : cellMinX(x) - t
+          const minZ = dz === 0 ? cellMinZ(z) : dz > 0 ? cellMinZ(z + 1) : cellMinZ(z) - t
+          const maxX = dx === 0 ? cellMinX(x + 1) : minX + t
+          const maxZ = dz === 0 ? cellMinZ(z + 1) : minZ + t
+          addAlignedBox(structure, [minX, bottom, minZ], [maxX, top, maxZ], WALL_COLOR)
+        }
+      }
+    }
+  })
+
+  addStairs(structure, detail, layout, layout.entrance)
+  layout.stairs.forEach(stairs => addStairs(structure, detail, layout, stairs))
+
+  // Pillars either side of the mouth
+  for (const side of [-1, 1]) {
+    const x = side * (cs / 2 + t + PILLAR_SIZE / 2)
+    addAlignedBox(
+      structure,
+      [x - PILLAR_SIZE / 2, -1, -PILLAR_SIZE],
+      [x + PILLAR_SIZE / 2, layout.stairwellTop + PILLAR_HEIGHT, 0],
+      PILLAR_COLOR
+    )
+  }
+
+  const colliderVertices = new Float32Array(structure.positions)
+  const colliderIndices = new Uint32Array(structure.indices)
+
+  // Details follow the structure in the same buffers
+  const offset = structure.positions.length / 3
+  const geometry = new BufferGeometry()
+  geometry.setAttribute('position', new BufferAttribute(new Float32Array([...structure.positions, ...detail.positions]), 3))
+  geometry.setAttribute('normal', new BufferAttribute(new Float32Array([...structure.normals, ...detail.normals]), 3))
+  geometry.setAttribute('color', new BufferAttribute(new Float32Array([...structure.colors, ...detail.colors]), 3))
+  geometry.setIndex(new BufferAttribute(new Uint32Array([...structure.indices, ...detail.indices.map(i => i + offset)]), 1))
+  geometry.computeBoundingSphere()
+
+  return { geometry, colliderVertices, colliderIndices }
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { DungeonCell, findUnreachableRooms, generateDungeonLayout, getDungeonSentryPosition } from './dungeons'
+import type { DungeonLayout } from './dungeons'
+
+const SEEDS = Array.from({ length: 40 }, (_, i) => i * 7919 + 1)
+const VARIANTS = [0, 1, 2]
+// Flat ground and a hillside rising toward +x, which keeps rooms out of part of the grid
+const GROUNDS: ((x: number, z: number) => number)[] = [() => 0, x => Math.max(0, x) * 0.4]
+
+function forEachLayout(check: (layout: DungeonLayout, variant: number) => void) {
+  for (const ground of GROUNDS) {
+    for (const seed of SEEDS) {
+      for (const variant of VARIANTS) {
+        check(generateDungeonLayout(seed, variant, ground), variant)
+      }
+    }
+  }
+}
+
+const cellAt = (layout: DungeonLayout, level: number, x: number, z: number) => layout.levels[level][x + z * layout.width]
+
+describe('generateDungeonLayout', () => {
+  it('reaches every room from the entrance', () => {
+    forEachLayout(layout => {
+      expect(layout.rooms.some(room => room.kind === 'entrance')).toBe(true)
+      expect(findUnreachableRooms(layout)).toEqual([])
+    })
+  })
+
+  it('joins each level to the next with stairs', () => {
+    forEachLayout((layout, variant) => {
+      const deepest = Math.max(...layout.rooms.map(room => room.level))
+      expect(layout.floorHeights).toHaveLength(variant + 1)
+      // Stairs can lead down to a level whose rooms didn't fit, but never skip one that has some
+      expect(layout.stairs.length).toBeGreaterThanOrEqual(deepest)
+      expect(layout.stairs.length).toBeLessThanOrEqual(variant)
+
+      layout.stairs.forEach((stairs, level) => {
+        const [dx, dz] = stairs.direction
+        expect(stairs.fromLevel).toBe(level)
+        expect(stairs.toLevel).toBe(level + 1)
+        expect(cellAt(layout, level, stairs.x, stairs.z)).toBe(DungeonCell.FLOOR)
+        for (let step = 1; step <= stairs.length; step++) {
+          expect(cellAt(layout, level, stairs.x + dx * step, stairs.z + dz * step)).toBe(DungeonCell.STAIRS_DOWN)
+          expect(cellAt(layout, level + 1, stairs.x + dx * step, stairs.z + dz * step)).toBe(DungeonCell.STAIRS_UP)
+        }
+        // Floor left unreached is filled back in, so a landing still there was walked to
+        const landing = stairs.length + 1
+        expect(cellAt(layout, level + 1, stairs.x + dx * landing, stairs.z + dz * landing)).toBe(DungeonCell.FLOOR)
+      })
+    })
+  })
+
+  it('puts the boss room on the deepest level', () => {
+    forEachLayout(layout => {
+      const deepest = Math.max(...layout.rooms.map(room => room.level))
+      if (layout.rooms.length === 1) {
+        expect(layout.bossRoom).toBeNull()
+        return
+      }
+
+      const boss = layout.rooms.find(room => room.id === layout.bossRoom)
+      expect(boss?.kind).toBe('boss')
+      expect(boss?.level).toBe(deepest)
+      expect(layout.rooms.filter(room => room.kind === 'boss')).toHaveLength(1)
+    })
+  })
+
+  it('hangs a sentry under the ceiling of the boss room', () => {
+    forEachLayout(layout => {
+      const sentry = getDungeonSentryPosition(layout)
+      const boss = layout.rooms.find(room => room.id === layout.bossRoom)
+      if (!boss) {
+        expect(sentry).toBeNull()
+        return
+      }
+
+      const floor = layout.floorHeights[boss.level]
+      expect(sentry!.y).toBeGreaterThan(floor + 1)
+      expect(sentry!.y).toBeLessThan(floor + layout.levelHeight - layout.slabThickness)
+    })
+  })
+
+  it('reports the rooms cut off when the stairs go', () => {
+    const layout = generateDungeonLayout(SEEDS[0], 2)
+    const below = layout.rooms.filter(room => room.level > 0).map(room => room.id)
+    expect(below.length).toBeGreaterThan(0)
+    expect(findUnreachableRooms({ ...layout, stairs: [] })).toEqual(below)
+  })
+})
@@ -0,0 +1,778 @@
+import { Vector3 } from 'three'
+import { createRandom, hashSeed } from './random'
+import type { RandomFn } from './random'
+import { getNaturalTerrainHeight, getTerrainConfig, getTerrainHeight, getWorldSeed } from './noise'
+import type { TerrainConfig } from './noise'
+import { findStructureSites } from './structures'
+import type { Structure } from './structures'
+import { CHUNK_SIZE } from './terrainLod'
+
+/**
+ * Multi-level dungeons under their entrance: BSP rooms joined by corridors
+ * on each level, ramps between levels and a boss room on the deepest one.
+ * Layouts are plain grid data in the dungeon's local space (entrance at the
+ * origin, the dungeon stretching toward -z), so they can be checked without rendering.
+ */
+
+export interface DungeonConfig {
+  cellSize: number       // World units per grid cell
+  width: number          // Cells per level along x
+  depth: number          // Cells per level along z
+  levelHeight: number    // Floor to floor
+  slabThickness: number  // Floors, ceilings and walls
+  entranceDepth: number  // First level's floor below the ground at the entrance
+  stairLength: number    // Ramp cells between levels, keeps ramps walkable
+  cover: number          // Ground needed above ceilings, rooms stay out from under low ground
+  minLeafSize: number    // Smallest BSP partition, in cells
+  minRoomSize: number
+  maxRoomSize: number
+  lootChance: number     // Chance an ordinary room holds a chest
+}
+
+export const defaultDungeonConfig: DungeonConfig = {
+  cellSize: 2,
+  width: 24,
+  depth: 24,
+  levelHeight: 4.5,
+  slabThickness: 0.4,
+  entranceDepth: 6,
+  stairLength: 4,
+  cover: 0.5,
+  minLeafSize: 7,
+  minRoomSize: 3,
+  maxRoomSize: 7,
+  lootChance: 0.5,
+}
+
+export enum DungeonCell {
+  SOLID = 0,
+  FLOOR = 1,
+  STAIRS_DOWN = 2,  // A ramp leaves the level here, no floor
+  STAIRS_UP = 3,    // A ramp arrives from the level above
+}
+
+export interface DungeonRoom {
+  id: number
+  level: number
+  x: number
+  z: number
+  width: number
+  depth: number
+  kind: 'entrance' | 'room' | 'boss'
+}
+
+export interface DungeonCorridor {
+  level: number
+  cells: [number, number][]
+}
+
+/**
+ * Ramp from the top landing cell (x, z) on fromLevel, over length cells
+ * along direction, to the bottom landing on toLevel. The entrance ramp
+ * comes down from the surface (fromLevel -1) with its top landing just outside the grid.
+ */
+export interface DungeonStairs {
+  fromLevel: number
+  toLevel: number
+  x: number
+  z: number
+  direction: [number, number]
+  length: number
+}
+
+export interface DungeonSpot {
+  level: number
+  x: number
+  z: number
+}
+
+export interface DungeonLoot extends DungeonSpot {
+  tier: 'common' | 'rare' | 'boss'
+}
+
+export interface DungeonLayout {
+  width: number
+  depth: number
+  cellSize: number
+  levelHeight: number
+  slabThickness: number
+  floorHeights: number[]   // Per level, relative to the ground at the entrance
+  stairwellTop: number     // Entrance walls reach this high, above the ground they cut through
+  levels: Uint8Array[]     // DungeonCell per cell, index x + z * width
+  rooms: DungeonRoom[]
+  corridors: DungeonCorridor[]
+  entrance: DungeonStairs
+  stairs: DungeonStairs[]  // Between levels
+  bossRoom: number | null  // Room id
+  loot: DungeonLoot[]
+  lights: DungeonSpot[]
+}
+
+interface Rect {
+  x: number
+  z: number
+  width: number
+  depth: number
+}
+
+const DIRECTIONS: [number, number][] = [[1, 0], [-1, 0], [0, 1], [0, -1]]
+const MAX_STAIR_CANDIDATES = 200
+const CORRIDOR_LIGHT_SPACING = 8  // Cells between lights along long corridors
+const LIGHT_DROP = 0.6  // Below the ceiling
+const SENTRY_HEIGHT = 1.8  // The boss room's sentry hovers this high over the floor
+const GROUND_SAMPLE_STRIDE = 2  // Cells between ground samples
+
+function shuffle<T>(items: T[], random: RandomFn): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[items[i], items[j]] = [items[j], items[i]]
+  }
+  return items
+}
+
+function roomCenter(room: Rect): [number, number] {
+  return [room.x + Math.floor(room.width / 2), room.z + Math.floor(room.depth / 2)]
+}
+
+/**
+ * Local position of a cell's center on a level's floor
+ */
+export function getDungeonCellPosition(
+  layout: DungeonLayout,
+  level: number,
+  x: number,
+  z: number,
+  target = new Vector3()
+): Vector3 {
+  const entranceX = layout.entrance.x
+  return target.set(
+    (x - entranceX) * layout.cellSize,
+    level < 0 ? 0 : layout.floorHeights[level],
+    (z + 0.5 - layout.depth) * layout.cellSize
+  )
+}
+
+/**
+ * Local position of a light, hanging just under the ceiling
+ */
+export function getDungeonLightPosition(layout: DungeonLayout, light: DungeonSpot, target = new Vector3()): Vector3 {
+  getDungeonCellPosition(layout, light.level, light.x, light.z, target)
+  target.y += layout.levelHeight - layout.slabThickness - LIGHT_DROP
+  return target
+}
+
+/**
+ * Local position of the sentry guarding the boss room, over its altar. Null without a boss room.
+ */
+export function getDungeonSentryPosition(layout: DungeonLayout, target = new Vector3()): Vector3 | null {
+  if (layout.bossRoom === null) return null
+
+  const boss = layout.rooms[layout.bossRoom]
+  getDungeonCellPosition(layout, boss.level, ...roomCenter(boss), target)
+  target.y += SENTRY_HEIGHT
+  return target
+}
+
+/**
+ * Every level's walkable cells reachable from the entrance, walking on
+ * floors and taking stairs. Returns the distance in steps per cell, -1 if unreachable.
+ */
+function walkDungeon(
+  levels: Uint8Array[],
+  width: number,
+  depth: number,
+  entrance: DungeonStairs,
+  stairs: DungeonStairs[]
+): Int32Array[] {
+  const distances = levels.map(() => new Int32Array(width * depth).fill(-1))
+  const landingOf = (s: DungeonStairs): [number, number, number] =>
+    [s.toLevel, s.x + s.direction[0] * (s.length + 1), s.z + s.direction[1] * (s.length + 1)]
+
+  const [startLevel, startX, startZ] = landingOf(entrance)
+  const queue: [number, number, number][] = [[startLevel, startX, startZ]]
+  distances[startLevel][startX + startZ * width] = 0
+
+  const visit = (level: number, x: number, z: number, distance: number) => {
+    if (x < 0 || z < 0 || x >= width || z >= depth) return
+    const index = x + z * width
+    if (levels[level][index] !== DungeonCell.FLOOR || distances[level][index] >= 0) return
+    distances[level][index] = distance
+    queue.push([level, x, z])
+  }
+
+  for (let head = 0; head < queue.length; head++) {
+    const [level, x, z] = queue[head]
+    const distance = distances[level][x + z * width] + 1
+    DIRECTIONS.forEach(([dx, dz]) => visit(level, x + dx, z + dz, distance))
+
+    // Stairs join their two landings
+    for (const s of stairs) {
+      const [bottomLevel, bottomX, bottomZ] = landingOf(s)
+      if (s.fromLevel === level && s.x === x && s.z === z) visit(bottomLevel, bottomX, bottomZ, distance)
+      if (bottomLevel === level && bottomX === x && bottomZ === z) visit(s.fromLevel, s.x, s.z, distance)
+    }
+  }
+
+  return distances
+}
+
+/**
+ * Rooms that can't be reached from the entrance. Always empty for generated
+ * layouts; meant for checking layouts and any hand-made changes to them.
+ */
+export function findUnreachableRooms(layout: DungeonLayout): number[] {
+  const distances = walkDungeon(layout.levels, layout.width, layout.depth, layout.entrance, layout.stairs)
+
+  return layout.rooms.filter(room => {
+    for (let z = room.z; z < room.z + room.depth; z++) {
+      for (let x = room.x; x < room.x + room.width; x++) {
+        if (distances[room.level][x + z * layout.width] >= 0) return false
+      }
+    }
+    return true
+  }).map(room => room.id)
+}
+
+/**
+ * Generate a dungeon. The variant sets the number of levels (one to three);
+ * groundHeight gives the ground relative to the entrance at a local position,
+ * so no room ends up poking out of a hillside.
+ */
+export function generateDungeonLayout(
+  seed: number,
+  variant: number,
+  groundHeight: (x: number, z: number) => number = () => 0,
+  config = defaultDungeonConfig
+): DungeonLayout {
+  const random = createRandom(seed)
+  const { width, depth, cellSize: cs, levelHeight } = config
+  const levelCount = Math.max(1, Math.min(3, variant + 1))
+  const floorHeights = Array.from({ length: levelCount }, (_, level) => -config.entranceDepth - level * levelHeight)
+  const levels = floorHeights.map(() => new Uint8Array(width * depth))
+  const rooms: DungeonRoom[] = []
+  const corridors: DungeonCorridor[] = []
+  const stairs: DungeonStairs[] = []
+
+  const inBounds = (x: number, z: number) => x >= 0 && z >= 0 && x < width && z < depth
+  const cellAt = (level: number, x: number, z: number) => levels[level][x + z * width]
+  const setCell = (level: number, x: number, z: number, cell: DungeonCell) => {
+    levels[level][x + z * width] = cell
+  }
+
+  // Ground over every block of cells, and which cells have enough of it overhead on each level.
+  // The terrain is smooth at this scale, so the ground is sampled every GROUND_SAMPLE_STRIDE cells.
+  const entranceX = Math.floor(width / 2)
+  const stride = GROUND_SAMPLE_STRIDE
+  const samplesX = Math.ceil(width / stride) + 1
+  const samplesZ = Math.ceil(depth / stride) + 1
+  const ground = new Float32Array(samplesX * samplesZ)
+  for (let j = 0; j < samplesZ; j++) {
+    for (let i = 0; i < samplesX; i++) {
+      ground[i + j * samplesX] = groundHeight((i * stride - 0.5 - entranceX) * cs, (Math.min(j * stride, depth) - depth) * cs)
+    }
+  }
+  const lowestGround = (x: number, z: number) => {
+    const i = Math.floor(x / stride)
+    const j = Math.floor(z / stride)
+    return Math.min(
+      ground[i + j * samplesX], ground[i + 1 + j * samplesX],
+      ground[i + (j + 1) * samplesX], ground[i + 1 + (j + 1) * samplesX]
+    )
+  }
+  const allowed = floorHeights.map(floor => {
+    const mask = new Uint8Array(width * depth)
+    for (let z = 0; z < depth; z++) {
+      for (let x = 0; x < width; x++) {
+        mask[x + z * width] = lowestGround(x, z) >= floor + levelHeight + config.cover ? 1 : 0
+      }
+    }
+    return mask
+  })
+  const isOpen = (level: number, x: number, z: number) =>
+    inBounds(x, z) && cellAt(level, x, z) !== DungeonCell.STAIRS_DOWN && cellAt(level, x, z) !== DungeonCell.STAIRS_UP &&
+    (allowed[level][x + z * width] === 1 || cellAt(level, x, z) === DungeonCell.FLOOR)
+
+  const carveRoom = (level: number, rect: Rect, kind: DungeonRoom['kind']): DungeonRoom => {
+    for (let z = rect.z; z < rect.z + rect.depth; z++) {
+      for (let x = rect.x; x < rect.x + rect.width; x++) {
+        if (cellAt(level, x, z) === DungeonCell.SOLID) setCell(level, x, z, DungeonCell.FLOOR)
+      }
+    }
+    const room = { id: rooms.length, level, ...rect, kind }
+    rooms.push(room)
+    return room
+  }
+
+  // L-shaped corridor if one fits under the ground, any open route otherwise
+  const findCorridor = (level: number, [ax, az]: [number, number], [bx, bz]: [number, number]): [number, number][] | null => {
+    const lShape = (horizontalFirst: boolean) => {
+      const cells: [number, number][] = []
+      const [cornerX, cornerZ] = horizontalFirst ? [bx, az] : [ax, bz]
+      for (let x = ax; x !== cornerX; x += Math.sign(cornerX - ax)) cells.push([x, az])
+      for (let z = az; z !== cornerZ; z += Math.sign(cornerZ - az)) cells.push([ax, z])
+      for (let x = cornerX; x !== bx; x += Math.sign(bx - cornerX)) cells.push([x, cornerZ])
+      for (let z = cornerZ; z !== bz; z += Math.sign(bz - cornerZ)) cells.push([cornerX, z])
+      cells.push([bx, bz])
+      return cells.every(([x, z]) => isOpen(level, x, z)) ? cells : null
+    }
+
+    const straight = random() < 0.5 ? lShape(true) ?? lShape(false) : lShape(false) ?? lShape(true)
+    if (straight) return straight
+
+    const previous = new Int32Array(width * depth).fill(-1)
+    const queue = [ax + az * width]
+    previous[queue[0]] = queue[0]
+    for (let head = 0; head < queue.length; head++) {
+      const index = queue[head]
+      const x = index % width
+      const z = Math.floor(index / width)
+      if (x === bx && z === bz) {
+        const cells: [number, number][] = []
+        for (let at = index; at !== previous[at]; at = previous[at]) cells.push([at % width, Math.floor(at / width)])
+        cells.push([ax, az])
+        return cells.reverse()
+      }
+      for (const [dx, dz] of DIRECTIONS) {
+        const next = x + dx + (z + dz) * width
+        if (!isOpen(level, x + dx, z + dz) || previous[next] >= 0) continue
+        previous[next] = index
+        queue.push(next)
+      }
+    }
+    return null
+  }
+
+  const connect = (level: number, from: [number, number], to: [number, number]) => {
+    const cells = findCorridor(level, from, to)
+    if (!cells) return
+    cells.forEach(([x, z]) => {
+      if (cellAt(level, x, z) === DungeonCell.SOLID) setCell(level, x, z, DungeonCell.FLOOR)
+    })
+    corridors.push({ level, cells })
+  }
+
+  const nearestRoom = (level: number, [x, z]: [number, number], exclude?: DungeonRoom) => {
+    let best: DungeonRoom | null = null
+    let bestDistance = Infinity
+    for (const room of rooms) {
+      if (room.level !== level || room === exclude) continue
+      const [cx, cz] = roomCenter(room)
+      const distance = Math.abs(cx - x) + Math.abs(cz - z)
+      if (distance < bestDistance) {
+        best = room
+        bestDistance = distance
+      }
+    }
+    return best
+  }
+
+  // Binary space partition: a room per leaf, sibling subtrees joined by a corridor
+  const partition = (level: number, rect: Rect): DungeonRoom[] => {
+    const canSplitX = rect.width >= config.minLeafSize * 2
+    const canSplitZ = rect.depth >= config.minLeafSize * 2
+
+    if (!canSplitX && !canSplitZ) {
+      const maxWidth = Math.min(config.maxRoomSize, rect.width - 2)
+      const maxDepth = Math.min(config.maxRoomSize, rect.depth - 2)
+      if (maxWidth < config.minRoomSize || maxDepth < config.minRoomSize) return []
+
+      for (let attempt = 0; attempt < 4; attempt++) {
+        const roomWidth = config.minRoomSize + Math.floor(random() * (maxWidth - config.minRoomSize + 1))
+        const roomDepth = config.minRoomSize + Math.floor(random() * (maxDepth - config.minRoomSize + 1))
+        const room = {
+          x: rect.x + 1 + Math.floor(random() * (rect.width - roomWidth - 1)),
+          z: rect.z + 1 + Math.floor(random() * (rect.depth - roomDepth - 1)),
+          width: roomWidth,
+          depth: roomDepth,
+        }
+        let fits = true
+        for (let z = room.z; z < room.z + room.depth && fits; z++) {
+          for (let x = room.x; x < room.x + room.width && fits; x++) {
+            fits = isOpen(level, x, z) && cellAt(level, x, z) === DungeonCell.SOLID
+          }
+        }
+        if (fits) return [carveRoom(level, room, 'room')]
+      }
+      return []
+    }
+
+    const splitX = canSplitX && (!canSplitZ || (rect.width === rect.depth ? random() < 0.5 : rect.width > rect.depth))
+    const size = splitX ? rect.width : rect.depth
+    const cut = config.minLeafSize + Math.floor(random() * (size - config.minLeafSize * 2 + 1))
+    const [first, second] = splitX
+      ? [{ ...rect, width: cut }, { ...rect, x: rect.x + cut, width: rect.width - cut }]
+      : [{ ...rect, depth: cut }, { ...rect, z: rect.z + cut, depth: rect.depth - cut }]
+
+    const firstRooms = partition(level, first)
+    const secondRooms = partition(level, second)
+    if (firstRooms.length > 0 && secondRooms.length > 0) {
+      const from = firstRooms[Math.floor(random() * firstRooms.length)]
+      const to = secondRooms.reduce((best, room) => {
+        const [fx, fz] = roomCenter(from)
+        const distance = (r: DungeonRoom) => Math.abs(roomCenter(r)[0] - fx) + Math.abs(roomCenter(r)[1] - fz)
+        return distance(room) < distance(best) ? room : best
+      })
+      connect(level, roomCenter(from), roomCenter(to))
+    }
+    return [...firstRooms, ...secondRooms]
+  }
+
+  // Entrance ramp down from the surface along -z, into a small hall
+  const entranceSteps = Math.ceil(config.entranceDepth / (levelHeight / config.stairLength))
+  const entrance: DungeonStairs = {
+    fromLevel: -1,
+    toLevel: 0,
+    x: entranceX,
+    z: depth,
+    direction: [0, -1],
+    length: entranceSteps,
+  }
+  for (let step = 1; step <= entranceSteps; step++) {
+    setCell(0, entranceX, depth - step, DungeonCell.STAIRS_UP)
+  }
+  const hallZ = depth - entranceSteps - 3
+  const hall = carveRoom(0, { x: entranceX - 1, z: hallZ, width: 3, depth: 3 }, 'entrance')
+
+  // Rooms on every level; the first level leaves space for the entrance
+  floorHeights.forEach((_, level) => {
+    const area = level === 0 ? { x: 0, z: 0, width, depth: hallZ - 1 } : { x: 0, z: 0, width, depth }
+    partition(level, area)
+  })
+  const firstRoom = nearestRoom(0, roomCenter(hall), hall)
+  if (firstRoom) connect(0, roomCenter(hall), roomCenter(firstRoom))
+
+  // Ramps down to each next level, placed where they don't cut the level above apart
+  let anchor: [number, number] = [entranceX, depth - entranceSteps - 1]
+  const reachableCount = (level: number, [x, z]: [number, number], without: Set<number>) => {
+    const seen = new Uint8Array(width * depth)
+    const queue = [x + z * width]
+    seen[queue[0]] = 1
+    for (let head = 0; head < queue.length; head++) {
+      const index = queue[head]
+      for (const [dx, dz] of DIRECTIONS) {
+        const nx = (index % width) + dx
+        const nz = Math.floor(index / width) + dz
+        const next = nx + nz * width
+        if (!inBounds(nx, nz) || seen[next] || without.has(next) || cellAt(level, nx, nz) !== DungeonCell.FLOOR) continue
+        seen[next] = 1
+        queue.push(next)
+      }
+    }
+    return { count: queue.length, seen }
+  }
+
+  for (let level = 0; level < levelCount - 1; level++) {
+    const length = config.stairLength
+    const before = reachableCount(level, anchor, new Set())
+    const candidates: [number, number, number, number][] = []
+    for (let z = 0; z < depth; z++) {
+      for (let x = 0; x < width; x++) {
+        if (!before.seen[x + z * width]) continue
+        DIRECTIONS.forEach(([dx, dz]) => candidates.push([x, z, dx, dz]))
+      }
+    }
+
+    const placed = shuffle(candidates, random).slice(0, MAX_STAIR_CANDIDATES).find(([x, z, dx, dz]) => {
+      const strip = new Set<number>()
+      for (let step = 1; step <= length; step++) {
+        const sx = x + dx * step
+        const sz = z + dz * step
+        if (!inBounds(sx, sz) || cellAt(level, sx, sz) !== DungeonCell.FLOOR) return false
+        if (sx === anchor[0] && sz === anchor[1]) return false
+        strip.add(sx + sz * width)
+      }
+      for (let step = 1; step <= length + 1; step++) {
+        if (!isOpen(level + 1, x + dx * step, z + dz * step)) return false
+      }
+      return reachableCount(level, anchor, strip).count === before.count - length
+    })
+    if (!placed) break
+
+    const [x, z, dx, dz] = placed
+    for (let step = 1; step <= length; step++) {
+      setCell(level, x + dx * step, z + dz * step, DungeonCell.STAIRS_DOWN)
+      setCell(level + 1, x + dx * step, z + dz * step, DungeonCell.STAIRS_UP)
+    }
+    const landing: [number, number] = [x + dx * (length + 1), z + dz * (length + 1)]
+    setCell(level + 1, landing[0], landing[1], DungeonCell.FLOOR)
+    stairs.push({ fromLevel: level, toLevel: level + 1, x, z, direction: [dx, dz], length })
+
+    const target = nearestRoom(level + 1, landing)
+    if (target) connect(level + 1, landing, roomCenter(target))
+    anchor = landing
+  }
+
+  // Anything the generator couldn't link up is filled back in
+  const distances = walkDungeon(levels, width, depth, entrance, stairs)
+  levels.forEach((cells, level) => {
+    cells.forEach((cell, index) => {
+      if (cell === DungeonCell.FLOOR && distances[level][index] < 0) cells[index] = DungeonCell.SOLID
+    })
+  })
+  const roomDistance = (room: DungeonRoom) => {
+    let nearest = Infinity
+    for (let z = room.z; z < room.z + room.depth; z++) {
+      for (let x = room.x; x < room.x + room.width; x++) {
+        const distance = distances[room.level][x + z * width]
+        if (distance >= 0) nearest = Math.min(nearest, distance)
+      }
+    }
+    return nearest
+  }
+  const keptRooms = rooms.filter(room => roomDistance(room) < Infinity)
+  keptRooms.forEach((room, id) => {
+    room.id = id
+  })
+  const keptCorridors = corridors.filter(corridor => corridor.cells.every(([x, z]) => cellAt(corridor.level, x, z) !== DungeonCell.SOLID))
+  const hasFloorCenter = (room: DungeonRoom) => cellAt(room.level, ...roomCenter(room)) === DungeonCell.FLOOR
+
+  // Boss room: the room farthest from the entrance on the deepest level that has one
+  const boss = keptRooms
+    .filter(room => room.kind !== 'entrance' && hasFloorCenter(room))
+    .reduce<DungeonRoom | null>((best, room) => {
+      if (!best || room.level !== best.level) return !best || room.level > best.level ? room : best
+      return roomDistance(room) > roomDistance(best) ? room : best
+    }, null)
+  if (boss) boss.kind = 'boss'
+
+  // Chests in room corners, away from stair landings
+  const landings = new Set([entrance, ...stairs].flatMap(s => [
+    `${s.fromLevel}:${s.x},${s.z}`,
+    `${s.toLevel}:${s.x + s.direction[0] * (s.length + 1)},${s.z + s.direction[1] * (s.length + 1)}`,
+  ]))
+  const loot: DungeonLoot[] = []
+  keptRooms.forEach(room => {
+    if (room.kind === 'entrance') return
+    if (room.kind === 'room' && random() >= config.lootChance) return
+
+    const spots = shuffle([
+      [room.x, room.z], [room.x + room.width - 1, room.z],
+      [room.x, room.z + room.depth - 1], [room.x + room.width - 1, room.z + room.depth - 1],
+    ], random)
+    const spot = spots.find(([x, z]) =>
+      cellAt(room.level, x, z) === DungeonCell.FLOOR && !landings.has(`${room.level}:${x},${z}`)
+    )
+    if (!spot) return
+
+    const tier = room.kind === 'boss' ? 'boss' : room.level > 0 ? 'rare' : 'common'
+    loot.push({ level: room.level, x: spot[0], z: spot[1], tier })
+  })
+
+  // A light in every room and along long corridors
+  const lights: DungeonSpot[] = keptRooms.filter(hasFloorCenter).map(room => {
+    const [x, z] = roomCenter(room)
+    return { level: room.level, x, z }
+  })
+  keptCorridors.forEach(corridor => {
+    for (let i = CORRIDOR_LIGHT_SPACING; i < corridor.cells.length - CORRIDOR_LIGHT_SPACING / 2; i += CORRIDOR_LIGHT_SPACING) {
+      const [x, z] = corridor.cells[i]
+      lights.push({ level: corridor.level, x, z })
+    }
+  })
+
+  // Entrance walls rise above the highest ground along both sides of the ramp
+  let stairwellTop = 0
+  for (let step = 0; step <= entranceSteps; step++) {
+    for (const side of [-0.5, 0.5]) {
+      stairwellTop = Math.max(stairwellTop, groundHeight(side * cs, -step * cs))
+    }
+  }
+
+  return {
+    width,
+    depth,
+    cellSize: cs,
+    levelHeight,
+    slabThickness: config.slabThickness,
+    floorHeights,
+    stairwellTop: stairwellTop + 0.3,
+    levels,
+    rooms: keptRooms,
+    corridors: keptCorridors,
+    entrance,
+    stairs,
+    bossRoom: boss?.id ?? null,
+    loot,
+    lights,
+  }
+}
+
+/**
+ * A dungeon anchored in the world: its structure sits on the natural ground at the entrance
+ */
+export interface DungeonSite {
+  structure: Structure
+  layout: DungeonLayout
+}
+
+// Layouts follow the terrain shape, so they are cached per terrain config
+const siteCache = new WeakMap<TerrainConfig, Map<string, DungeonSite>>()
+const chunkCache = new WeakMap<TerrainConfig, Map<string, DungeonSite[]>>()
+
+function getCache<T>(cache: WeakMap<TerrainConfig, Map<string, T>>): Map<string, T> {
+  const config = getTerrainConfig()
+  let entries = cache.get(config)
+  if (!entries) {
+    entries = new Map()
+    cache.set(config, entries)
+  }
+  return entries
+}
+
+/**
+ * Layout of a dungeon structure. Deterministic for a world seed and terrain.
+ */
+export function getDungeonSite(seed: number, structure: Structure): DungeonSite {
+  const { x, z } = structure.position
+  const key = `${seed}:${x},${z}`
+  const cache = getCache(siteCache)
+  const cached = cache.get(key)
+  if (cached) return cached
+
+  const anchored = { ...structure, position: new Vector3(x, getNaturalTerrainHeight(x, z), z) }
+  const local = new Vector3()
+  const layout = generateDungeonLayout(
+    hashSeed(seed, Math.floor(x), Math.floor(z)),
+    structure.variant,
+    (localX, localZ) => {
+      dungeonToWorld(anchored, local.set(localX, 0, localZ), local)
+      return getNaturalTerrainHeight(local.x, local.z) - anchored.position.y
+    }
+  )
+
+  const site = { structure: anchored, layout }
+  cache.set(key, site)
+  return site
+}
+
+/**
+ * Dungeons whose entrance lies in a chunk
+ */
+export function getChunkDungeons(seed: number, chunkX: number, chunkZ: number): DungeonSite[] {
+  const key = `${seed}:${chunkX},${chunkZ}`
+  const cache = getCache(chunkCache)
+  const cached = cache.get(key)
+  if (cached) return cached
+
+  const sites = findStructureSites(seed, chunkX, chunkZ, CHUNK_SIZE)
+    .filter(structure => structure.type === 'dungeon')
+    .map(structure => getDungeonSite(seed, structure))
+  cache.set(key, sites)
+  return sites
+}
+
+// Entrances sit near their chunk's corner and layouts reach most of a chunk away,
+// so the chunks around the nearest corner cover every dungeon under a position
+function getNearbyDungeons(x: number, z: number): DungeonSite[] {
+  const chunkX = Math.round(x / CHUNK_SIZE)
+  const chunkZ = Math.round(z / CHUNK_SIZE)
+  const seed = getWorldSeed()
+  const sites: DungeonSite[] = []
+  for (let cz = chunkZ - 1; cz <= chunkZ + 1; cz++) {
+    for (let cx = chunkX - 1; cx <= chunkX + 1; cx++) {
+      sites.push(...getChunkDungeons(seed, cx, cz))
+    }
+  }
+  return sites
+}
+
+export function dungeonToWorld(structure: Structure, local: Vector3, target = new Vector3()): Vector3 {
+  const cos = Math.cos(structure.rotation)
+  const sin = Math.sin(structure.rotation)
+  return target.set(
+    structure.position.x + local.x * cos + local.z * sin,
+    structure.position.y + local.y,
+    structure.position.z - local.x * sin + local.z * cos
+  )
+}
+
+export function worldToDungeon(structure: Structure, world: Vector3, target = new Vector3()): Vector3 {
+  const cos = Math.cos(structure.rotation)
+  const sin = Math.sin(structure.rotation)
+  const dx = world.x - structure.position.x
+  const dz = world.z - structure.position.z
+  return target.set(dx * cos - dz * sin, world.y - structure.position.y, dx * sin + dz * cos)
+}
+
+/**
+ * Where the terrain is cut away over a dungeon's entrance ramp
+ */
+export interface TerrainOpening {
+  center: [number, number]
+  halfSize: [number, number]  // Along the dungeon's local x and z
+  rotation: number
+}
+
+export function getTerrainOpening({ structure, layout }: DungeonSite): TerrainOpening {
+  const length = layout.entrance.length * layout.cellSize
+  const center = dungeonToWorld(structure, new Vector3(0, 0, -length / 2))
+  return {
+    center: [center.x, center.z],
+    halfSize: [layout.cellSize / 2, length / 2],
+    rotation: structure.rotation,
+  }
+}
+
+export function isInTerrainOpening(opening: TerrainOpening, x: number, z: number): boolean {
+  const cos = Math.cos(opening.rotation)
+  const sin = Math.sin(opening.rotation)
+  const dx = x - opening.center[0]
+  const dz = z - opening.center[1]
+  return Math.abs(dx * cos - dz * sin) <= opening.halfSize[0] && Math.abs(dx * sin + dz * cos) <= opening.halfSize[1]
+}
+
+/**
+ * Terrain openings of the dungeons around a position, nearest first
+ */
+export function getNearbyTerrainOpenings(x: number, z: number): TerrainOpening[] {
+  return getNearbyDungeons(x, z)
+    .map(getTerrainOpening)
+    .sort((a, b) => Math.hypot(a.center[0] - x, a.center[1] - z) - Math.hypot(b.center[0] - x, b.center[1] - z))
+}
+
+/**
+ * Whether a point (the player's body center) is down an entrance ramp or
+ * underground inside a dungeon, where the terrain must not collide
+ */
+export function isInsideDungeon(position: Vector3): boolean {
+  const local = new Vector3()
+  return getNearbyDungeons(position.x, position.z).some(site => {
+    const { structure, layout } = site
+    if (position.y > structure.position.y + layout.stairwellTop + 2) return false
+    if (isInTerrainOpening(getTerrainOpening(site), position.x, position.z)) return true
+
+    worldToDungeon(structure, position, local)
+    const halfWidth = layout.width / 2 * layout.cellSize
+    const inside = Math.abs(local.x) <= halfWidth + layout.cellSize && local.z <= 0 && local.z >= -layout.depth * layout.cellSize
+    return inside && position.y < getTerrainHeight(position.x, position.z) - 1
+  })
+}
+
+/**
+ * World positions of dungeon lights around a position, nearest first
+ */
+export function getNearbyDungeonLights(position: Vector3, range: number): Vector3[] {
+  const lights: Vector3[] = []
+  for (const { structure, layout } of getNearbyDungeons(position.x, position.z)) {
+    for (const light of layout.lights) {
+      const local = getDungeonLightPosition(layout, light)
+      const world = dungeonToWorld(structure, local, local)
+      if (world.distanceTo(position) <= range) lights.push(world)
+    }
+  }
+  return lights.sort((a, b) => a.distanceTo(position) - b.distanceTo(position))
+}
+
+/**
+ * World positions of boss room sentries around a position, nearest first
+ */
+export function getNearbyDungeonSentries(position: Vector3, range: number): Vector3[] {
+  const sentries: Vector3[] = []
+  for (const { structure, layout } of getNearbyDungeons(position.x, position.z)) {
+    const local = getDungeonSentryPosition(layout)
+    if (!local) continue
+    const world = dungeonToWorld(structure, local, local)
+    if (world.distanceTo(position) <= range) sentries.push(world)
+  }
+  return sentries.sort((a, b) => a.distanceTo(position) - b.distanceTo(position))
+}
@@ -0,0 +1,290 @@
+import {
+  BufferAttribute,
+  BufferGeometry,
+  Color,
+  DoubleSide,
+  MeshStandardMaterial,
+  Vector2,
+  Vector3
+} from 'three'
+import {
+  applyGrassTuning,
+  getBiomeWeights,
+  getGrassDensity,
+  isOnRoad,
+  shouldPlaceGrass
+} from './noise'
+import type { GrassConfig } from './noise'
+import { blendBiomeColor, blendGrassConfig } from './biomes'
+import { createRandom, hashSeed } from './random'
+import { SurfaceType, createSurfacePatch } from './worldQuery'
+import { getNearbyTerrainOpenings, isInTerrainOpening } from './dungeons'
+
+/**
+ * Instanced grass blades: placement per chunk on the CPU, thinning with
+ * distance, wind sway and bending around the player in the vertex shader.
+ */
+
+export interface GrassBladeConfig {
+  cellSize: number         // Grass rules are evaluated once per cell
+  bladesPerCell: number    // At full density
+  patchFeather: number     // Noise range over which patch edges thin out
+  width: number
+  height: number
+  heightVariation: number  // Fraction each blade may be taller or shorter
+  nearDistance: number     // Full density out to here
+  farDistance: number      // No blades past here
+  windDirection: [number, number]
+  windStrength: number     // How far the tips lean in a full gust, relative to blade height
+  windSpeed: number
+  windScale: number        // Spatial frequency of gusts
+  bendRadius: number       // Blades lean away from the player within this distance
+}
+
+export const defaultGrassBladeConfig: GrassBladeConfig = {
+  cellSize: 2,
+  bladesPerCell: 12,
+  patchFeather: 0.15,
+  width: 0.12,
+  height: 0.7,
+  heightVariation: 0.35,
+  nearDistance: 24,
+  farDistance: 80,
+  windDirection: [0.8, 0.6],
+  windStrength: 0.35,
+  windSpeed: 1.6,
+  windScale: 0.08,
+  bendRadius: 1.5,
+}
+
+/**
+ * Per-instance buffers for one chunk of grass
+ */
+export interface GrassBlades {
+  offsets: Float32Array  // Root position, xyz
+  shapes: Float32Array   // Rotation, width, height, fade threshold
+  colors: Float32Array   // Biome tint, rgb
+  count: number
+  minHeight: number
+  maxHeight: number
+}
+
+// Separate random stream from the chunk's props
+const GRASS_SEED_SALT = 1
+
+/**
+ * Scatter blades over a chunk. Each cell takes its density from the biome's
+ * grass rules, the live tuning, the patch noise and the slope.
+ */
+export function generateGrassBlades(
+  seed: number,
+  chunkX: number,
+  chunkZ: number,
+  chunkSize: number,
+  tuning: GrassConfig,
+  config = defaultGrassBladeConfig
+): GrassBlades {
+  const originX = chunkX * chunkSize
+  const originZ = chunkZ * chunkSize
+  const cells = Math.round(chunkSize / config.cellSize)
+  const random = createRandom(hashSeed(seed, chunkX, chunkZ, GRASS_SEED_SALT))
+  const patch = createSurfacePatch(originX, originZ, chunkSize)
+  const color = new Color()
+  const openings = getNearbyTerrainOpenings(originX + chunkSize / 2, originZ + chunkSize / 2)
+
+  const offsets: number[] = []
+  const shapes: number[] = []
+  const colors: number[] = []
+  let minHeight = Infinity
+  let maxHeight = -Infinity
+
+  for (let cz = 0; cz < cells; cz++) {
+    for (let cx = 0; cx < cells; cx++) {
+      const x = originX + (cx + 0.5) * config.cellSize
+      const z = originZ + (cz + 0.5) * config.cellSize
+      const surface = patch.sample(x, z)
+
+      // No grass under water, on bare rock or on roads
+      if (surface.type === SurfaceType.WATER || surface.type === SurfaceType.ROCK || surface.type === SurfaceType.ROAD) continue
+
+      // Each biome brings its own grass rules
+      const weights = getBiomeWeights(x, z)
+      const rules = applyGrassTuning(blendGrassConfig(weights), tuning)
+      if (!shouldPlaceGrass(x, z, surface.height, surface.slope, rules)) continue
+
+      // Thicker in the middle of patches and on flat ground
+      const patchCoverage = Math.min(1, (rules.density - getGrassDensity(x, z, rules)) / config.patchFeather)
+      const coverage = patchCoverage * (1 - surface.slope / rules.maxSlope)
+      const count = Math.floor(config.bladesPerCell * coverage + random())
+      blendBiomeColor(weights, surface.height, color)
+
+      for (let k = 0; k < count; k++) {
+        const bx = x + (random() - 0.5) * config.cellSize
+        const bz = z + (random() - 0.5) * config.cellSize
+        if (isOnRoad(bx, bz)) continue
+        if (openings.some(opening => isInTerrainOpening(opening, bx, bz))) continue  // Dungeon entrances
+
+        const by = patch.getHeight(bx, bz)
+        minHeight = Math.min(minHeight, by)
+        maxHeight = Math.max(maxHeight, by)
+
+        offsets.push(bx, by, bz)
+        shapes.push(
+          random() * Math.PI * 2,
+          config.width * (0.7 + random() * 0.6),
+          config.height * (1 + (random() * 2 - 1) * config.heightVariation),
+          random()
+        )
+        colors.push(color.r, color.g, color.b)
+      }
+    }
+  }
+
+  return {
+    offsets: new Float32Array(offsets),
+    shapes: new Float32Array(shapes),
+    colors: new Float32Array(colors),
+    count: offsets.length / 3,
+    minHeight,
+    maxHeight,
+  }
+}
+
+// Width of the blade at each height step, the tip is a single point
+const BLADE_PROFILE = [
+  [0, 1],
+  [0.35, 0.85],
+  [0.7, 0.55],
+  [1, 0],
+]
+
+/**
+ * One blade, a unit tall and a unit wide at the root, facing +z.
+ * Normals point up so blades shade like the ground they grow on.
+ */
+export function createGrassBladeGeometry(): BufferGeometry {
+  const positions: number[] = []
+  const normals: number[] = []
+  const indices: number[] = []
+
+  BLADE_PROFILE.forEach(([y, width], row) => {
+    if (width > 0) {
+      positions.push(-width / 2, y, 0, width / 2, y, 0)
+      normals.push(0, 1, 0, 0, 1, 0)
+    } else {
+      positions.push(0, y, 0)
+      normals.push(0, 1, 0)
+    }
+
+    if (row > 0) {
+      const base = (row - 1) * 2
+      indices.push(base, base + 1, base + 2)
+      if (width > 0) {
+        indices.push(base + 1, base + 3, base + 2)
+      }
+    }
+  })
+
+  const geometry = new BufferGeometry()
+  geometry.setAttribute('position', new BufferAttribute(new Float32Array(positions), 3))
+  geometry.setAttribute('normal', new BufferAttribute(new Float32Array(normals), 3))
+  geometry.setIndex(indices)
+  return geometry
+}
+
+export interface GrassMaterial {
+  material: MeshStandardMaterial
+  uniforms: {
+    grassTime: { value: number }
+    grassPlayer: { value: Vector3 }
+  }
+}
+
+/**
+ * Standard material that builds each blade from its instance attributes
+ * (grassOffset, grassShape, color). Update the time and player uniforms every frame.
+ */
+export function createGrassMaterial(config = defaultGrassBladeConfig): GrassMaterial {
+  const material = new MeshStandardMaterial({
+    vertexColors: true,
+    roughness: 0.9,
+    metalness: 0,
+    side: DoubleSide,
+  })
+
+  const uniforms = {
+    grassTime: { value: 0 },
+    grassPlayer: { value: new Vector3(0, -1e6, 0) },
+    grassNear: { value: config.nearDistance },
+    grassFar: { value: config.farDistance },
+    grassWindDirection: { value: new Vector2(...config.windDirection).normalize() },
+    grassWindStrength: { value: config.windStrength },
+    grassWindSpeed: { value: config.windSpeed },
+    grassWindScale: { value: config.windScale },
+    grassBendRadius: { value: config.bendRadius },
+  }
+
+  material.onBeforeCompile = (shader) => {
+    Object.assign(shader.uniforms, uniforms)
+
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>
+        attribute vec3 grassOffset;
+        attribute vec4 grassShape;
+        uniform float grassTime;
+        uniform vec3 grassPlayer;
+        uniform float grassNear;
+        uniform float grassFar;
+        uniform vec2 grassWindDirection;
+        uniform float grassWindStrength;
+        uniform float grassWindSpeed;
+        uniform float grassWindScale;
+        uniform float grassBendRadius;
+        varying float vGrassTip;
+      `)
+      .replace('#include <begin_vertex>', `
+        float grassCos = cos(grassShape.x);
+        float grassSin = sin(grassShape.x);
+        vec3 transformed = vec3(
+          position.x * grassShape.y * grassCos,
+          position.y * grassShape.z,
+          -position.x * grassShape.y * grassSin
+        );
+
+        // Each blade has its own cutoff, so grass thins out with distance instead of ending in a line
+        float grassKeep = 1.0 - smoothstep(grassNear, grassFar, distance(cameraPosition.xz, grassOffset.xz));
+        transformed *= clamp((grassKeep - grassShape.w) * 8.0, 0.0, 1.0);
+
+        // Gusts roll across the field, with a faster flutter on top
+        float grassPhase = grassTime * grassWindSpeed - dot(grassOffset.xz, grassWindDirection) * grassWindScale * 6.2832;
+        float grassGust = sin(grassPhase) * 0.5 + 0.5;
+        float grassFlutter = sin(grassPhase * 3.7 + grassShape.x * 5.0) * 0.15;
+        vec2 grassLean = grassWindDirection * (grassGust + grassFlutter) * grassWindStrength;
+
+        // Lean away from the player's feet
+        vec2 grassAway = grassOffset.xz - grassPlayer.xz;
+        float grassPlayerDistance = length(grassAway);
+        float grassPush = (1.0 - smoothstep(0.0, grassBendRadius, grassPlayerDistance)) * step(abs(grassOffset.y - grassPlayer.y), 2.0);
+        grassLean += grassAway / max(grassPlayerDistance, 0.001) * grassPush;
+
+        // Tips move the most; lower them as they lean so blades keep their length
+        float grassBend = position.y * position.y;
+        transformed.xz += grassLean * grassBend * grassShape.z;
+        transformed.y *= 1.0 - 0.4 * min(length(grassLean), 1.0) * grassBend;
+        transformed += grassOffset;
+        vGrassTip = position.y;
+      `)
+
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', `#include <common>
+        varying float vGrassTip;
+      `)
+      .replace('#include <color_fragment>', `#include <color_fragment>
+        // Darker at the root where blades shade each other
+        diffuseColor.rgb *= mix(0.55, 1.15, vGrassTip);
+      `)
+  }
+  material.customProgramCacheKey = () => 'grass'
+
+  return { material, uniforms }
+}
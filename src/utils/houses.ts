@@ -0,0 +1,259 @@
+import { createRandom, hashSeed } from './random'
+import type { Structure } from './structures'
+
+/**
+ * Enterable house layouts: a walled shell with a doorway, a hinged door
+ * and furniture, all in the house's local space (door facing +z, origin
+ * on the ground at the center). Sizes are in world units, so the doorway
+ * always fits the player whatever the structure's scale.
+ */
+
+export interface HouseBox {
+  center: [number, number, number]
+  size: [number, number, number]
+  color: string
+  solid: boolean  // Gets a collider
+  glass?: boolean
+}
+
+export interface HouseFurniture {
+  kind: 'bed' | 'table' | 'stool' | 'chest' | 'shelf'
+  position: [number, number, number]  // Floor center
+  rotation: number                     // Yaw
+  size: [number, number, number]       // Footprint and height, also the collider
+  parts: HouseBox[]                    // Relative to position and rotation
+}
+
+export interface HouseDoor {
+  hinge: [number, number, number]  // Bottom of the hinged edge, the door spans +x from here
+  width: number
+  height: number
+  thickness: number
+  color: string
+}
+
+export interface HouseLayout {
+  width: number
+  depth: number
+  wallHeight: number
+  shell: HouseBox[]
+  door: HouseDoor
+  furniture: HouseFurniture[]
+}
+
+const WALL_THICKNESS = 0.2
+const FLOOR_HEIGHT = 0.15      // Top of the floor above the ground at the center
+const FOUNDATION_DEPTH = 1.5   // Reaches below sloped ground
+const MIN_WALL_HEIGHT = 2.8    // Headroom over the door
+const DOOR_WIDTH = 1.4
+const DOOR_HEIGHT = 2.2
+const ROOF_OVERHANG = 0.25
+const FURNITURE_GAP = 0.1      // Between furniture and the walls
+
+const WALL_COLORS = ['#8B4513', '#A0522D', '#CD853F']
+const ROOF_COLORS = ['#654321', '#8B4513', '#A0522D']
+const FLOOR_COLOR = '#6b4a2f'
+const WOOD_COLOR = '#7a5230'
+const DARK_WOOD_COLOR = '#4f341d'
+
+/**
+ * Outer footprint of a house, also used to keep props out of it
+ */
+export function getHouseSize(structure: Pick<Structure, 'variant' | 'scale'>): { width: number, depth: number, wallHeight: number } {
+  const { variant, scale } = structure
+  return {
+    width: (6 + variant * 1.5) * scale,
+    depth: (5 + variant * 1.5) * scale,
+    wallHeight: Math.max(MIN_WALL_HEIGHT, (3 + variant * 0.5) * scale),
+  }
+}
+
+function box(
+  center: [number, number, number],
+  size: [number, number, number],
+  color: string,
+  solid = true
+): HouseBox {
+  return { center, size, color, solid }
+}
+
+function createShell(width: number, depth: number, wallHeight: number, variant: number): HouseBox[] {
+  const wallColor = WALL_COLORS[variant % WALL_COLORS.length]
+  const roofColor = ROOF_COLORS[variant % ROOF_COLORS.length]
+  const halfWidth = width / 2
+  const halfDepth = depth / 2
+  const wallY = FLOOR_HEIGHT + wallHeight / 2
+  const t = WALL_THICKNESS
+
+  // Front wall is split around the doorway
+  const sideWidth = halfWidth - DOOR_WIDTH / 2
+  const lintelHeight = wallHeight - DOOR_HEIGHT
+  const roofHeight = wallHeight * 0.4
+
+  const shell = [
+    box([0, (FLOOR_HEIGHT - FOUNDATION_DEPTH) / 2, 0], [width, FLOOR_HEIGHT + FOUNDATION_DEPTH, depth], FLOOR_COLOR),
+    box([0, wallY, -halfDepth + t / 2], [width, wallHeight, t], wallColor),
+    box([-halfWidth + t / 2, wallY, 0], [t, wallHeight, depth - t * 2], wallColor),
+    box([halfWidth - t / 2, wallY, 0], [t, wallHeight, depth - t * 2], wallColor),
+    box([-(DOOR_WIDTH / 2 + sideWidth / 2), wallY, halfDepth - t / 2], [sideWidth, wallHeight, t], wallColor),
+    box([DOOR_WIDTH / 2 + sideWidth / 2, wallY, halfDepth - t / 2], [sideWidth, wallHeight, t], wallColor),
+    box([0, FLOOR_HEIGHT + DOOR_HEIGHT + lintelHeight / 2, halfDepth - t / 2], [DOOR_WIDTH, lintelHeight, t], wallColor),
+    box(
+      [0, FLOOR_HEIGHT + wallHeight + roofHeight / 2, 0],
+      [width + ROOF_OVERHANG * 2, roofHeight, depth + ROOF_OVERHANG * 2],
+      roofColor
+    ),
+  ]
+
+  // Windows either side of the door and on both side walls
+  const windowY = FLOOR_HEIGHT + wallHeight * 0.6
+  const windowX = DOOR_WIDTH / 2 + sideWidth / 2
+  const windows: [number, number, number][] = [
+    [-windowX, windowY, halfDepth + 0.03],
+    [windowX, windowY, halfDepth + 0.03],
+    [-halfWidth - 0.03, windowY, 0],
+    [halfWidth + 0.03, windowY, 0],
+  ]
+  windows.forEach(center => {
+    const onSide = Math.abs(center[0]) > halfWidth
+    shell.push({ ...box(center, onSide ? [0.05, 0.8, 0.8] : [0.8, 0.8, 0.05], '#87CEEB', false), glass: true })
+  })
+
+  // Chimney on the larger variants
+  if (variant > 0) {
+    shell.push(box(
+      [halfWidth * 0.6, FLOOR_HEIGHT + wallHeight + roofHeight, -halfDepth * 0.4],
+      [0.6, roofHeight + wallHeight * 0.4, 0.6],
+      '#696969'
+    ))
+  }
+
+  return shell
+}
+
+function createBed(color: string): Pick<HouseFurniture, 'size' | 'parts'> {
+  return {
+    size: [1, 0.55, 2],
+    parts: [
+      box([0, 0.2, 0], [1, 0.4, 2], WOOD_COLOR),
+      box([0, 0.45, 0.1], [0.9, 0.1, 1.7], color),
+      box([0, 0.48, -0.8], [0.7, 0.12, 0.3], '#f0ead6'),
+    ],
+  }
+}
+
+function createTable(): Pick<HouseFurniture, 'size' | 'parts'> {
+  const legs = [[-0.5, -0.35], [0.5, -0.35], [-0.5, 0.35], [0.5, 0.35]].map(([x, z]) =>
+    box([x, 0.36, z], [0.08, 0.72, 0.08], WOOD_COLOR)
+  )
+  return {
+    size: [1.2, 0.78, 0.8],
+    parts: [box([0, 0.75, 0], [1.2, 0.06, 0.8], WOOD_COLOR), ...legs],
+  }
+}
+
+function createStool(): Pick<HouseFurniture, 'size' | 'parts'> {
+  return {
+    size: [0.4, 0.45, 0.4],
+    parts: [box([0, 0.42, 0], [0.4, 0.06, 0.4], WOOD_COLOR), box([0, 0.2, 0], [0.12, 0.4, 0.12], DARK_WOOD_COLOR)],
+  }
+}
+
+function createChest(): Pick<HouseFurniture, 'size' | 'parts'> {
+  return {
+    size: [0.9, 0.6, 0.55],
+    parts: [
+      box([0, 0.25, 0], [0.9, 0.5, 0.55], DARK_WOOD_COLOR),
+      box([0, 0.55, 0], [0.92, 0.1, 0.57], '#B8860B'),
+    ],
+  }
+}
+
+function createShelf(): Pick<HouseFurniture, 'size' | 'parts'> {
+  return {
+    size: [1.2, 1.8, 0.4],
+    parts: [
+      box([0, 0.9, -0.15], [1.2, 1.8, 0.1], DARK_WOOD_COLOR),
+      ...[0.3, 0.9, 1.5].map(y => box([0, y, 0], [1.2, 0.05, 0.4], WOOD_COLOR)),
+    ],
+  }
+}
+
+const BLANKET_COLORS = ['#7a2e2e', '#2e4a7a', '#3f6b35', '#6b5a2e']
+
+/**
+ * Furnish the interior: every house has a bed, a chest and a table.
+ * Bigger variants add stools, a shelf and a second bed. The seed decides
+ * which corner the bed goes in and the blanket colors.
+ */
+function createFurniture(width: number, depth: number, variant: number, random: () => number): HouseFurniture[] {
+  const innerHalfWidth = width / 2 - WALL_THICKNESS - FURNITURE_GAP
+  const innerHalfDepth = depth / 2 - WALL_THICKNESS - FURNITURE_GAP
+  const side = random() < 0.5 ? -1 : 1
+  const blanket = () => BLANKET_COLORS[Math.floor(random() * BLANKET_COLORS.length)]
+  const furniture: HouseFurniture[] = []
+
+  const place = (
+    kind: HouseFurniture['kind'],
+    shape: Pick<HouseFurniture, 'size' | 'parts'>,
+    x: number,
+    z: number,
+    rotation = 0
+  ) => {
+    furniture.push({ kind, position: [x, FLOOR_HEIGHT, z], rotation, ...shape })
+  }
+
+  // Bed with its head against the back wall, chest at its foot
+  const bed = createBed(blanket())
+  const bedX = side * (innerHalfWidth - bed.size[0] / 2)
+  const bedZ = -innerHalfDepth + bed.size[2] / 2
+  place('bed', bed, bedX, bedZ)
+  const chest = createChest()
+  place('chest', chest, bedX, bedZ + bed.size[2] / 2 + chest.size[2] / 2 + 0.15)
+
+  // Table in the middle, off toward the other side
+  const table = createTable()
+  const tableX = -side * 0.4
+  const tableZ = -innerHalfDepth * 0.1
+  place('table', table, tableX, tableZ)
+
+  if (variant > 0) {
+    const stoolOffset = table.size[0] / 2 + 0.35
+    place('stool', createStool(), tableX - stoolOffset, tableZ)
+    place('stool', createStool(), tableX + stoolOffset, tableZ)
+  }
+
+  // Other back corner: a second bed in the biggest houses, a shelf otherwise
+  if (variant === 2) {
+    const second = createBed(blanket())
+    place('bed', second, -side * (innerHalfWidth - second.size[0] / 2), -innerHalfDepth + second.size[2] / 2)
+  } else if (variant === 1) {
+    const shelf = createShelf()
+    place('shelf', shelf, -side * (innerHalfWidth - shelf.size[0] / 2), -innerHalfDepth + shelf.size[2] / 2)
+  }
+
+  return furniture
+}
+
+/**
+ * Full layout of a house. Deterministic for a world seed and structure.
+ */
+export function generateHouseLayout(structure: Structure, seed: number): HouseLayout {
+  const { width, depth, wallHeight } = getHouseSize(structure)
+  const random = createRandom(hashSeed(seed, Math.floor(structure.position.x), Math.floor(structure.position.z)))
+
+  return {
+    width,
+    depth,
+    wallHeight,
+    shell: createShell(width, depth, wallHeight, structure.variant),
+    door: {
+      hinge: [-DOOR_WIDTH / 2, FLOOR_HEIGHT, depth / 2 - WALL_THICKNESS / 2],
+      width: DOOR_WIDTH,
+      height: DOOR_HEIGHT,
+      thickness: 0.08,
+      color: '#4A4A4A',
+    },
+    furniture: createFurniture(width, depth, structure.variant, random),
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+import { createHydrology, defaultHydrologyConfig, NEIGHBOURS } from './hydrology'
+import type { Hydrology } from './hydrology'
+import { getBaseTerrainHeight } from './noise'
+
+const { regionCells } = defaultHydrologyConfig
+const REGIONS = [-1, 0, 1]
+
+/**
+ * Every cell whose water drains over a region border, with the cell it drains into
+ */
+function findCrossings(hydrology: Hydrology) {
+  const crossings = []
+  for (const regionZ of REGIONS) {
+    for (const regionX of REGIONS) {
+      const region = hydrology.getRegion(regionX, regionZ)
+      for (let cell = 0; cell < regionCells * regionCells; cell++) {
+        if (region.flow[cell] < 0) continue
+        const [di, dj] = NEIGHBOURS[region.flow[cell]]
+        const gx = regionX * regionCells + cell % regionCells + di
+        const gz = regionZ * regionCells + Math.floor(cell / regionCells) + dj
+        const nextX = Math.floor(gx / regionCells)
+        const nextZ = Math.floor(gz / regionCells)
+        if (nextX === regionX && nextZ === regionZ) continue
+
+        const next = hydrology.getRegion(nextX, nextZ)
+        const nextCell = (gx - nextX * regionCells) + (gz - nextZ * regionCells) * regionCells
+        crossings.push({ region, cell, next, nextCell })
+      }
+    }
+  }
+  return crossings
+}
+
+describe('createHydrology', () => {
+  it('carries water on across region borders', () => {
+    const crossings = findCrossings(createHydrology((x, z) => getBaseTerrainHeight(x, z)))
+    expect(crossings.length).toBeGreaterThan(0)
+    expect(crossings.filter(({ region, cell }) => region.river[cell]).length).toBeGreaterThan(0)
+
+    for (const { region, cell, next, nextCell } of crossings) {
+      // The region downstream counts everything the one upstream did
+      expect(next.accumulation[nextCell]).toBeGreaterThanOrEqual(region.accumulation[cell] + 1)
+      if (region.river[cell]) {
+        expect(next.river[nextCell] || !Number.isNaN(next.waterLevel[nextCell]) || next.flow[nextCell] < 0).toBeTruthy()
+      }
+    }
+  })
+
+  it('solves a region the same whichever of its neighbours loads first', () => {
+    const fromWest = createHydrology((x, z) => getBaseTerrainHeight(x, z))
+    const fromEast = createHydrology((x, z) => getBaseTerrainHeight(x, z))
+    fromWest.getRegion(-1, 0)
+    fromEast.getRegion(1, 0)
+
+    expect(fromWest.getRegion(0, 0)).toEqual(fromEast.getRegion(0, 0))
+  })
+})
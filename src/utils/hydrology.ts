@@ -0,0 +1,473 @@
+import { defaultWaterConfig } from './water'
+
+/**
+ * Hydrology pass over the heightmap: depression filling finds lakes and
+ * flow accumulation finds rivers. The world is split into square regions.
+ * Each region fills depressions on its own grid plus a wide overlapping
+ * margin and decides where each of its own cells drains to; water leaving
+ * a region is then handed to the neighbour it flows into, so rivers carry
+ * their whole catchment across region borders and every cell gets the same
+ * answer no matter what order chunks load in.
+ */
+
+export interface HydrologyConfig {
+  cellSize: number        // World units per hydrology cell
+  regionCells: number     // Cells per region side (the part that is kept)
+  marginCells: number     // Extra cells filled around each region so lakes near the edge come out whole
+  riverThreshold: number  // Upstream cells needed before water forms a river
+  maxCarve: number        // Deepest river channel
+  riverDepth: number      // Fraction of the channel filled with water
+  lakeMinDepth: number    // Shallower depressions stay dry
+  seaLevel: number        // Everything below drains into the sea
+}
+
+export const defaultHydrologyConfig: HydrologyConfig = {
+  cellSize: 8,
+  regionCells: 32,
+  marginCells: 32,
+  riverThreshold: 300,
+  maxCarve: 1.2,
+  riverDepth: 0.7,
+  lakeMinDepth: 0.4,
+  seaLevel: defaultWaterConfig.seaLevel,
+}
+
+export interface HydrologyRegion {
+  carve: Float32Array         // How much the river lowers the ground
+  waterLevel: Float32Array    // Lake or river surface, NaN where dry
+  river: Uint8Array           // 1 for river cells
+  flow: Int8Array             // Neighbour each cell drains to (index into NEIGHBOURS), -1 where the water stops
+  accumulation: Float32Array  // Cells upstream of each cell, itself included, counted across regions
+}
+
+// One region's own depression filling, before any water is passed between regions
+interface RegionFill {
+  heights: Float32Array  // Core cells only, like everything below
+  filled: Float32Array   // Heights with depressions filled to their spill point
+  flow: Int8Array        // Where the fill reached each cell from, -1 for the sea
+  order: Int32Array      // Cells from downstream to upstream
+}
+
+// Drainage inside one region, with the flow out of it settled
+interface RegionRouting {
+  flow: Int8Array
+  exit: Int32Array              // Cell where water from each cell leaves the region, -1 if it stops inside
+  accumulation: Float32Array    // Upstream cells inside the region only
+}
+
+// Cells of other regions draining straight into a region
+interface RegionInflow {
+  sources: Map<number, { regionX: number, regionZ: number, cell: number }[]>  // Receiving cell -> cells flowing in
+  byExit: Map<number, number[]>  // Exit cell -> receiving cells whose water leaves through it
+}
+
+// Tiny slope added while filling so every flat still drains somewhere
+const FILL_EPSILON = 1e-4
+
+export const NEIGHBOURS = [
+  [-1, -1], [0, -1], [1, -1],
+  [-1, 0], [1, 0],
+  [-1, 1], [0, 1], [1, 1],
+]
+
+/**
+ * Fill the depressions of one region and find where each of its cells drains
+ */
+function fillRegion(
+  regionX: number,
+  regionZ: number,
+  sampleHeight: (x: number, z: number) => number,
+  config: HydrologyConfig
+): RegionFill {
+  const { cellSize, regionCells, marginCells } = config
+  const size = regionCells + marginCells * 2
+  const cellCount = size * size
+  const originX = regionX * regionCells - marginCells
+  const originZ = regionZ * regionCells - marginCells
+
+  const heights = new Float32Array(cellCount)
+  for (let j = 0; j < size; j++) {
+    for (let i = 0; i < size; i++) {
+      heights[i + j * size] = sampleHeight((originX + i) * cellSize, (originZ + j) * cellSize)
+    }
+  }
+
+  // Priority-flood: grow inwards from the drains, lowest cell first.
+  // Each cell remembers the cell it was reached from - that is where it drains to.
+  const filled = new Float32Array(heights)
+  const parent = new Int8Array(cellCount).fill(-1)
+  const closed = new Uint8Array(cellCount)
+  const order = new Int32Array(cellCount)
+  let orderCount = 0
+
+  const heap: number[] = []
+  const push = (cell: number) => {
+    heap.push(cell)
+    let k = heap.length - 1
+    while (k > 0) {
+      const up = (k - 1) >> 1
+      if (filled[heap[up]] <= filled[heap[k]]) break
+      ;[heap[up], heap[k]] = [heap[k], heap[up]]
+      k = up
+    }
+  }
+  const pop = (): number => {
+    const top = heap[0]
+    const last = heap.pop()!
+    if (heap.length > 0) {
+      heap[0] = last
+      let k = 0
+      for (;;) {
+        const left = k * 2 + 1
+        const right = left + 1
+        let smallest = k
+        if (left < heap.length && filled[heap[left]] < filled[heap[smallest]]) smallest = left
+        if (right < heap.length && filled[heap[right]] < filled[heap[smallest]]) smallest = right
+        if (smallest === k) break
+        ;[heap[smallest], heap[k]] = [heap[k], heap[smallest]]
+        k = smallest
+      }
+    }
+    return top
+  }
+
+  // Drains: the edge of the filled area and the sea. The edge is far enough
+  // out that the region itself only loses lakes that spill over it.
+  for (let j = 0; j < size; j++) {
+    for (let i = 0; i < size; i++) {
+      const cell = i + j * size
+      const onEdge = i === 0 || j === 0 || i === size - 1 || j === size - 1
+      if (onEdge || heights[cell] < config.seaLevel) {
+        closed[cell] = 1
+        push(cell)
+      }
+    }
+  }
+
+  while (heap.length > 0) {
+    const cell = pop()
+    order[orderCount++] = cell
+    const ci = cell % size
+    const cj = (cell - ci) / size
+
+    NEIGHBOURS.forEach(([di, dj], direction) => {
+      const ni = ci + di
+      const nj = cj + dj
+      if (ni < 0 || nj < 0 || ni >= size || nj >= size) return
+
+      const next = ni + nj * size
+      if (closed[next]) return
+
+      closed[next] = 1
+      filled[next] = Math.max(heights[next], filled[cell] + FILL_EPSILON)
+      // Pointing back the way the fill came
+      parent[next] = NEIGHBOURS.length - 1 - direction
+      push(next)
+    })
+  }
+
+  // Keep only the region itself. Cells come off the heap lowest first, so
+  // the order still runs downstream to upstream.
+  const coreCount = regionCells * regionCells
+  const region: RegionFill = {
+    heights: new Float32Array(coreCount),
+    filled: new Float32Array(coreCount),
+    flow: new Int8Array(coreCount),
+    order: new Int32Array(coreCount),
+  }
+
+  let coreOrderCount = 0
+  for (let k = 0; k < orderCount; k++) {
+    const cell = order[k]
+    const i = cell % size - marginCells
+    const j = (cell - cell % size) / size - marginCells
+    if (i < 0 || j < 0 || i >= regionCells || j >= regionCells) continue
+
+    const coreCell = i + j * regionCells
+    region.heights[coreCell] = heights[cell]
+    region.filled[coreCell] = filled[cell]
+    region.flow[coreCell] = parent[cell]
+    region.order[coreOrderCount++] = coreCell
+  }
+
+  return region
+}
+
+export interface Hydrology {
+  getRegion: (regionX: number, regionZ: number) => HydrologyRegion
+  getRiverCarve: (x: number, z: number) => number
+  getWaterLevel: (x: number, z: number) => number
+  isRiver: (x: number, z: number) => boolean
+  clear: () => void
+}
+
+/**
+ * Lazily solve and cache regions, and answer point queries by
+ * interpolating between hydrology cells (across regions if needed)
+ */
+export function createHydrology(
+  sampleHeight: (x: number, z: number) => number,
+  config = defaultHydrologyConfig
+): Hydrology {
+  const { cellSize, regionCells } = config
+  const fills = new Map<string, RegionFill>()
+  const routings = new Map<string, RegionRouting>()
+  const inflows = new Map<string, RegionInflow>()
+  const exitFlows = new Map<string, number>()
+  const regions = new Map<string, HydrologyRegion>()
+
+  const getFill = (regionX: number, regionZ: number) => {
+    const key = `${regionX},${regionZ}`
+    let fill = fills.get(key)
+    if (!fill) {
+      fill = fillRegion(regionX, regionZ, sampleHeight, config)
+      fills.set(key, fill)
+    }
+    return fill
+  }
+
+  // Region and cell index for global cell coordinates
+  const locate = (gx: number, gz: number) => {
+    const regionX = Math.floor(gx / regionCells)
+    const regionZ = Math.floor(gz / regionCells)
+    const cell = (gx - regionX * regionCells) + (gz - regionZ * regionCells) * regionCells
+    return { regionX, regionZ, cell }
+  }
+
+  // Filled height of a cell as its own region sees it
+  const getFilled = (gx: number, gz: number) => {
+    const { regionX, regionZ, cell } = locate(gx, gz)
+    return getFill(regionX, regionZ).filled[cell]
+  }
+
+  const getRouting = (regionX: number, regionZ: number) => {
+    const key = `${regionX},${regionZ}`
+    let routing = routings.get(key)
+    if (routing) return routing
+
+    const fill = getFill(regionX, regionZ)
+    const cellCount = regionCells * regionCells
+    const flow = new Int8Array(fill.flow)
+
+    // Regions fill with different margins, so near a border two of them can
+    // disagree on which way is down. Flow only leaves a region towards a
+    // cell its own region fills lower, which keeps water from ever circling
+    // back; otherwise it takes the lowest neighbour that is, or stops.
+    for (let cell = 0; cell < cellCount; cell++) {
+      if (flow[cell] < 0) continue
+      const i = cell % regionCells
+      const j = (cell - i) / regionCells
+      const [di, dj] = NEIGHBOURS[flow[cell]]
+      if (i + di >= 0 && j + dj >= 0 && i + di < regionCells && j + dj < regionCells) continue
+
+      const gx = regionX * regionCells + i
+      const gz = regionZ * regionCells + j
+      if (getFilled(gx + di, gz + dj) < fill.filled[cell]) continue
+
+      let lowest = fill.filled[cell]
+      flow[cell] = -1
+      NEIGHBOURS.forEach(([ni, nj], direction) => {
+        const filled = getFilled(gx + ni, gz + nj)
+        if (filled < lowest) {
+          lowest = filled
+          flow[cell] = direction
+        }
+      })
+    }
+
+    // Anything drained to inside the region sits lower, so comes earlier in the order
+    const exit = new Int32Array(cellCount).fill(-1)
+    const accumulation = new Float32Array(cellCount).fill(1)
+    const downstream = new Int32Array(cellCount).fill(-1)
+    for (let k = 0; k < cellCount; k++) {
+      const cell = fill.order[k]
+      if (flow[cell] < 0) continue
+      const i = cell % regionCells
+      const j = (cell - i) / regionCells
+      const [di, dj] = NEIGHBOURS[flow[cell]]
+      if (i + di < 0 || j + dj < 0 || i + di >= regionCells || j + dj >= regionCells) {
+        exit[cell] = cell
+      } else {
+        downstream[cell] = cell + di + dj * regionCells
+        exit[cell] = exit[downstream[cell]]
+      }
+    }
+    for (let k = cellCount - 1; k >= 0; k--) {
+      const cell = fill.order[k]
+      if (downstream[cell] >= 0) {
+        accumulation[downstream[cell]] += accumulation[cell]
+      }
+    }
+
+    routing = { flow, exit, accumulation }
+    routings.set(key, routing)
+    return routing
+  }
+
+  const getInflow = (regionX: number, regionZ: number) => {
+    const key = `${regionX},${regionZ}`
+    let inflow = inflows.get(key)
+    if (inflow) return inflow
+
+    inflow = { sources: new Map(), byExit: new Map() }
+    const { exit } = getRouting(regionX, regionZ)
+
+    for (let nz = regionZ - 1; nz <= regionZ + 1; nz++) {
+      for (let nx = regionX - 1; nx <= regionX + 1; nx++) {
+        if (nx === regionX && nz === regionZ) continue
+        const neighbour = getRouting(nx, nz)
+
+        for (let cell = 0; cell < regionCells * regionCells; cell++) {
+          if (neighbour.exit[cell] !== cell) continue
+          const i = cell % regionCells
+          const j = (cell - i) / regionCells
+          const [di, dj] = NEIGHBOURS[neighbour.flow[cell]]
+          const target = locate(nx * regionCells + i + di, nz * regionCells + j + dj)
+          if (target.regionX !== regionX || target.regionZ !== regionZ) continue
+
+          const sources = inflow.sources.get(target.cell) ?? []
+          if (sources.length === 0) {
+            inflow.sources.set(target.cell, sources)
+            if (exit[target.cell] >= 0) {
+              inflow.byExit.set(exit[target.cell], [...inflow.byExit.get(exit[target.cell]) ?? [], target.cell])
+            }
+          }
+          sources.push({ regionX: nx, regionZ: nz, cell })
+        }
+      }
+    }
+
+    inflows.set(key, inflow)
+    return inflow
+  }
+
+  // Water arriving at a cell from other regions
+  const getInflowAt = (inflow: RegionInflow, cell: number): number =>
+    (inflow.sources.get(cell) ?? [])
+      .reduce((sum, source) => sum + getExitFlow(source.regionX, source.regionZ, source.cell), 0)
+
+  // Everything upstream of a cell where water leaves its region. Follows the
+  // water back up through as many regions as it came from; that ends because
+  // the filled height only ever rises going upstream.
+  function getExitFlow(regionX: number, regionZ: number, cell: number): number {
+    const key = `${regionX},${regionZ},${cell}`
+    let total = exitFlows.get(key)
+    if (total === undefined) {
+      const inflow = getInflow(regionX, regionZ)
+      total = getRouting(regionX, regionZ).accumulation[cell]
+      for (const entry of inflow.byExit.get(cell) ?? []) {
+        total += getInflowAt(inflow, entry)
+      }
+      exitFlows.set(key, total)
+    }
+    return total
+  }
+
+  const getRegion = (regionX: number, regionZ: number) => {
+    const key = `${regionX},${regionZ}`
+    let region = regions.get(key)
+    if (region) return region
+
+    const fill = getFill(regionX, regionZ)
+    const { flow } = getRouting(regionX, regionZ)
+    const inflow = getInflow(regionX, regionZ)
+    const cellCount = regionCells * regionCells
+
+    // Flow accumulation: pass each cell's water down to where it drains, highest first
+    const accumulation = new Float32Array(cellCount).fill(1)
+    inflow.sources.forEach((_, cell) => {
+      accumulation[cell] += getInflowAt(inflow, cell)
+    })
+    for (let k = cellCount - 1; k >= 0; k--) {
+      const cell = fill.order[k]
+      if (flow[cell] < 0) continue
+      const i = cell % regionCells
+      const j = (cell - i) / regionCells
+      const [di, dj] = NEIGHBOURS[flow[cell]]
+      if (i + di >= 0 && j + dj >= 0 && i + di < regionCells && j + dj < regionCells) {
+        accumulation[cell + di + dj * regionCells] += accumulation[cell]
+      }
+    }
+
+    region = {
+      carve: new Float32Array(cellCount),
+      waterLevel: new Float32Array(cellCount).fill(NaN),
+      river: new Uint8Array(cellCount),
+      flow,
+      accumulation,
+    }
+
+    for (let cell = 0; cell < cellCount; cell++) {
+      const height = fill.heights[cell]
+      if (height < config.seaLevel) continue
+
+      if (fill.filled[cell] - height > config.lakeMinDepth) {
+        // Filled depression - a lake with a flat surface
+        region.waterLevel[cell] = fill.filled[cell]
+      } else if (accumulation[cell] >= config.riverThreshold) {
+        // Bigger rivers cut deeper channels
+        const strength = Math.log2(accumulation[cell] / config.riverThreshold)
+        const carve = Math.min(config.maxCarve, 0.4 + 0.3 * strength)
+        region.carve[cell] = carve
+        region.waterLevel[cell] = height - carve * (1 - config.riverDepth)
+        region.river[cell] = 1
+      }
+    }
+
+    regions.set(key, region)
+    return region
+  }
+
+  // Look up a cell by global cell coordinates
+  const getCell = (gx: number, gz: number) => {
+    const { regionX, regionZ, cell } = locate(gx, gz)
+    return { region: getRegion(regionX, regionZ), index: cell }
+  }
+
+  // Four surrounding cells and bilinear weights for a world position
+  const getCorners = (x: number, z: number) => {
+    const fx = x / cellSize
+    const fz = z / cellSize
+    const gx = Math.floor(fx)
+    const gz = Math.floor(fz)
+    const tx = fx - gx
+    const tz = fz - gz
+
+    return [
+      { ...getCell(gx, gz), weight: (1 - tx) * (1 - tz) },
+      { ...getCell(gx + 1, gz), weight: tx * (1 - tz) },
+      { ...getCell(gx, gz + 1), weight: (1 - tx) * tz },
+      { ...getCell(gx + 1, gz + 1), weight: tx * tz },
+    ]
+  }
+
+  return {
+    getRegion,
+
+    getRiverCarve: (x, z) => getCorners(x, z)
+      .reduce((sum, { region, index, weight }) => sum + region.carve[index] * weight, 0),
+
+    getWaterLevel: (x, z) => {
+      // Highest wet corner wins so lake surfaces stay flat up to the shore
+      let level = config.seaLevel
+      for (const { region, index } of getCorners(x, z)) {
+        const cellLevel = region.waterLevel[index]
+        if (!Number.isNaN(cellLevel) && cellLevel > level) {
+          level = cellLevel
+        }
+      }
+      return level
+    },
+
+    isRiver: (x, z) => getCorners(x, z)
+      .reduce((sum, { region, index, weight }) => sum + region.river[index] * weight, 0) >= 0.5,
+
+    clear: () => {
+      fills.clear()
+      routings.clear()
+      inflows.clear()
+      exitFlows.clear()
+      regions.clear()
+    },
+  }
+}
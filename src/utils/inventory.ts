@@ -0,0 +1,36 @@
+import { ResourceType } from '../types/world'
+
+/**
+ * Resources the player has picked up
+ */
+
+export type Inventory = Readonly<Record<ResourceType, number>>
+
+const emptyInventory: Inventory = {
+  [ResourceType.WOOD]: 0,
+  [ResourceType.STONE]: 0,
+  [ResourceType.CRYSTAL]: 0,
+}
+
+// Replaced (never mutated) on change so React can compare snapshots
+let inventory = emptyInventory
+const listeners = new Set<() => void>()
+
+export function addResource(type: ResourceType, count = 1) {
+  inventory = { ...inventory, [type]: inventory[type] + count }
+  listeners.forEach(listener => listener())
+}
+
+export function getInventory(): Inventory {
+  return inventory
+}
+
+/**
+ * Listen for inventory changes, shaped for useSyncExternalStore
+ */
+export function subscribeInventory(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
@@ -0,0 +1,182 @@
+import { BufferGeometry, Group, Mesh, Object3D } from 'three'
+import type { Material } from 'three'
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js'
+import type { ModelType, StructureType } from '../types/world'
+
+/**
+ * Optional glTF models for props, structures and weapons. Models are listed in
+ * public/models/manifest.json and preloaded at startup; anything not listed,
+ * still loading or failing to load keeps its procedural mesh.
+ */
+
+/**
+ * Physics shape to use with a model, in the model's own space
+ */
+export type ColliderHint =
+  | { shape: 'cylinder', radius: number, halfHeight: number, centerY: number }
+  | { shape: 'box', halfExtents: [number, number, number], center: [number, number, number] }
+  | { shape: 'none' }  // Walk-through
+
+export interface ModelAssetEntry {
+  url: string                // Relative to the manifest
+  lods?: string[]            // Lower detail variants for terrain LOD 1, 2, ...
+  scale?: number
+  offset?: [number, number, number]
+  rotation?: number          // Yaw in radians
+  collider?: ColliderHint
+}
+
+// Model key -> entry, as listed in the manifest
+export type ModelManifest = Record<string, ModelAssetEntry>
+
+// Model key -> scene per LOD level, null where a level failed to load
+export type LoadedModels = ReadonlyMap<string, readonly (Object3D | null)[]>
+
+export const DEFAULT_MANIFEST_URL = `${import.meta.env.BASE_URL}models/manifest.json`
+
+export function getPropModelKey(type: ModelType): string {
+  return `prop/${type}`
+}
+
+export function getStructureModelKey(type: StructureType, variant: number): string {
+  return `${type}/${variant}`
+}
+
+export function getCharacterModelKey(character: string): string {
+  return `character/${character}`
+}
+
+export function getWeaponModelKey(weapon: string): string {
+  return `weapon/${weapon}`
+}
+
+let manifest: ModelManifest = {}
+let manifestRequest: Promise<void> | null = null
+// Replaced (never mutated) on change so React can compare snapshots
+let loadedModels: LoadedModels = new Map()
+const listeners = new Set<() => void>()
+
+function setLoadedLevel(key: string, level: number, scene: Object3D | null) {
+  const levels = [...(loadedModels.get(key) ?? [])]
+  levels[level] = scene
+  loadedModels = new Map(loadedModels).set(key, levels)
+  listeners.forEach(listener => listener())
+}
+
+// Bake the entry's placement tweaks into a wrapper so every use gets them
+function wrapScene(scene: Object3D, entry: ModelAssetEntry): Object3D {
+  const wrapper = new Group()
+  scene.scale.multiplyScalar(entry.scale ?? 1)
+  scene.position.fromArray(entry.offset ?? [0, 0, 0])
+  scene.rotation.y += entry.rotation ?? 0
+  wrapper.add(scene)
+  wrapper.updateMatrixWorld(true)
+  return wrapper
+}
+
+/**
+ * Fetch the manifest and preload every model and LOD variant in it.
+ * Safe to call more than once; a missing manifest just means no models.
+ */
+export function loadModelManifest(url = DEFAULT_MANIFEST_URL): Promise<void> {
+  if (manifestRequest) return manifestRequest
+
+  const baseUrl = new URL(url, window.location.href)
+  const loader = new GLTFLoader()
+
+  manifestRequest = fetch(baseUrl)
+    .then(response => (response.ok ? response.json() : {}) as Promise<ModelManifest>)
+    .catch(() => ({}))
+    .then(async (entries) => {
+      manifest = entries
+      const loads = Object.entries(entries).flatMap(([key, entry]) =>
+        [entry.url, ...(entry.lods ?? [])].map((levelUrl, level) =>
+          loader.loadAsync(new URL(levelUrl, baseUrl).href)
+            .then(gltf => setLoadedLevel(key, level, wrapScene(gltf.scene, entry)))
+            .catch(error => {
+              console.warn(`Model ${key} (LOD ${level}) failed to load, keeping the procedural mesh`, error)
+              setLoadedLevel(key, level, null)
+            })
+        )
+      )
+      await Promise.all(loads)
+    })
+
+  return manifestRequest
+}
+
+export function getLoadedModels(): LoadedModels {
+  return loadedModels
+}
+
+/**
+ * Listen for models finishing loading, shaped for useSyncExternalStore
+ */
+export function subscribeModels(listener: () => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Scene for a model at a LOD level, or null to use the procedural mesh.
+ * Missing LOD variants fall back to the next more detailed level.
+ */
+export function findModel(models: LoadedModels, key: string, lod = 0): Object3D | null {
+  const levels = models.get(key)
+  if (!levels) return null
+
+  for (let level = Math.min(lod, levels.length - 1); level >= 0; level--) {
+    const scene = levels[level]
+    if (scene) return scene
+  }
+  return null
+}
+
+/**
+ * Collider hint of a model, only once the model itself is in use
+ */
+export function findColliderHint(models: LoadedModels, key: string): ColliderHint | null {
+  if (!findModel(models, key)) return null
+  return manifest[key]?.collider ?? null
+}
+
+export interface InstancedModel {
+  geometry: BufferGeometry
+  material: Material | Material[]
+}
+
+const instancedModels = new WeakMap<Object3D, InstancedModel | null>()
+
+/**
+ * A model's meshes merged into one geometry (one group per material) so
+ * it can be drawn as an InstancedMesh. Null if the meshes can't be merged.
+ */
+export function getInstancedModel(scene: Object3D): InstancedModel | null {
+  const cached = instancedModels.get(scene)
+  if (cached !== undefined) return cached
+
+  const geometries: BufferGeometry[] = []
+  const materials: Material[] = []
+  scene.traverse(object => {
+    if (!(object instanceof Mesh)) return
+    // Multi-material meshes keep their first material
+    materials.push(Array.isArray(object.material) ? object.material[0] : object.material)
+    geometries.push(object.geometry.clone().applyMatrix4(object.matrixWorld))
+  })
+
+  // Merging needs every part indexed or none
+  const parts = geometries.some(geometry => !geometry.index)
+    ? geometries.map(geometry => (geometry.index ? geometry.toNonIndexed() : geometry))
+    : geometries
+
+  const geometry = parts.length > 0 ? mergeGeometries(parts, true) : null
+  new Set([...geometries, ...parts]).forEach(part => part.dispose())
+  const model = geometry ? { geometry, material: materials.length === 1 ? materials[0] : materials } : null
+  if (!model) console.warn('Model meshes could not be merged for instancing, keeping the procedural mesh')
+
+  instancedModels.set(scene, model)
+  return model
+}
@@ -1,12 +1,86 @@
-import { createNoise2D } from 'simplex-noise'
+import { createNoise2D, createNoise3D } from 'simplex-noise'
+import type { NoiseFunction2D, NoiseFunction3D } from 'simplex-noise'
+import { createRandom, hashSeed } from './random'
+import { blendTerrainModifiers, getClimateBiomeWeights } from './biomes'
+import type { BiomeDefinition, BiomeWeight } from './biomes'
+import { getTerrainEditDelta } from './terrainEdits'
+import { createHydrology } from './hydrology'
+import { createRoadNetwork, defaultRoadConfig } from './roads'
+import type { RoadRegion } from './roads'
+import { createSettlementPlanner } from './settlements'
+import type { Settlement } from './settlements'
+import { findStructureSites, getFoundationPad } from './structures'
+import { getStructureType } from './structureTypes'
+import { getHouseSize } from './houses'
+import { CHUNK_SIZE } from './terrainLod'
+
+// Current world seed - every noise function below is derived from it
+let worldSeed = 0
 
 // Initialize multiple noise functions for different purposes
-const terrainNoiseFunc = createNoise2D()
-const grassNoise = createNoise2D()
-const detailNoise = createNoise2D()
+let terrainNoiseFunc: NoiseFunction2D
+let grassNoise: NoiseFunction2D
+let detailNoise: NoiseFunction2D
+let temperatureNoise: NoiseFunction2D
+let moistureNoise: NoiseFunction2D
+let caveNoiseA: NoiseFunction3D
+let caveNoiseB: NoiseFunction3D
+
+// Rivers and lakes are solved from the untouched terrain, region by region
+const hydrology = createHydrology((x, z) => getBaseTerrainHeight(x, z))
+
+// Villages pick flat ground, then level every foundation into the natural terrain
+const settlements = createSettlementPlanner({
+  getSeed: () => worldSeed,
+  sampleHeight: (x, z) => getNaturalTerrainHeight(x, z),
+  sampleWaterLevel: (x, z) => getWaterLevel(x, z),
+  allowsHouses: (x, z) => getStructureType('house').biomes.includes(getBiome(x, z).type),
+  houseRadius: (house) => {
+    const { width, depth } = getHouseSize(house)
+    return Math.hypot(width, depth) / 2
+  },
+  findFoundations: (chunkX, chunkZ) => findStructureSites(worldSeed, chunkX, chunkZ, CHUNK_SIZE)
+    .flatMap(structure => getFoundationPad(structure) ?? []),
+})
+
+// Roads link the structure sites over the leveled terrain, then flatten it
+const roads = createRoadNetwork({
+  sampleHeight: (x, z) => settlements.flatten(x, z, getNaturalTerrainHeight(x, z)),
+  sampleWaterLevel: (x, z) => getWaterLevel(x, z),
+  findSites: (chunkX, chunkZ) => findStructureSites(worldSeed, chunkX, chunkZ, CHUNK_SIZE)
+    .map(({ position }) => ({ x: position.x, z: position.z })),
+})
+
+/**
+ * Rebuild all noise functions from a world seed.
+ * Must be called before any chunk is generated for the new seed.
+ */
+export function setWorldSeed(seed: number) {
+  worldSeed = seed >>> 0
+  terrainNoiseFunc = createNoise2D(createRandom(hashSeed(worldSeed, 1)))
+  grassNoise = createNoise2D(createRandom(hashSeed(worldSeed, 2)))
+  detailNoise = createNoise2D(createRandom(hashSeed(worldSeed, 3)))
+  temperatureNoise = createNoise2D(createRandom(hashSeed(worldSeed, 4)))
+  moistureNoise = createNoise2D(createRandom(hashSeed(worldSeed, 5)))
+  caveNoiseA = createNoise3D(createRandom(hashSeed(worldSeed, 6)))
+  caveNoiseB = createNoise3D(createRandom(hashSeed(worldSeed, 7)))
+  hydrology.clear()
+  settlements.clear()
+  roads.clear()
+}
+
+export function getWorldSeed(): number {
+  return worldSeed
+}
+
+setWorldSeed(worldSeed)
 
 // Export the terrain noise function for use in other components
-export const terrainNoise = terrainNoiseFunc
+export const terrainNoise = (x: number, z: number) => terrainNoiseFunc(x, z)
+
+// Two independent 3D fields - caves run where both are close to zero
+export const caveNoise = (x: number, y: number, z: number): [number, number] =>
+  [caveNoiseA(x, y, z), caveNoiseB(x, y, z)]
 
 export interface TerrainConfig {
   scale: number
@@ -42,10 +116,86 @@ export const defaultGrassConfig: GrassConfig = {
   maxSlope: 1.2,     // Allow grass on steeper slopes
 }
 
+// Active configs - the tuning panel swaps these at runtime
+let terrainConfig = defaultTerrainConfig
+let grassConfig = defaultGrassConfig
+
+/**
+ * Replace the terrain shape config. Loaded chunks have to be regenerated afterwards.
+ */
+export function setTerrainConfig(config: TerrainConfig) {
+  terrainConfig = config
+  // Rivers, lakes and roads follow the terrain shape
+  hydrology.clear()
+  settlements.clear()
+  roads.clear()
+}
+
+export function getTerrainConfig(): TerrainConfig {
+  return terrainConfig
+}
+
+export function setGrassConfig(config: GrassConfig) {
+  grassConfig = config
+}
+
+export function getGrassConfig(): GrassConfig {
+  return grassConfig
+}
+
 /**
- * Generate terrain height using enhanced fractal noise with more variety
+ * Apply grass tuning on top of a biome's grass rules. Scale, density and slope
+ * are scaled and the height limits shifted relative to the defaults, so the
+ * default config leaves every biome unchanged.
  */
-export function getTerrainHeight(x: number, z: number, config = defaultTerrainConfig): number {
+export function applyGrassTuning(config: GrassConfig, tuning = grassConfig): GrassConfig {
+  return {
+    scale: config.scale * (tuning.scale / defaultGrassConfig.scale),
+    density: Math.min(1, config.density * (tuning.density / defaultGrassConfig.density)),
+    minHeight: config.minHeight + (tuning.minHeight - defaultGrassConfig.minHeight),
+    maxHeight: config.maxHeight + (tuning.maxHeight - defaultGrassConfig.maxHeight),
+    maxSlope: config.maxSlope * (tuning.maxSlope / defaultGrassConfig.maxSlope),
+  }
+}
+
+// Climate noise frequency - biomes span a few hundred units
+const CLIMATE_SCALE = 0.0015
+
+/**
+ * Get temperature and moisture (both 0-1) at a world position
+ */
+export function getClimate(x: number, z: number): { temperature: number, moisture: number } {
+  const temperature = temperatureNoise(x * CLIMATE_SCALE, z * CLIMATE_SCALE) * 0.8 +
+    temperatureNoise(x * CLIMATE_SCALE * 4, z * CLIMATE_SCALE * 4) * 0.2
+  const moisture = moistureNoise(x * CLIMATE_SCALE, z * CLIMATE_SCALE) * 0.8 +
+    moistureNoise(x * CLIMATE_SCALE * 4, z * CLIMATE_SCALE * 4) * 0.2
+
+  return {
+    temperature: (temperature + 1) / 2,
+    moisture: (moisture + 1) / 2,
+  }
+}
+
+/**
+ * Get the blended biome weights at a world position, strongest first
+ */
+export function getBiomeWeights(x: number, z: number): BiomeWeight[] {
+  const { temperature, moisture } = getClimate(x, z)
+  return getClimateBiomeWeights(temperature, moisture)
+}
+
+/**
+ * Get the dominant biome at a world position
+ */
+export function getBiome(x: number, z: number): BiomeDefinition {
+  return getBiomeWeights(x, z)[0].biome
+}
+
+/**
+ * Terrain height from noise and biomes only - no rivers or edits
+ */
+export function getBaseTerrainHeight(x: number, z: number, config = terrainConfig): number {
+  const biome = blendTerrainModifiers(getBiomeWeights(x, z))
   let height = 0
   let amplitude = config.amplitude
   let frequency = config.scale
@@ -60,7 +210,7 @@ export function getTerrainHeight(x: number, z: number, config = defaultTerrainCo
   }
 
   // Add fine detail layer for surface variation
-  height += detailNoise(x * 0.1, z * 0.1) * 0.8
+  height += detailNoise(x * 0.1, z * 0.1) * 0.8 * biome.roughness
   
   // Add some ridges and valleys for variety
   const ridgeNoise = Math.abs(terrainNoiseFunc(x * 0.02, z * 0.02)) * 3
@@ -68,7 +218,100 @@ export function getTerrainHeight(x: number, z: number, config = defaultTerrainCo
   
   height += ridgeNoise + valleyNoise
 
-  return height / maxValue
+  return (height / maxValue) * biome.amplitudeScale + biome.heightOffset
+}
+
+/**
+ * Terrain height with river channels cut in - no foundations, roads or edits
+ */
+export function getNaturalTerrainHeight(x: number, z: number, config = terrainConfig): number {
+  return getBaseTerrainHeight(x, z, config) - hydrology.getRiverCarve(x, z)
+}
+
+/**
+ * Terrain height as built and played on - natural shape, foundations, roads and edits
+ */
+export function getTerrainHeight(x: number, z: number, config = terrainConfig): number {
+  // Foundations, then roads, are leveled into the natural shape, craters and mounds sit on top
+  const leveled = settlements.flatten(x, z, getNaturalTerrainHeight(x, z, config))
+  return roads.flatten(x, z, leveled) + getTerrainEditDelta(x, z)
+}
+
+/**
+ * Height of the water surface at a point: lake, river or sea level
+ */
+export function getWaterLevel(x: number, z: number): number {
+  return hydrology.getWaterLevel(x, z)
+}
+
+/**
+ * Check if a point lies in a river channel
+ */
+export function isRiver(x: number, z: number): boolean {
+  return hydrology.isRiver(x, z)
+}
+
+/**
+ * Settlements whose plaza and houses reach into a box
+ */
+export function findSettlements(minX: number, minZ: number, maxX: number, maxZ: number): Settlement[] {
+  return settlements.findSettlements(minX, minZ, maxX, maxZ)
+}
+
+/**
+ * Distance from a point to the nearest road center line, Infinity when no road is near
+ */
+export function getRoadDistance(x: number, z: number): number {
+  return roads.getRoadDistance(x, z)
+}
+
+/**
+ * Check if a point lies on a road, or within margin of its edge
+ */
+export function isOnRoad(x: number, z: number, margin = 0): boolean {
+  return roads.getRoadDistance(x, z) <= defaultRoadConfig.halfWidth + margin
+}
+
+/**
+ * Whether height and road queries may plan missing roads on the spot. The main
+ * thread turns this off and takes its roads from the terrain workers instead;
+ * until they arrive, those places have no road.
+ */
+export function setRoadPlanning(enabled: boolean) {
+  roads.setPlanning(enabled)
+}
+
+/**
+ * Road regions overlapping a box that have not been planned or added yet
+ */
+export function findMissingRoadRegions(minX: number, minZ: number, maxX: number, maxZ: number): [number, number][] {
+  return roads.findMissingRegions(minX, minZ, maxX, maxZ)
+}
+
+export function planRoadRegions(regions: [number, number][]): RoadRegion[] {
+  return roads.planRegions(regions)
+}
+
+export function addRoadRegions(regions: RoadRegion[]) {
+  roads.addRegions(regions)
+}
+
+// Points this far below the ground are in (dry) caves, not in the water above
+const CAVE_DRY_MARGIN = 1
+
+/**
+ * How deep a point is under the water surface, 0 when dry
+ */
+export function getWaterDepth(x: number, y: number, z: number): number {
+  if (y < getTerrainHeight(x, z) - CAVE_DRY_MARGIN) return 0
+  return Math.max(0, getWaterLevel(x, z) - y)
+}
+
+/**
+ * Check if a point is under any water surface
+ */
+export function isUnderwater(x: number, y: number, z: number): boolean {
+  return getWaterDepth(x, y, z) > 0
 }
 
 /**
@@ -78,8 +321,8 @@ export function shouldPlaceGrass(
   x: number, 
   z: number, 
   terrainHeight: number, 
-  terrainSlope: number = 0,
-  config = defaultGrassConfig
+  terrainSlope: number = 0,  // Radians, see getSlopeAngle in worldQuery
+  config = grassConfig
 ): boolean {
   // Check height constraints
   if (terrainHeight < config.minHeight || terrainHeight > config.maxHeight) {
@@ -100,7 +343,7 @@ export function shouldPlaceGrass(
 /**
  * Get grass density at a position (0-1 range)
  */
-export function getGrassDensity(x: number, z: number, config = defaultGrassConfig): number {
+export function getGrassDensity(x: number, z: number, config = grassConfig): number {
   const grassValue = (grassNoise(x * config.scale, z * config.scale) + 1) / 2
   return Math.max(0, Math.min(1, grassValue))
 }
@@ -113,7 +356,7 @@ export function generateTerrainChunk(
   chunkZ: number,
   chunkSize: number,
   resolution: number,
-  config = defaultTerrainConfig
+  config = terrainConfig
 ): Float32Array {
   const vertices: number[] = []
   const stepSize = chunkSize / resolution
@@ -144,10 +387,10 @@ export function generateTerrainIndices(resolution: number): Uint16Array {
       const c = a + resolution + 1
       const d = c + 1
 
-      // First triangle
-      indices.push(a, c, b)
+      // First triangle (counter-clockwise seen from above so faces point up)
+      indices.push(a, b, c)
       // Second triangle  
-      indices.push(b, c, d)
+      indices.push(b, d, c)
     }
   }
 
@@ -157,7 +400,7 @@ export function generateTerrainIndices(resolution: number): Uint16Array {
 /**
  * Generate terrain normals for proper lighting
  */
-export function generateTerrainNormals(vertices: Float32Array, indices: Uint16Array): Float32Array {
+export function generateTerrainNormals(vertices: Float32Array, indices: ArrayLike<number>): Float32Array {
   const normals = new Float32Array(vertices.length)
   
   // Initialize normals to zero
@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { clearPropDamage, damageProp, isPropDestroyed } from './propDamage'
+import { generateChunkProps, getPropDurability } from './props'
+import { carveCrater, clearTerrainEdits } from './terrainEdits'
+import { CHUNK_SIZE } from './terrainLod'
+import { TEST_SEED } from '../test/setup'
+
+const CHUNK_KEY = '0,0'
+
+describe('propDamage', () => {
+  afterEach(() => {
+    clearPropDamage()
+    clearTerrainEdits()
+  })
+
+  it('keeps a destroyed prop destroyed, and only that one, when a crater takes out another prop', () => {
+    const before = generateChunkProps(TEST_SEED, 0, 0, CHUNK_SIZE)
+    const destructible = before.filter(prop => getPropDurability(prop.type))
+    expect(destructible.length).toBeGreaterThan(1)
+
+    const target = destructible[destructible.length - 1]
+    damageProp(CHUNK_KEY, target, getPropDurability(target.type)!.hitPoints)
+    expect(isPropDestroyed(CHUNK_KEY, target)).toBe(true)
+
+    // Swallows the first prop, which used to renumber all the others
+    carveCrater(before[0].position.x, before[0].position.z, 4, 20)
+
+    const after = generateChunkProps(TEST_SEED, 0, 0, CHUNK_SIZE)
+    expect(after.some(prop => prop.id === before[0].id)).toBe(false)
+    const destroyed = after.filter(prop => isPropDestroyed(CHUNK_KEY, prop))
+    expect(destroyed).toEqual([after.find(prop => prop.id === target.id)])
+  })
+})
@@ -0,0 +1,76 @@
+import { getPropDurability } from './props'
+import type { PropInstance } from './props'
+
+/**
+ * Damage taken by props, stored per chunk outside the chunks themselves
+ * so destroyed props stay gone when their chunk unloads and reloads.
+ */
+
+export interface PropDamageEvent {
+  chunkKey: string
+  prop: PropInstance
+  health: number  // Fraction of hit points left
+  destroyed: boolean
+}
+
+// Chunk key -> (prop id -> damage taken). Ids name the prop's spot, so
+// damage stays with the same prop when terrain edits add or remove others
+const damage = new Map<string, Map<number, number>>()
+const listeners = new Set<(event: PropDamageEvent) => void>()
+
+/**
+ * Hit a prop. Returns what happened, or null for props that can't be
+ * damaged (or are already destroyed).
+ */
+export function damageProp(chunkKey: string, prop: PropInstance, amount = 1): PropDamageEvent | null {
+  const durability = getPropDurability(prop.type)
+  if (!durability || isPropDestroyed(chunkKey, prop)) return null
+
+  let chunkDamage = damage.get(chunkKey)
+  if (!chunkDamage) {
+    chunkDamage = new Map()
+    damage.set(chunkKey, chunkDamage)
+  }
+
+  const taken = Math.min(durability.hitPoints, (chunkDamage.get(prop.id) ?? 0) + amount)
+  chunkDamage.set(prop.id, taken)
+
+  const event: PropDamageEvent = {
+    chunkKey,
+    prop,
+    health: 1 - taken / durability.hitPoints,
+    destroyed: taken >= durability.hitPoints,
+  }
+  listeners.forEach(listener => listener(event))
+  return event
+}
+
+export function isPropDestroyed(chunkKey: string, prop: PropInstance): boolean {
+  const durability = getPropDurability(prop.type)
+  return !!durability && (damage.get(chunkKey)?.get(prop.id) ?? 0) >= durability.hitPoints
+}
+
+/**
+ * Listen for every hit on every prop
+ */
+export function subscribePropDamage(listener: (event: PropDamageEvent) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Forget all damage (e.g. when switching to another world)
+ */
+export function clearPropDamage() {
+  damage.clear()
+}
+
+/**
+ * Stored in the userData of each prop's rigid body, so a projectile hit can tell which prop it struck
+ */
+export interface PropTarget {
+  chunkKey: string
+  prop: PropInstance
+}
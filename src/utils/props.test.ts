@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it } from 'vitest'
+import { generateChunkProps } from './props'
+import { carveCrater, clearTerrainEdits } from './terrainEdits'
+import { SURFACE_GRID_STEP } from './worldQuery'
+import { CHUNK_SIZE } from './terrainLod'
+import { TEST_SEED } from '../test/setup'
+
+describe('generateChunkProps', () => {
+  afterEach(() => clearTerrainEdits())
+
+  it('gives every prop its own id', () => {
+    const props = generateChunkProps(TEST_SEED, 0, 0, CHUNK_SIZE)
+    expect(props.length).toBeGreaterThan(0)
+    expect(new Set(props.map(prop => prop.id)).size).toBe(props.length)
+  })
+
+  it('leaves props away from a crater untouched', () => {
+    for (const [chunkX, chunkZ] of [[0, 0], [1, -1], [-2, 3]]) {
+      const before = generateChunkProps(TEST_SEED, chunkX, chunkZ, CHUNK_SIZE)
+      const target = before[Math.floor(before.length / 2)]
+      const radius = 5
+      carveCrater(target.position.x, target.position.z, radius, 8)
+
+      // The crater reaches one grid cell further into the interpolated surface
+      const reach = radius + SURFACE_GRID_STEP * Math.SQRT2
+      const outside = before.filter(prop =>
+        Math.hypot(prop.position.x - target.position.x, prop.position.z - target.position.z) > reach
+      )
+      const after = new Map(generateChunkProps(TEST_SEED, chunkX, chunkZ, CHUNK_SIZE).map(prop => [prop.id, prop]))
+
+      expect(outside.length).toBeGreaterThan(0)
+      for (const prop of outside) {
+        expect(after.get(prop.id)).toEqual(prop)
+      }
+      clearTerrainEdits()
+    }
+  })
+})
@@ -0,0 +1,346 @@
+import {
+  BufferAttribute,
+  BufferGeometry,
+  Color,
+  ConeGeometry,
+  CylinderGeometry,
+  Euler,
+  Matrix4,
+  MeshStandardMaterial,
+  Quaternion,
+  SphereGeometry,
+  Vector3
+} from 'three'
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js'
+import { getBiomeWeights, isOnRoad } from './noise'
+import { blendPropWeights, pickModelType } from './biomes'
+import { createRandom, hashSeed } from './random'
+import type { RandomFn } from './random'
+import { SurfaceType, createSurfacePatch } from './worldQuery'
+import type { ColliderHint } from './modelAssets'
+import { findStructureSites, getStructureRadius } from './structures'
+import { ModelType, ResourceType } from '../types/world'
+
+/**
+ * Trees, rocks, bushes and crystals: deterministic Poisson-disk placement
+ * per chunk, one merged geometry per model type for instanced rendering,
+ * and simple collider shapes.
+ */
+
+export interface PropInstance {
+  id: number  // Index of its spot within the chunk, stable for a world seed and across terrain edits
+  type: ModelType
+  position: Vector3
+  rotation: number
+  scale: number
+  tilt: [number, number]
+}
+
+export interface PropPlacementConfig {
+  spacing: number         // Minimum distance between props, also across chunk borders
+  attempts: number        // Candidates tried around each point before it is retired
+  roadClearance: number   // Keep trunks and boulders this far off the road edge
+  structureClearance: number  // And this far outside houses and dungeons
+}
+
+export const defaultPropPlacementConfig: PropPlacementConfig = {
+  spacing: 8,
+  attempts: 30,
+  roadClearance: 2,
+  structureClearance: 1,
+}
+
+/**
+ * Bridson's Poisson-disk sampling over a width x depth rectangle:
+ * points at least spacing apart, spread evenly without a grid pattern
+ */
+export function poissonDiskSample(
+  width: number,
+  depth: number,
+  spacing: number,
+  random: RandomFn,
+  attempts = defaultPropPlacementConfig.attempts
+): [number, number][] {
+  const cellSize = spacing / Math.SQRT2
+  const columns = Math.ceil(width / cellSize)
+  const rows = Math.ceil(depth / cellSize)
+  const grid = new Int32Array(columns * rows).fill(-1)
+  const points: [number, number][] = []
+  const active: number[] = []
+
+  const add = (x: number, z: number) => {
+    grid[Math.floor(x / cellSize) + Math.floor(z / cellSize) * columns] = points.length
+    active.push(points.length)
+    points.push([x, z])
+  }
+
+  // Only the 5x5 cells around a point can hold a neighbour closer than spacing
+  const isFree = (x: number, z: number) => {
+    const ci = Math.floor(x / cellSize)
+    const cj = Math.floor(z / cellSize)
+    for (let j = Math.max(0, cj - 2); j <= Math.min(rows - 1, cj + 2); j++) {
+      for (let i = Math.max(0, ci - 2); i <= Math.min(columns - 1, ci + 2); i++) {
+        const other = grid[i + j * columns]
+        if (other >= 0 && Math.hypot(points[other][0] - x, points[other][1] - z) < spacing) return false
+      }
+    }
+    return true
+  }
+
+  add(random() * width, random() * depth)
+  while (active.length > 0) {
+    const slot = Math.floor(random() * active.length)
+    const [px, pz] = points[active[slot]]
+    let placed = false
+
+    for (let k = 0; k < attempts; k++) {
+      const angle = random() * Math.PI * 2
+      const distance = spacing * (1 + random())
+      const x = px + Math.cos(angle) * distance
+      const z = pz + Math.sin(angle) * distance
+      if (x < 0 || z < 0 || x >= width || z >= depth || !isFree(x, z)) continue
+
+      add(x, z)
+      placed = true
+      break
+    }
+
+    if (!placed) {
+      active[slot] = active[active.length - 1]
+      active.pop()
+    }
+  }
+
+  return points
+}
+
+/**
+ * Place the props of one chunk. Samples keep half the spacing from the chunk
+ * edges, so neighbouring chunks respect the spacing between each other too.
+ */
+export function generateChunkProps(
+  seed: number,
+  chunkX: number,
+  chunkZ: number,
+  chunkSize: number,
+  config = defaultPropPlacementConfig
+): PropInstance[] {
+  const instances: PropInstance[] = []
+  const random = createRandom(hashSeed(seed, chunkX, chunkZ))
+  const originX = chunkX * chunkSize
+  const originZ = chunkZ * chunkSize
+  const inset = config.spacing / 2
+  const patch = createSurfacePatch(originX, originZ, chunkSize)
+  const samples = poissonDiskSample(chunkSize - inset * 2, chunkSize - inset * 2, config.spacing, random, config.attempts)
+  // Settlement buildings can stand right by a chunk edge, so the neighbours' structures count too
+  const structures = [-1, 0, 1].flatMap(dx => [-1, 0, 1].flatMap(dz =>
+    findStructureSites(seed, chunkX + dx, chunkZ + dz, chunkSize).map(structure => ({
+      position: structure.position,
+      radius: getStructureRadius(structure) + config.structureClearance,
+    }))
+  ))
+
+  for (const [index, [sampleX, sampleZ]] of samples.entries()) {
+    const worldX = originX + inset + sampleX
+    const worldZ = originZ + inset + sampleZ
+
+    // Every draw happens before any check, so a spot turned down (say by a
+    // crater flooding it) leaves the props at the other spots as they were
+    const keep = random()
+    const pick = random()
+    const scale = 0.8 + random() * 0.6 // 0.8 to 1.4 scale
+    const rotation = random() * Math.PI * 2
+    const tilt: [number, number] = [random() * 0.3, random() * 0.3]
+
+    const surface = patch.sample(worldX, worldZ)
+    if (surface.type === SurfaceType.WATER) continue // Keep props out of the water
+    if (isOnRoad(worldX, worldZ, config.roadClearance)) continue // And off the roads
+    if (structures.some(({ position, radius }) => Math.hypot(worldX - position.x, worldZ - position.z) < radius)) continue
+
+    // Choose model type from the blended prop distribution of the local biomes
+    const { props, density } = blendPropWeights(getBiomeWeights(worldX, worldZ))
+    if (keep > density) continue // Sparse biomes skip more spots
+
+    const type = pickModelType(props, pick)
+    if (!type) continue
+
+    instances.push({
+      id: index,
+      type,
+      position: new Vector3(worldX, surface.height, worldZ),
+      scale,
+      rotation,
+      tilt
+    })
+  }
+
+  return instances
+}
+
+interface PropPart {
+  geometry: BufferGeometry
+  color: Color
+  position: [number, number, number]
+  rotation?: [number, number, number]
+}
+
+/**
+ * Upright collision cylinder in model space (before the instance scale)
+ */
+export interface PropCollider {
+  radius: number
+  halfHeight: number
+  centerY: number
+}
+
+/**
+ * What a destructible prop takes to break and what it leaves behind
+ */
+export interface PropDurability {
+  hitPoints: number
+  debrisColor: Color
+  resource: ResourceType
+  drops: [number, number]  // Fewest and most pickups
+}
+
+interface PropModel {
+  parts: () => PropPart[]
+  squash: number          // Vertical scale relative to the horizontal scale
+  lift: number            // Raised this far above the ground
+  tilted: boolean         // Leans by the instance tilt
+  collider?: PropCollider // None = walk-through
+  durability?: PropDurability  // None = can't be destroyed
+  material?: Partial<Pick<MeshStandardMaterial, 'transparent' | 'opacity'>> & { emissive?: Color }
+}
+
+const PROP_MODELS: Record<ModelType, PropModel> = {
+  [ModelType.TREE]: {
+    parts: () => [
+      { geometry: new CylinderGeometry(0.3, 0.4, 3, 8), color: new Color(0.4, 0.2, 0.1), position: [0, 1.5, 0] },
+      { geometry: new ConeGeometry(2, 3, 8), color: new Color(0.1, 0.5, 0.1), position: [0, 4, 0] },
+      { geometry: new ConeGeometry(1.5, 2.5, 8), color: new Color(0.15, 0.6, 0.15), position: [0, 5.5, 0] },
+    ],
+    squash: 1,
+    lift: 0,
+    tilted: false,
+    collider: { radius: 0.4, halfHeight: 1.5, centerY: 1.5 }, // Just the trunk
+    durability: { hitPoints: 4, debrisColor: new Color(0.4, 0.2, 0.1), resource: ResourceType.WOOD, drops: [2, 4] },
+  },
+  [ModelType.ROCK]: {
+    parts: () => [
+      { geometry: new SphereGeometry(1, 8, 6), color: new Color(0.4, 0.4, 0.5), position: [0, 0, 0] },
+    ],
+    squash: 0.6,
+    lift: 0.5,
+    tilted: true,
+    collider: { radius: 0.9, halfHeight: 0.8, centerY: 0 },
+    durability: { hitPoints: 6, debrisColor: new Color(0.4, 0.4, 0.5), resource: ResourceType.STONE, drops: [1, 3] },
+  },
+  [ModelType.BUSH]: {
+    parts: () => [
+      { geometry: new SphereGeometry(1.2, 8, 6), color: new Color(0.1, 0.4, 0.1), position: [0, 0.8, 0] },
+      { geometry: new SphereGeometry(0.8, 8, 6), color: new Color(0.15, 0.5, 0.1), position: [0.5, 0.5, 0.3] },
+      { geometry: new SphereGeometry(0.9, 8, 6), color: new Color(0.12, 0.45, 0.12), position: [-0.3, 0.6, -0.4] },
+    ],
+    squash: 0.7,
+    lift: 0,
+    tilted: false,
+  },
+  [ModelType.CRYSTAL]: {
+    parts: () => [
+      { geometry: new ConeGeometry(0.5, 3, 6), color: new Color(0.7, 0.3, 0.8), position: [0, 1.5, 0] },
+      { geometry: new ConeGeometry(0.3, 2, 6), color: new Color(0.5, 0.3, 0.9), position: [0.8, 1, 0.5], rotation: [0.2, 0.5, 0.1] },
+      { geometry: new ConeGeometry(0.4, 1.8, 6), color: new Color(0.6, 0.2, 0.7), position: [-0.6, 0.8, -0.3], rotation: [-0.1, -0.3, 0.2] },
+    ],
+    squash: 1.5,
+    lift: 0,
+    tilted: false,
+    collider: { radius: 0.6, halfHeight: 1.5, centerY: 1.5 },
+    durability: { hitPoints: 3, debrisColor: new Color(0.7, 0.3, 0.8), resource: ResourceType.CRYSTAL, drops: [1, 2] },
+    material: { transparent: true, opacity: 0.75, emissive: new Color(0.08, 0.03, 0.12) },
+  },
+}
+
+export const PROP_TYPES = Object.keys(PROP_MODELS) as ModelType[]
+
+/**
+ * All parts of a model merged into one vertex-colored geometry
+ */
+export function createPropGeometry(type: ModelType): BufferGeometry {
+  const matrix = new Matrix4()
+  const parts = PROP_MODELS[type].parts().map(({ geometry, color, position, rotation = [0, 0, 0] }) => {
+    geometry.applyMatrix4(matrix.makeRotationFromEuler(new Euler(...rotation)).setPosition(...position))
+
+    const colors = new Float32Array(geometry.getAttribute('position').count * 3)
+    for (let i = 0; i < colors.length; i += 3) {
+      colors[i] = color.r
+      colors[i + 1] = color.g
+      colors[i + 2] = color.b
+    }
+    geometry.setAttribute('color', new BufferAttribute(colors, 3))
+    return geometry
+  })
+
+  const merged = mergeGeometries(parts)
+  parts.forEach(part => part.dispose())
+  return merged
+}
+
+export function createPropMaterial(type: ModelType): MeshStandardMaterial {
+  return new MeshStandardMaterial({ vertexColors: true, ...PROP_MODELS[type].material })
+}
+
+/**
+ * World transform of a placed prop
+ */
+export function getPropMatrix(instance: PropInstance, target = new Matrix4()): Matrix4 {
+  const model = PROP_MODELS[instance.type]
+  const [tiltX, tiltZ] = model.tilted ? instance.tilt : [0, 0]
+
+  return target.compose(
+    new Vector3(instance.position.x, instance.position.y + model.lift, instance.position.z),
+    new Quaternion().setFromEuler(new Euler(tiltX, instance.rotation, tiltZ)),
+    new Vector3(instance.scale, instance.scale * model.squash, instance.scale)
+  )
+}
+
+/**
+ * Collision cylinder of a placed prop in world space, or null for walk-through props.
+ * A glTF model's collider hint replaces the procedural model's cylinder.
+ */
+export function getPropCollider(
+  instance: PropInstance,
+  collider: PropCollider | null | undefined = PROP_MODELS[instance.type].collider
+): { position: Vector3, radius: number, halfHeight: number } | null {
+  const model = PROP_MODELS[instance.type]
+  if (!collider) return null
+
+  const { radius, halfHeight, centerY } = collider
+  const verticalScale = instance.scale * model.squash
+  return {
+    position: new Vector3(
+      instance.position.x,
+      instance.position.y + model.lift + centerY * verticalScale,
+      instance.position.z
+    ),
+    radius: radius * instance.scale,
+    halfHeight: halfHeight * verticalScale,
+  }
+}
+
+/**
+ * Prop collider from a glTF model's hint: null for walk-through,
+ * undefined to keep the procedural one (props only take cylinders)
+ */
+export function getPropColliderFromHint(hint: ColliderHint | null): PropCollider | null | undefined {
+  if (hint?.shape === 'none') return null
+  if (hint?.shape !== 'cylinder') return undefined
+  return { radius: hint.radius, halfHeight: hint.halfHeight, centerY: hint.centerY }
+}
+
+/**
+ * Hit points and drops of a prop type, or null if it can't be destroyed
+ */
+export function getPropDurability(type: ModelType): PropDurability | null {
+  return PROP_MODELS[type].durability ?? null
+}
@@ -0,0 +1,469 @@
+import { CHUNK_SIZE } from './terrainLod'
+
+/**
+ * Road network between generated structures. Structures that are close
+ * enough and have no other structure between them (a relative neighbourhood
+ * graph) are linked by a least-cost path over the terrain, which avoids
+ * steep slopes and water. Paths only depend on their two endpoints, and
+ * regions rasterize every road that passes near them, so roads line up
+ * across chunk borders whatever order chunks load in. Planning is slow, so
+ * the main thread leaves it to the terrain workers and only reads regions
+ * handed back to it.
+ */
+
+export interface RoadConfig {
+  siteChunkSize: number    // Chunk size the site finder works in
+  regionSize: number       // World units per cached region side
+  rasterStep: number       // Spacing of each region's distance-to-road samples
+  maxLinkDistance: number  // Structures further apart stay unconnected
+  pathCellSize: number     // Grid spacing of the pathfinding
+  corridorMargin: number   // How far a road may stray outside the box around its endpoints
+  slopeCost: number        // Extra cost per unit length for the square of the gradient
+  waterCost: number        // Extra cost per unit length through water
+  halfWidth: number        // Flat road surface either side of the center line
+  shoulder: number         // Flattening fades back into the terrain over this distance
+  smoothing: number        // Path points averaged either side for the height profile
+  waterClearance: number   // Fords and causeways stay this far above the water
+}
+
+export const defaultRoadConfig: RoadConfig = {
+  siteChunkSize: CHUNK_SIZE,
+  regionSize: 128,
+  rasterStep: 1,
+  maxLinkDistance: 160,
+  pathCellSize: 4,
+  corridorMargin: 24,
+  slopeCost: 40,
+  waterCost: 20,
+  halfWidth: 2,
+  shoulder: 4,
+  smoothing: 3,
+  waterClearance: 0.3,
+}
+
+/**
+ * Where the network gets its terrain and structure positions from
+ */
+export interface RoadTerrain {
+  sampleHeight: (x: number, z: number) => number  // Must not include the roads themselves
+  sampleWaterLevel: (x: number, z: number) => number
+  findSites: (chunkX: number, chunkZ: number) => RoadSite[]
+}
+
+export interface RoadSite {
+  x: number
+  z: number
+}
+
+// Center line of one road with its surface height at every point
+interface RoadPath {
+  points: Float32Array  // x, z pairs
+  heights: Float32Array
+}
+
+/**
+ * Rasterized roads of one region, plain data so workers can post it
+ */
+export interface RoadRegion {
+  regionX: number
+  regionZ: number
+  distance: Float32Array  // Distance to the nearest road center line, capped at the influence radius
+  height: Float32Array    // Road surface height at the nearest center line point
+}
+
+const NEIGHBOURS = [
+  [-1, -1], [0, -1], [1, -1],
+  [-1, 0], [1, 0],
+  [-1, 1], [0, 1], [1, 1],
+]
+
+// Corner cutting passes that round off the grid path
+const CHAIKIN_ITERATIONS = 2
+
+/**
+ * Least-cost path between two sites on a grid confined to their corridor
+ */
+export function findRoadPath(
+  start: RoadSite,
+  end: RoadSite,
+  terrain: RoadTerrain,
+  config = defaultRoadConfig
+): RoadPath {
+  const { pathCellSize: cell, corridorMargin: margin } = config
+  const originX = Math.floor((Math.min(start.x, end.x) - margin) / cell)
+  const originZ = Math.floor((Math.min(start.z, end.z) - margin) / cell)
+  const sizeX = Math.ceil((Math.max(start.x, end.x) + margin) / cell) - originX + 1
+  const sizeZ = Math.ceil((Math.max(start.z, end.z) + margin) / cell) - originZ + 1
+  const cellCount = sizeX * sizeZ
+
+  const heights = new Float32Array(cellCount)
+  const wet = new Uint8Array(cellCount)
+  for (let j = 0; j < sizeZ; j++) {
+    for (let i = 0; i < sizeX; i++) {
+      const x = (originX + i) * cell
+      const z = (originZ + j) * cell
+      const height = terrain.sampleHeight(x, z)
+      heights[i + j * sizeX] = height
+      wet[i + j * sizeX] = terrain.sampleWaterLevel(x, z) > height ? 1 : 0
+    }
+  }
+
+  const toCell = (site: RoadSite) =>
+    Math.round(site.x / cell - originX) + Math.round(site.z / cell - originZ) * sizeX
+  const startCell = toCell(start)
+  const endCell = toCell(end)
+  const endI = endCell % sizeX
+  const endJ = (endCell - endI) / sizeX
+
+  // A* with a binary heap of (estimated total cost, cell). Improved cells are
+  // pushed again and stale entries skipped, so keys never change in place.
+  const cost = new Float32Array(cellCount).fill(Infinity)
+  const parent = new Int32Array(cellCount).fill(-1)
+  const closed = new Uint8Array(cellCount)
+  const heap: number[] = []
+  const keys: number[] = []
+
+  const swap = (a: number, b: number) => {
+    ;[heap[a], heap[b]] = [heap[b], heap[a]]
+    ;[keys[a], keys[b]] = [keys[b], keys[a]]
+  }
+  const push = (node: number, key: number) => {
+    heap.push(node)
+    keys.push(key)
+    let k = heap.length - 1
+    while (k > 0) {
+      const up = (k - 1) >> 1
+      if (keys[up] <= keys[k]) break
+      swap(up, k)
+      k = up
+    }
+  }
+  const pop = (): number => {
+    const top = heap[0]
+    const last = heap.length - 1
+    swap(0, last)
+    heap.pop()
+    keys.pop()
+    let k = 0
+    for (;;) {
+      const left = k * 2 + 1
+      const right = left + 1
+      let smallest = k
+      if (left < heap.length && keys[left] < keys[smallest]) smallest = left
+      if (right < heap.length && keys[right] < keys[smallest]) smallest = right
+      if (smallest === k) break
+      swap(smallest, k)
+      k = smallest
+    }
+    return top
+  }
+
+  cost[startCell] = 0
+  push(startCell, 0)
+  while (heap.length > 0) {
+    const node = pop()
+    if (node === endCell) break
+    if (closed[node]) continue
+    closed[node] = 1
+
+    const ni = node % sizeX
+    const nj = (node - ni) / sizeX
+    for (const [di, dj] of NEIGHBOURS) {
+      const i = ni + di
+      const j = nj + dj
+      if (i < 0 || j < 0 || i >= sizeX || j >= sizeZ) continue
+
+      const next = i + j * sizeX
+      if (closed[next]) continue
+
+      const length = Math.hypot(di, dj) * cell
+      const gradient = (heights[next] - heights[node]) / length
+      const stepCost = length * (1 + config.slopeCost * gradient * gradient + (wet[next] ? config.waterCost : 0))
+      if (cost[node] + stepCost >= cost[next]) continue
+
+      cost[next] = cost[node] + stepCost
+      parent[next] = node
+      push(next, cost[next] + Math.hypot(i - endI, j - endJ) * cell)
+    }
+  }
+
+  // Walk back from the end, then pin the exact endpoints
+  let points: number[] = [end.x, end.z]
+  for (let node = parent[endCell]; node >= 0 && node !== startCell; node = parent[node]) {
+    const i = node % sizeX
+    points.push((originX + i) * cell, (originZ + (node - i) / sizeX) * cell)
+  }
+  points.push(start.x, start.z)
+
+  for (let iteration = 0; iteration < CHAIKIN_ITERATIONS; iteration++) {
+    const smoothed = [points[0], points[1]]
+    for (let k = 0; k < points.length - 2; k += 2) {
+      const [ax, az, bx, bz] = [points[k], points[k + 1], points[k + 2], points[k + 3]]
+      smoothed.push(ax * 0.75 + bx * 0.25, az * 0.75 + bz * 0.25, ax * 0.25 + bx * 0.75, az * 0.25 + bz * 0.75)
+    }
+    smoothed.push(points[points.length - 2], points[points.length - 1])
+    points = smoothed
+  }
+
+  return {
+    points: new Float32Array(points),
+    heights: getRoadProfile(points, terrain, config),
+  }
+}
+
+/**
+ * Surface height along a path: the terrain averaged so the road doesn't
+ * follow every bump, and kept above any water it crosses
+ */
+function getRoadProfile(points: number[], terrain: RoadTerrain, config: RoadConfig): Float32Array {
+  const count = points.length / 2
+  const ground = new Float32Array(count)
+  const minimum = new Float32Array(count)
+  for (let k = 0; k < count; k++) {
+    const x = points[k * 2]
+    const z = points[k * 2 + 1]
+    minimum[k] = terrain.sampleWaterLevel(x, z) + config.waterClearance
+    ground[k] = Math.max(terrain.sampleHeight(x, z), minimum[k])
+  }
+
+  const heights = new Float32Array(count)
+  for (let k = 0; k < count; k++) {
+    const first = Math.max(0, k - config.smoothing)
+    const last = Math.min(count - 1, k + config.smoothing)
+    let sum = 0
+    for (let n = first; n <= last; n++) sum += ground[n]
+    heights[k] = Math.max(sum / (last - first + 1), minimum[k])
+  }
+
+  return heights
+}
+
+export interface RoadNetwork {
+  flatten: (x: number, z: number, height: number) => number
+  getRoadDistance: (x: number, z: number) => number
+  findMissingRegions: (minX: number, minZ: number, maxX: number, maxZ: number) => [number, number][]
+  planRegions: (regions: [number, number][]) => RoadRegion[]  // Always plans, whatever setPlanning says
+  addRegions: (regions: RoadRegion[]) => void
+  setPlanning: (enabled: boolean) => void  // Off leaves regions nobody added without roads
+  clear: () => void
+}
+
+/**
+ * Lazily link sites, find and cache road paths, and rasterize them per region.
+ * With planning off, regions only come from addRegions.
+ */
+export function createRoadNetwork(terrain: RoadTerrain, config = defaultRoadConfig): RoadNetwork {
+  const regions = new Map<string, RoadRegion>()
+  const paths = new Map<string, RoadPath>()
+  const sites = new Map<string, RoadSite[]>()
+  const { regionSize, rasterStep, halfWidth, shoulder, maxLinkDistance } = config
+  const influence = halfWidth + shoulder
+  const samples = regionSize / rasterStep + 1
+  let planning = true
+
+  const getChunkSites = (chunkX: number, chunkZ: number) => {
+    const key = `${chunkX},${chunkZ}`
+    let chunkSites = sites.get(key)
+    if (!chunkSites) {
+      chunkSites = terrain.findSites(chunkX, chunkZ)
+      sites.set(key, chunkSites)
+    }
+    return chunkSites
+  }
+
+  // Every site inside a world-space box
+  const findSitesInBox = (minX: number, minZ: number, maxX: number, maxZ: number) => {
+    const found: RoadSite[] = []
+    const size = config.siteChunkSize
+    // Sites may sit up to half a chunk outside their own chunk
+    for (let cx = Math.floor(minX / size) - 1; cx <= Math.floor(maxX / size) + 1; cx++) {
+      for (let cz = Math.floor(minZ / size) - 1; cz <= Math.floor(maxZ / size) + 1; cz++) {
+        for (const site of getChunkSites(cx, cz)) {
+          if (site.x >= minX && site.x <= maxX && site.z >= minZ && site.z <= maxZ) {
+            found.push(site)
+          }
+        }
+      }
+    }
+    return found
+  }
+
+  const getPath = (a: RoadSite, b: RoadSite) => {
+    // Same path whichever end asks first
+    const [start, end] = a.x < b.x || (a.x === b.x && a.z < b.z) ? [a, b] : [b, a]
+    const key = `${start.x},${start.z}>${end.x},${end.z}`
+    let path = paths.get(key)
+    if (!path) {
+      path = findRoadPath(start, end, terrain, config)
+      paths.set(key, path)
+    }
+    return path
+  }
+
+  const computeRegion = (regionX: number, regionZ: number): RoadRegion => {
+    const minX = regionX * regionSize
+    const minZ = regionZ * regionSize
+    const maxX = minX + regionSize
+    const maxZ = minZ + regionSize
+
+    // Roads stay inside their corridor, so only endpoints this close can matter,
+    // and only sites within one link of those can block a link
+    const reach = influence + config.corridorMargin
+    const endpoints = findSitesInBox(
+      minX - reach - maxLinkDistance, minZ - reach - maxLinkDistance,
+      maxX + reach + maxLinkDistance, maxZ + reach + maxLinkDistance
+    )
+    const blockers = findSitesInBox(
+      minX - reach - maxLinkDistance * 2, minZ - reach - maxLinkDistance * 2,
+      maxX + reach + maxLinkDistance * 2, maxZ + reach + maxLinkDistance * 2
+    )
+
+    const region: RoadRegion = {
+      regionX,
+      regionZ,
+      distance: new Float32Array(samples * samples).fill(influence),
+      height: new Float32Array(samples * samples),
+    }
+
+    for (let a = 0; a < endpoints.length; a++) {
+      for (let b = a + 1; b < endpoints.length; b++) {
+        const start = endpoints[a]
+        const end = endpoints[b]
+        const length = Math.hypot(end.x - start.x, end.z - start.z)
+        if (length > maxLinkDistance) continue
+
+        // Corridor must reach the region
+        if (Math.min(start.x, end.x) - reach > maxX || Math.max(start.x, end.x) + reach < minX) continue
+        if (Math.min(start.z, end.z) - reach > maxZ || Math.max(start.z, end.z) + reach < minZ) continue
+
+        // Relative neighbourhood: skip links with a site closer to both ends
+        const blocked = blockers.some(site =>
+          site !== start && site !== end &&
+          Math.hypot(site.x - start.x, site.z - start.z) < length &&
+          Math.hypot(site.x - end.x, site.z - end.z) < length
+        )
+        if (blocked) continue
+
+        rasterizePath(getPath(start, end), region, minX, minZ)
+      }
+    }
+
+    return region
+  }
+
+  // Record the distance to (and height of) the nearest center line around every segment
+  const rasterizePath = ({ points, heights }: RoadPath, region: RoadRegion, originX: number, originZ: number) => {
+    for (let k = 0; k < heights.length - 1; k++) {
+      const ax = points[k * 2]
+      const az = points[k * 2 + 1]
+      const bx = points[k * 2 + 2]
+      const bz = points[k * 2 + 3]
+      const dx = bx - ax
+      const dz = bz - az
+      const lengthSq = dx * dx + dz * dz
+
+      const minI = Math.max(0, Math.floor((Math.min(ax, bx) - influence - originX) / rasterStep))
+      const maxI = Math.min(samples - 1, Math.ceil((Math.max(ax, bx) + influence - originX) / rasterStep))
+      const minJ = Math.max(0, Math.floor((Math.min(az, bz) - influence - originZ) / rasterStep))
+      const maxJ = Math.min(samples - 1, Math.ceil((Math.max(az, bz) + influence - originZ) / rasterStep))
+
+      for (let j = minJ; j <= maxJ; j++) {
+        for (let i = minI; i <= maxI; i++) {
+          const x = originX + i * rasterStep
+          const z = originZ + j * rasterStep
+          const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((x - ax) * dx + (z - az) * dz) / lengthSq)) : 0
+          const distance = Math.hypot(x - ax - dx * t, z - az - dz * t)
+          const index = i + j * samples
+          if (distance < region.distance[index]) {
+            region.distance[index] = distance
+            region.height[index] = heights[k] + (heights[k + 1] - heights[k]) * t
+          }
+        }
+      }
+    }
+  }
+
+  const planRegion = (regionX: number, regionZ: number) => {
+    const key = `${regionX},${regionZ}`
+    let region = regions.get(key)
+    if (!region) {
+      region = computeRegion(regionX, regionZ)
+      regions.set(key, region)
+    }
+    return region
+  }
+
+  // Four surrounding raster samples and bilinear weights, or null for a region
+  // that is not planned yet. Regions include their far edge, so all four always
+  // come from the same region.
+  const getCorners = (x: number, z: number) => {
+    const regionX = Math.floor(x / regionSize)
+    const regionZ = Math.floor(z / regionSize)
+    const region = planning ? planRegion(regionX, regionZ) : regions.get(`${regionX},${regionZ}`)
+    if (!region) return null
+    const fx = (x - regionX * regionSize) / rasterStep
+    const fz = (z - regionZ * regionSize) / rasterStep
+    const i = Math.min(Math.floor(fx), samples - 2)
+    const j = Math.min(Math.floor(fz), samples - 2)
+    const tx = fx - i
+    const tz = fz - j
+    const index = i + j * samples
+
+    return [
+      { region, index, weight: (1 - tx) * (1 - tz) },
+      { region, index: index + 1, weight: tx * (1 - tz) },
+      { region, index: index + samples, weight: (1 - tx) * tz },
+      { region, index: index + samples + 1, weight: tx * tz },
+    ]
+  }
+
+  // How strongly the road pulls the ground to its own height
+  const flattenWeight = (distance: number) => {
+    if (distance <= halfWidth) return 1
+    const t = Math.min(1, (distance - halfWidth) / shoulder)
+    return 1 - t * t * (3 - 2 * t)
+  }
+
+  return {
+    flatten: (x, z, height) => getCorners(x, z)?.reduce(
+      (result, { region, index, weight }) =>
+        result + weight * flattenWeight(region.distance[index]) * (region.height[index] - height),
+      height
+    ) ?? height,
+
+    getRoadDistance: (x, z) => {
+      const distance = getCorners(x, z)
+        ?.reduce((sum, { region, index, weight }) => sum + region.distance[index] * weight, 0) ?? influence
+      return distance < influence ? distance : Infinity
+    },
+
+    findMissingRegions: (minX, minZ, maxX, maxZ) => {
+      const missing: [number, number][] = []
+      for (let regionX = Math.floor(minX / regionSize); regionX <= Math.floor(maxX / regionSize); regionX++) {
+        for (let regionZ = Math.floor(minZ / regionSize); regionZ <= Math.floor(maxZ / regionSize); regionZ++) {
+          if (!regions.has(`${regionX},${regionZ}`)) missing.push([regionX, regionZ])
+        }
+      }
+      return missing
+    },
+
+    planRegions: coordinates => coordinates.map(([regionX, regionZ]) => planRegion(regionX, regionZ)),
+
+    addRegions: added => {
+      for (const region of added) {
+        const key = `${region.regionX},${region.regionZ}`
+        if (!regions.has(key)) regions.set(key, region)
+      }
+    },
+
+    setPlanning: enabled => {
+      planning = enabled
+    },
+
+    clear: () => {
+      regions.clear()
+      paths.clear()
+      sites.clear()
+    },
+  }
+}
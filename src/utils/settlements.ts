@@ -0,0 +1,283 @@
+import { createRandom, hashSeed } from './random'
+import { CHUNK_SIZE } from './terrainLod'
+
+/**
+ * Villages: a few houses facing a plaza with a well, on flat dry ground.
+ * Sites come from a coarse world grid, independent of chunks, so a village
+ * straddling chunk borders is laid out the same from every chunk. Every
+ * building's foundation, and each plaza, is leveled into the terrain
+ * through a blend mask that fades back into the natural ground around it.
+ */
+
+export interface SettlementConfig {
+  cellSize: number               // World units per candidate cell, at most one settlement in each
+  chance: number                 // Chance a cell has a settlement
+  candidates: number             // Sites tried per cell before giving up
+  siteRadius: number             // Ground checked around a site, also keeps other structures away
+  maxRelief: number              // Highest minus lowest ground across the site
+  minHouses: number
+  maxHouses: number
+  plazaRadius: number
+  ringRadius: [number, number]   // Distance of house centers from the plaza center
+  houseSpacing: number           // Gap kept between neighbouring houses
+  footprintMargin: number        // Flat apron around each foundation
+  blendDistance: number          // Foundations fade into the terrain over this distance
+  padChunkSize: number           // Chunk size the foundation finder works in
+}
+
+export const defaultSettlementConfig: SettlementConfig = {
+  cellSize: 320,
+  chance: 0.5,
+  candidates: 4,
+  siteRadius: 32,
+  maxRelief: 4,
+  minHouses: 4,
+  maxHouses: 7,
+  plazaRadius: 5,
+  ringRadius: [13, 24],
+  houseSpacing: 2,
+  footprintMargin: 1,
+  blendDistance: 6,
+  padChunkSize: CHUNK_SIZE,
+}
+
+export interface SettlementHouse {
+  x: number
+  z: number
+  rotation: number  // Door faces the plaza
+  scale: number
+  variant: number
+}
+
+export interface Settlement {
+  x: number         // Plaza center
+  z: number
+  height: number    // Every foundation and the plaza sit at this level
+  radius: number    // Covers the plaza and every house
+  houses: SettlementHouse[]
+}
+
+/**
+ * Ground leveled to a height: a rounded rectangle (a disc when the corner
+ * radius is the half size) in its own rotated frame
+ */
+export interface FoundationPad {
+  x: number
+  z: number
+  rotation: number
+  halfSize: [number, number]
+  cornerRadius: number
+  height: number
+}
+
+/**
+ * Where the planner gets its terrain and buildings from
+ */
+export interface SettlementTerrain {
+  getSeed: () => number
+  sampleHeight: (x: number, z: number) => number  // Natural ground, must not include the flattening
+  sampleWaterLevel: (x: number, z: number) => number
+  allowsHouses: (x: number, z: number) => boolean
+  houseRadius: (house: SettlementHouse) => number  // Footprint's bounding circle
+  findFoundations: (chunkX: number, chunkZ: number) => FoundationPad[]
+}
+
+export interface SettlementPlanner {
+  getSettlement: (cellX: number, cellZ: number) => Settlement | null
+  findSettlements: (minX: number, minZ: number, maxX: number, maxZ: number) => Settlement[]
+  flatten: (x: number, z: number, height: number) => number
+  clear: () => void
+}
+
+// Separate random stream from the chunk structures
+const SETTLEMENT_SEED_SALT = 11
+const RELIEF_RINGS = [0.5, 1]
+const RELIEF_DIRECTIONS = 8
+
+// Signed distance to a pad's edge, negative inside
+function padDistance(pad: FoundationPad, x: number, z: number): number {
+  const cos = Math.cos(pad.rotation)
+  const sin = Math.sin(pad.rotation)
+  const dx = x - pad.x
+  const dz = z - pad.z
+  const r = pad.cornerRadius
+  const qx = Math.abs(dx * cos - dz * sin) - pad.halfSize[0] + r
+  const qz = Math.abs(dx * sin + dz * cos) - pad.halfSize[1] + r
+  return Math.hypot(Math.max(qx, 0), Math.max(qz, 0)) + Math.min(Math.max(qx, qz), 0) - r
+}
+
+/**
+ * Lazily pick settlement sites, lay out their houses and level their ground
+ */
+export function createSettlementPlanner(terrain: SettlementTerrain, config = defaultSettlementConfig): SettlementPlanner {
+  const settlements = new Map<string, Settlement | null>()
+  const foundations = new Map<string, FoundationPad[]>()
+  const padCells = new Map<string, FoundationPad[]>()
+  const { cellSize, siteRadius, padChunkSize, blendDistance } = config
+
+  // Flat, dry, house-friendly ground all around, at its average height
+  const surveySite = (x: number, z: number): number | null => {
+    if (!terrain.allowsHouses(x, z)) return null
+
+    const heights: number[] = []
+    const samples: [number, number][] = [[x, z]]
+    RELIEF_RINGS.forEach(ring => {
+      for (let k = 0; k < RELIEF_DIRECTIONS; k++) {
+        const angle = (k / RELIEF_DIRECTIONS) * Math.PI * 2
+        samples.push([x + Math.cos(angle) * siteRadius * ring, z + Math.sin(angle) * siteRadius * ring])
+      }
+    })
+    for (const [sx, sz] of samples) {
+      const height = terrain.sampleHeight(sx, sz)
+      if (terrain.sampleWaterLevel(sx, sz) > height - 0.5) return null
+      heights.push(height)
+    }
+
+    if (Math.max(...heights) - Math.min(...heights) > config.maxRelief) return null
+    return heights.reduce((sum, height) => sum + height, 0) / heights.length
+  }
+
+  // Houses spread around the plaza, each turned to face it
+  const layOutHouses = (x: number, z: number, random: () => number): SettlementHouse[] => {
+    const count = config.minHouses + Math.floor(random() * (config.maxHouses - config.minHouses + 1))
+    const [innerRing, outerRing] = config.ringRadius
+    const start = random() * Math.PI * 2
+    const houses: SettlementHouse[] = []
+
+    for (let i = 0; i < count; i++) {
+      const angle = start + (i / count) * Math.PI * 2 + (random() - 0.5) * (Math.PI / count)
+      const distance = innerRing + random() * (outerRing - innerRing)
+      const house: SettlementHouse = {
+        x: x + Math.cos(angle) * distance,
+        z: z + Math.sin(angle) * distance,
+        rotation: Math.atan2(-Math.cos(angle), -Math.sin(angle)),
+        scale: 0.8 + random() * 0.4,
+        variant: Math.floor(random() * 3),
+      }
+
+      const radius = terrain.houseRadius(house)
+      const clearOfPlaza = distance >= config.plazaRadius + radius + config.houseSpacing
+      const clearOfHouses = houses.every(other =>
+        Math.hypot(other.x - house.x, other.z - house.z) >= radius + terrain.houseRadius(other) + config.houseSpacing
+      )
+      if (clearOfPlaza && clearOfHouses) houses.push(house)
+    }
+
+    return houses
+  }
+
+  const getSettlement = (cellX: number, cellZ: number): Settlement | null => {
+    const key = `${cellX},${cellZ}`
+    const cached = settlements.get(key)
+    if (cached !== undefined) return cached
+
+    const random = createRandom(hashSeed(terrain.getSeed(), cellX, cellZ, SETTLEMENT_SEED_SALT))
+    let settlement: Settlement | null = null
+
+    if (random() < config.chance) {
+      for (let attempt = 0; attempt < config.candidates && !settlement; attempt++) {
+        // Keep the whole site inside its cell so neighbouring settlements never overlap
+        const inset = siteRadius + config.ringRadius[1]
+        const x = cellX * cellSize + inset + random() * (cellSize - inset * 2)
+        const z = cellZ * cellSize + inset + random() * (cellSize - inset * 2)
+
+        const height = surveySite(x, z)
+        if (height === null) continue
+
+        const houses = layOutHouses(x, z, random)
+        if (houses.length < config.minHouses) continue
+
+        const radius = Math.max(...houses.map(house =>
+          Math.hypot(house.x - x, house.z - z) + terrain.houseRadius(house)
+        ))
+        settlement = { x, z, height, radius, houses }
+      }
+    }
+
+    settlements.set(key, settlement)
+    return settlement
+  }
+
+  const findSettlements = (minX: number, minZ: number, maxX: number, maxZ: number) => {
+    const found: Settlement[] = []
+    for (let cellX = Math.floor(minX / cellSize); cellX <= Math.floor(maxX / cellSize); cellX++) {
+      for (let cellZ = Math.floor(minZ / cellSize); cellZ <= Math.floor(maxZ / cellSize); cellZ++) {
+        const settlement = getSettlement(cellX, cellZ)
+        if (!settlement) continue
+        const { x, z, radius } = settlement
+        if (x + radius >= minX && x - radius <= maxX && z + radius >= minZ && z - radius <= maxZ) {
+          found.push(settlement)
+        }
+      }
+    }
+    return found
+  }
+
+  const getFoundations = (chunkX: number, chunkZ: number) => {
+    const key = `${chunkX},${chunkZ}`
+    let pads = foundations.get(key)
+    if (!pads) {
+      pads = terrain.findFoundations(chunkX, chunkZ)
+      foundations.set(key, pads)
+    }
+    return pads
+  }
+
+  // Pads that can reach into the square of ground nearest a chunk corner. Buildings
+  // stand within half a chunk of their chunk's corner, so the chunks around it hold them all.
+  const getPadCell = (cellX: number, cellZ: number) => {
+    const key = `${cellX},${cellZ}`
+    let pads = padCells.get(key)
+    if (!pads) {
+      pads = []
+      const half = padChunkSize / 2
+      for (let chunkX = cellX - 1; chunkX <= cellX + 1; chunkX++) {
+        for (let chunkZ = cellZ - 1; chunkZ <= cellZ + 1; chunkZ++) {
+          for (const pad of getFoundations(chunkX, chunkZ)) {
+            const reach = Math.hypot(pad.halfSize[0], pad.halfSize[1]) + blendDistance
+            if (Math.abs(pad.x - cellX * padChunkSize) > half + reach) continue
+            if (Math.abs(pad.z - cellZ * padChunkSize) > half + reach) continue
+            pads.push(pad)
+          }
+        }
+      }
+      padCells.set(key, pads)
+    }
+    return pads
+  }
+
+  // Pull the ground toward nearby pads. Overlapping pads blend by weight,
+  // so the result stays continuous even where their heights differ.
+  const flatten = (x: number, z: number, height: number) => {
+    const pads = getPadCell(Math.round(x / padChunkSize), Math.round(z / padChunkSize))
+    let strongest = 0
+    let totalWeight = 0
+    let weightedHeight = 0
+
+    for (const pad of pads) {
+      const reach = Math.max(pad.halfSize[0], pad.halfSize[1]) * Math.SQRT2 + blendDistance
+      if (Math.abs(x - pad.x) > reach || Math.abs(z - pad.z) > reach) continue
+      const distance = padDistance(pad, x, z)
+      if (distance >= blendDistance) continue
+      const t = Math.max(0, distance / blendDistance)
+      const weight = 1 - t * t * (3 - 2 * t)
+      strongest = Math.max(strongest, weight)
+      totalWeight += weight
+      weightedHeight += weight * pad.height
+    }
+
+    if (totalWeight === 0) return height
+    return height + strongest * (weightedHeight / totalWeight - height)
+  }
+
+  return {
+    getSettlement,
+    findSettlements,
+    flatten,
+    clear: () => {
+      settlements.clear()
+      foundations.clear()
+      padCells.clear()
+    },
+  }
+}
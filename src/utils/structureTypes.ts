@@ -0,0 +1,188 @@
+import { BiomeType } from './biomes'
+import { getHouseSize } from './houses'
+import { defaultSettlementConfig } from './settlements'
+import type { Structure } from './structures'
+import type { StructureType } from '../types/world'
+
+/**
+ * Registry of structure types and the rules for where they may stand.
+ * Scattered sites pick among the types that fit by rarity, so a new type
+ * only needs a definition here and a component in structureComponents.
+ * Register at module load, in code the terrain workers import too, or
+ * their leveled ground will disagree with the main thread's.
+ */
+
+export interface StructureFootprint {
+  halfSize: [number, number]  // Along the structure's local x and z
+  round: boolean              // A disc of radius halfSize[0] instead of a box
+}
+
+export interface StructureTypeDefinition {
+  type: StructureType
+  rarity: number              // Relative weight among the types that fit a site, 0 for never scattered
+  biomes: BiomeType[]
+  height: [number, number]    // Natural ground height at the site
+  slope: [number, number]     // Ground slope at the site, radians
+  noise: [number, number]     // Placement noise at the site, -1 to 1
+  minSpacing: number          // From any other scattered structure's center
+  footprint: (structure: Pick<Structure, 'variant' | 'scale'>) => StructureFootprint
+  levelsGround: boolean       // Flatten a foundation pad under the footprint
+}
+
+/**
+ * What a candidate site looks like to the placement rules
+ */
+export interface StructureSiteInfo {
+  biome: BiomeType
+  height: number
+  slope: number
+  noise: number
+}
+
+const ALL_BIOMES = Object.values(BiomeType)
+
+const structureTypes = new Map<StructureType, StructureTypeDefinition>()
+
+/**
+ * Add a structure type, or replace the definition of an existing one
+ */
+export function registerStructureType(definition: StructureTypeDefinition) {
+  structureTypes.set(definition.type, definition)
+}
+
+export function getStructureType(type: StructureType): StructureTypeDefinition {
+  const definition = structureTypes.get(type)
+  if (!definition) throw new Error(`Unknown structure type ${type}`)
+  return definition
+}
+
+/**
+ * Every registered type, in registration order
+ */
+export function getStructureTypes(): StructureTypeDefinition[] {
+  return [...structureTypes.values()]
+}
+
+export function fitsStructureSite(definition: StructureTypeDefinition, site: StructureSiteInfo): boolean {
+  const inRange = (value: number, [min, max]: [number, number]) => value >= min && value <= max
+  return definition.rarity > 0 &&
+    definition.biomes.includes(site.biome) &&
+    inRange(site.height, definition.height) &&
+    inRange(site.slope, definition.slope) &&
+    inRange(site.noise, definition.noise)
+}
+
+/**
+ * Weighted pick among the types that fit a site. The roll (0-1) comes from
+ * the site's seed, so the choice is deterministic.
+ */
+export function pickStructureType(site: StructureSiteInfo, roll: number): StructureTypeDefinition | null {
+  const candidates = getStructureTypes().filter(definition => fitsStructureSite(definition, site))
+  const total = candidates.reduce((sum, definition) => sum + definition.rarity, 0)
+
+  let remaining = roll * total
+  for (const definition of candidates) {
+    remaining -= definition.rarity
+    if (remaining < 0) return definition
+  }
+  return candidates[candidates.length - 1] ?? null
+}
+
+/**
+ * Distance from a structure's position that its footprint covers
+ */
+export function getFootprintRadius(footprint: StructureFootprint): number {
+  const [halfWidth, halfDepth] = footprint.halfSize
+  return footprint.round ? halfWidth : Math.hypot(halfWidth, halfDepth)
+}
+
+const box = (width: number, depth: number): StructureFootprint => ({ halfSize: [width / 2, depth / 2], round: false })
+const disc = (radius: number): StructureFootprint => ({ halfSize: [radius, radius], round: true })
+
+registerStructureType({
+  type: 'house',
+  rarity: 4,
+  biomes: [BiomeType.FOREST, BiomeType.PLAINS],
+  height: [-Infinity, 24],
+  slope: [0, 0.35],
+  noise: [-0.5, 0.5],
+  minSpacing: 12,
+  footprint: structure => {
+    const { width, depth } = getHouseSize(structure)
+    return box(width, depth)
+  },
+  levelsGround: true,
+})
+
+registerStructureType({
+  type: 'dungeon',
+  rarity: 2,
+  biomes: [BiomeType.FOREST, BiomeType.DESERT, BiomeType.TUNDRA, BiomeType.ALPINE],
+  height: [-Infinity, Infinity],
+  slope: [0, 0.35],
+  noise: [-0.5, 0.5],
+  minSpacing: 48,                // The levels below are 48 units across
+  footprint: () => disc(14),     // Around the mouth, covers the ramp down to the first level
+  levelsGround: false,
+})
+
+// Only ever placed by settlements, in their plaza
+registerStructureType({
+  type: 'well',
+  rarity: 0,
+  biomes: ALL_BIOMES,
+  height: [-Infinity, Infinity],
+  slope: [0, Infinity],
+  noise: [-1, 1],
+  minSpacing: 0,
+  footprint: () => disc(defaultSettlementConfig.plazaRadius),
+  levelsGround: true,
+})
+
+registerStructureType({
+  type: 'watchtower',
+  rarity: 2,
+  biomes: [BiomeType.FOREST, BiomeType.PLAINS, BiomeType.TUNDRA, BiomeType.ALPINE],
+  height: [1.5, Infinity],       // Overlooks the land from high ground
+  slope: [0, 0.45],
+  noise: [-0.6, 0.6],
+  minSpacing: 40,
+  footprint: structure => box(3.2 * structure.scale, 3.2 * structure.scale),
+  levelsGround: true,
+})
+
+registerStructureType({
+  type: 'ruin',
+  rarity: 1,
+  biomes: [BiomeType.FOREST, BiomeType.PLAINS, BiomeType.DESERT, BiomeType.SWAMP],
+  height: [-Infinity, Infinity],
+  slope: [0, 0.6],               // Old walls stand wherever they fell
+  noise: [-0.7, 0.7],
+  minSpacing: 16,
+  footprint: structure => disc(5 * structure.scale),
+  levelsGround: false,
+})
+
+registerStructureType({
+  type: 'camp',
+  rarity: 1.5,
+  biomes: [BiomeType.FOREST, BiomeType.PLAINS, BiomeType.TUNDRA],
+  height: [-Infinity, 18],
+  slope: [0, 0.2],
+  noise: [-0.5, 0.5],
+  minSpacing: 20,
+  footprint: structure => disc(4 * structure.scale),
+  levelsGround: true,
+})
+
+registerStructureType({
+  type: 'shrine',
+  rarity: 1,
+  biomes: ALL_BIOMES,
+  height: [-Infinity, Infinity],
+  slope: [0, 0.3],
+  noise: [-0.15, 0.15],          // Only along the calm bands of the placement noise
+  minSpacing: 30,
+  footprint: structure => box(2.6 * structure.scale, 2.6 * structure.scale),
+  levelsGround: true,
+})
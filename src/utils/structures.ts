@@ -0,0 +1,218 @@
+import { Vector3 } from 'three'
+import { hashSeed } from './random'
+import { findSettlements, getBiome, getNaturalTerrainHeight, getWaterLevel, terrainNoise } from './noise'
+import { SURFACE_GRID_STEP, getSurfaceHeight } from './worldQuery'
+import { defaultSettlementConfig } from './settlements'
+import type { FoundationPad } from './settlements'
+import { getFootprintRadius, getStructureType, pickStructureType } from './structureTypes'
+import type { StructureType } from '../types/world'
+
+export interface Structure {
+  id: number
+  type: StructureType
+  position: Vector3
+  rotation: number
+  scale: number
+  variant: number
+}
+
+// A scattered site before spacing is resolved
+interface StructureCandidate {
+  structure: Structure
+  priority: number  // The higher of two crowding candidates stands
+}
+
+// Settlement buildings are numbered after the scattered ones
+const SETTLEMENT_ID_OFFSET = 100
+
+/**
+ * Place the structures of one chunk. Deterministic for a world seed, so
+ * other systems (like caves and roads) can find the same structures without rendering them.
+ */
+export function generateChunkStructures(
+  seed: number,
+  chunkX: number,
+  chunkZ: number,
+  chunkSize: number,
+  noise = terrainNoise
+): Structure[] {
+  // Stand on the ground as it is finally shaped, foundations, roads and edits included
+  return findStructureSites(seed, chunkX, chunkZ, chunkSize, noise).map(structure => {
+    structure.position.y = getSurfaceHeight(structure.position.x, structure.position.z)
+    return structure
+  })
+}
+
+/**
+ * Where a chunk's structures go, judged on the natural terrain only.
+ * Roads and foundations are laid out from these sites, so this must not depend on them.
+ * A settlement's buildings belong to the chunk nearest to each of them.
+ */
+export function findStructureSites(
+  seed: number,
+  chunkX: number,
+  chunkZ: number,
+  chunkSize: number,
+  noise = terrainNoise
+): Structure[] {
+  const structureList: Structure[] = []
+  const chunkCenterX = chunkX * chunkSize
+  const chunkCenterZ = chunkZ * chunkSize
+
+  // Settlement wells and houses standing in this chunk
+  const half = chunkSize / 2
+  const settlements = findSettlements(
+    chunkCenterX - half - defaultSettlementConfig.siteRadius,
+    chunkCenterZ - half - defaultSettlementConfig.siteRadius,
+    chunkCenterX + half + defaultSettlementConfig.siteRadius,
+    chunkCenterZ + half + defaultSettlementConfig.siteRadius
+  )
+  const inChunk = (x: number, z: number) =>
+    Math.round(x / chunkSize) === chunkX && Math.round(z / chunkSize) === chunkZ
+
+  for (const settlement of settlements) {
+    const buildings = [
+      { type: 'well' as const, x: settlement.x, z: settlement.z, rotation: 0, scale: 1, variant: 0 },
+      ...settlement.houses.map(house => ({ type: 'house' as const, ...house })),
+    ]
+    for (const { type, x, z, rotation, scale, variant } of buildings) {
+      if (!inChunk(x, z)) continue
+      structureList.push({
+        id: SETTLEMENT_ID_OFFSET + structureList.length,
+        type,
+        position: new Vector3(x, settlement.height, z),
+        rotation,
+        scale,
+        variant,
+      })
+    }
+  }
+
+  // Scattered sites keep their types' spacing from the candidates around them too.
+  // Of two crowding sites the higher priority one stands, whichever chunk judges them.
+  const candidates = [-1, 0, 1].flatMap(dx => [-1, 0, 1].map(dz =>
+    findChunkCandidates(seed, chunkX + dx, chunkZ + dz, chunkSize, noise)
+  ))
+  const nearby = candidates.flat()
+
+  for (const { structure, priority } of candidates[4]) {
+    const { x, z } = structure.position
+
+    // Keep clear of villages
+    const crowded = settlements.some(settlement =>
+      Math.hypot(x - settlement.x, z - settlement.z) < settlement.radius + defaultSettlementConfig.siteRadius
+    )
+    if (crowded) continue
+
+    const spacing = getStructureType(structure.type).minSpacing
+    const blocked = nearby.some(other =>
+      other.priority > priority &&
+      Math.hypot(x - other.structure.position.x, z - other.structure.position.z) <
+        Math.max(spacing, getStructureType(other.structure.type).minSpacing)
+    )
+    if (blocked) continue
+
+    structureList.push(structure)
+  }
+
+  return structureList
+}
+
+/**
+ * Scattered sites of one chunk and the type each would take, before spacing.
+ * They stay in the middle of the chunk, so only the chunks around one can crowd it.
+ */
+function findChunkCandidates(
+  seed: number,
+  chunkX: number,
+  chunkZ: number,
+  chunkSize: number,
+  noise: (x: number, z: number) => number
+): StructureCandidate[] {
+  const candidates: StructureCandidate[] = []
+  const chunkCenterX = chunkX * chunkSize
+  const chunkCenterZ = chunkZ * chunkSize
+
+  // Generate a deterministic seed for this chunk, mixed with the world seed
+  const chunkSeed = hashSeed(seed, chunkX, chunkZ)
+  const random = (seed: number) => {
+    const x = Math.sin(seed) * 10000
+    return x - Math.floor(x)
+  }
+  
+  // Check if this chunk should have structures (about 30% chance)
+  const structureChance = random(chunkSeed)
+  if (structureChance < 0.7) return candidates
+  
+  // Determine number of structures (1-2 per chunk)
+  const numStructures = Math.floor(random(chunkSeed + 1) * 2) + 1
+  
+  for (let i = 0; i < numStructures; i++) {
+    const structSeed = chunkSeed + i * 12345
+    
+    // Random position within chunk (avoid edges)
+    const margin = chunkSize * 0.2
+    const x = chunkCenterX + (random(structSeed) - 0.5) * (chunkSize - margin * 2)
+    const z = chunkCenterZ + (random(structSeed + 1) - 0.5) * (chunkSize - margin * 2)
+    
+    // Get the ground at this position
+    const y = getNaturalTerrainHeight(x, z)
+    if (getWaterLevel(x, z) > y) continue // No flooded buildings
+    const step = SURFACE_GRID_STEP
+    const gradient = Math.hypot(
+      getNaturalTerrainHeight(x + step, z) - getNaturalTerrainHeight(x - step, z),
+      getNaturalTerrainHeight(x, z + step) - getNaturalTerrainHeight(x, z - step)
+    ) / (step * 2)
+    
+    // Let the registry pick a type whose rules fit the site
+    const definition = pickStructureType({
+      biome: getBiome(x, z).type,
+      height: y,
+      slope: Math.atan(gradient),
+      noise: noise(x * 0.01, z * 0.01),
+    }, random(structSeed + 2))
+    if (!definition) continue
+    
+    candidates.push({
+      structure: {
+        id: i,
+        type: definition.type,
+        position: new Vector3(x, y, z),
+        rotation: random(structSeed + 3) * Math.PI * 2,
+        scale: 0.8 + random(structSeed + 4) * 0.6, // 0.8 - 1.4 scale
+        variant: Math.floor(random(structSeed + 5) * 3) // 0, 1, or 2
+      },
+      priority: random(structSeed + 6),
+    })
+  }
+  
+  return candidates
+}
+
+/**
+ * Distance from a structure's position that its building covers, kept clear of props
+ */
+export function getStructureRadius(structure: Structure): number {
+  return getFootprintRadius(getStructureType(structure.type).footprint(structure))
+}
+
+/**
+ * Ground a structure levels to its own height: its footprint with an apron,
+ * for the types that level the ground at all
+ */
+export function getFoundationPad(structure: Structure): FoundationPad | null {
+  const definition = getStructureType(structure.type)
+  if (!definition.levelsGround) return null
+
+  const { x, y, z } = structure.position
+  const margin = defaultSettlementConfig.footprintMargin
+  const { halfSize, round } = definition.footprint(structure)
+  return {
+    x,
+    z,
+    rotation: structure.rotation,
+    halfSize: [halfSize[0] + margin, halfSize[1] + margin],
+    cornerRadius: round ? halfSize[0] + margin : margin,
+    height: y,
+  }
+}
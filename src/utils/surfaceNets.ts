@@ -0,0 +1,130 @@
+/**
+ * Naive surface nets: one vertex per grid cell the surface passes through
+ * (the average of its edge crossings) and one quad per grid edge with a sign
+ * change. Simpler than marching cubes and gives smooth, well-shaped triangles.
+ */
+
+export interface DensityGrid {
+  values: Float32Array             // Positive = solid. x varies fastest, then y, then z
+  size: [number, number, number]   // Samples per axis
+  origin: [number, number, number] // World position of the first sample
+  cellSize: number
+}
+
+export interface SurfaceNetsMesh {
+  positions: Float32Array
+  indices: Uint32Array
+}
+
+// Cell corner offsets and the 12 cell edges as pairs of corners
+const CORNERS = [
+  [0, 0, 0], [1, 0, 0], [0, 1, 0], [1, 1, 0],
+  [0, 0, 1], [1, 0, 1], [0, 1, 1], [1, 1, 1],
+]
+const EDGES = [
+  [0, 1], [2, 3], [4, 5], [6, 7],  // Along x
+  [0, 2], [1, 3], [4, 6], [5, 7],  // Along y
+  [0, 4], [1, 5], [2, 6], [3, 7],  // Along z
+]
+
+// Cells around an edge, as offsets along its two perpendicular axes: (u-1, v-1), (u, v-1), (u, v), (u-1, v)
+const QUAD_CELLS = [[-1, -1], [0, -1], [0, 0], [-1, 0]]
+
+/**
+ * Mesh the zero crossing of a density grid. Quads are only emitted for edges
+ * whose first sample lies in [ownedMin, ownedMax), so neighbouring grids that
+ * overlap by a sample or two can be meshed separately without doubled faces.
+ * Faces point from solid towards air.
+ */
+export function meshSurfaceNets(
+  grid: DensityGrid,
+  ownedMin: [number, number, number],
+  ownedMax: [number, number, number]
+): SurfaceNetsMesh {
+  const { values, size, origin, cellSize } = grid
+  const [nx, ny, nz] = size
+  const sampleIndex = (i: number, j: number, k: number) => i + nx * (j + ny * k)
+  const cellIndex = (i: number, j: number, k: number) => i + (nx - 1) * (j + (ny - 1) * k)
+
+  const positions: number[] = []
+  const cellVertex = new Int32Array((nx - 1) * (ny - 1) * (nz - 1)).fill(-1)
+  const corner = new Float32Array(8)
+
+  // Place a vertex in every cell the surface crosses
+  for (let k = 0; k < nz - 1; k++) {
+    for (let j = 0; j < ny - 1; j++) {
+      for (let i = 0; i < nx - 1; i++) {
+        let solidCorners = 0
+        for (let c = 0; c < 8; c++) {
+          corner[c] = values[sampleIndex(i + CORNERS[c][0], j + CORNERS[c][1], k + CORNERS[c][2])]
+          if (corner[c] > 0) solidCorners++
+        }
+        if (solidCorners === 0 || solidCorners === 8) continue
+
+        let sx = 0, sy = 0, sz = 0, crossings = 0
+        for (const [a, b] of EDGES) {
+          if ((corner[a] > 0) === (corner[b] > 0)) continue
+          const t = corner[a] / (corner[a] - corner[b])
+          sx += CORNERS[a][0] + (CORNERS[b][0] - CORNERS[a][0]) * t
+          sy += CORNERS[a][1] + (CORNERS[b][1] - CORNERS[a][1]) * t
+          sz += CORNERS[a][2] + (CORNERS[b][2] - CORNERS[a][2]) * t
+          crossings++
+        }
+
+        cellVertex[cellIndex(i, j, k)] = positions.length / 3
+        positions.push(
+          origin[0] + (i + sx / crossings) * cellSize,
+          origin[1] + (j + sy / crossings) * cellSize,
+          origin[2] + (k + sz / crossings) * cellSize
+        )
+      }
+    }
+  }
+
+  // Connect the four cells around every crossing edge. Each axis lists its two
+  // perpendicular axes in cyclic order (x: y,z / y: z,x / z: x,y) so the quad
+  // faces +axis when the first sample is the solid one.
+  const indices: number[] = []
+  const cells = [0, 0, 0, 0]
+  const axes: [number, number, number][] = [[0, 1, 2], [1, 2, 0], [2, 0, 1]]
+  const p = [0, 0, 0]
+
+  for (const [axis, u, v] of axes) {
+    for (let k = Math.max(ownedMin[2], 0); k < Math.min(ownedMax[2], nz); k++) {
+      for (let j = Math.max(ownedMin[1], 0); j < Math.min(ownedMax[1], ny); j++) {
+        for (let i = Math.max(ownedMin[0], 0); i < Math.min(ownedMax[0], nx); i++) {
+          p[0] = i
+          p[1] = j
+          p[2] = k
+
+          // The edge and the four cells around it must all be inside the grid
+          if (p[axis] >= size[axis] - 1 || p[u] < 1 || p[v] < 1 || p[u] >= size[u] - 1 || p[v] >= size[v] - 1) continue
+
+          const start = values[sampleIndex(i, j, k)]
+          p[axis] += 1
+          const end = values[sampleIndex(p[0], p[1], p[2])]
+          p[axis] -= 1
+          if ((start > 0) === (end > 0)) continue
+
+          let complete = true
+          for (let c = 0; c < 4; c++) {
+            const q = [p[0], p[1], p[2]]
+            q[u] += QUAD_CELLS[c][0]
+            q[v] += QUAD_CELLS[c][1]
+            cells[c] = cellVertex[cellIndex(q[0], q[1], q[2])]
+            if (cells[c] < 0) complete = false
+          }
+          if (!complete) continue
+
+          if (start > 0) {
+            indices.push(cells[0], cells[1], cells[2], cells[0], cells[2], cells[3])
+          } else {
+            indices.push(cells[0], cells[2], cells[1], cells[0], cells[3], cells[2])
+          }
+        }
+      }
+    }
+  }
+
+  return { positions: new Float32Array(positions), indices: new Uint32Array(indices) }
+}
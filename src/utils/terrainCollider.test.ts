@@ -0,0 +1,118 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import RAPIER from '@dimforge/rapier3d-compat'
+import { generateTerrainHeightfield, sampleTerrainHeightfield } from './terrainCollider'
+import { getTerrainHeight } from './noise'
+import { CHUNK_SIZE, COLLIDER_RESOLUTION } from './terrainLod'
+import { SURFACE_GRID_STEP, getSurfaceHeight } from './worldQuery'
+
+const STEP = CHUNK_SIZE / COLLIDER_RESOLUTION
+// Cast from well above anything the terrain reaches
+const RAY_TOP = 500
+
+describe('generateTerrainHeightfield', () => {
+  let world: RAPIER.World
+
+  beforeAll(async () => {
+    await RAPIER.init()
+    world = new RAPIER.World({ x: 0, y: -9.81, z: 0 })
+  })
+
+  afterAll(() => world.free())
+
+  /**
+   * A chunk's collider as Terrain builds it: centered on the chunk, scaled to its size
+   */
+  const createChunkCollider = (chunkX: number, chunkZ: number) => {
+    const heights = generateTerrainHeightfield(chunkX, chunkZ, CHUNK_SIZE, COLLIDER_RESOLUTION)
+    const desc = RAPIER.ColliderDesc
+      .heightfield(COLLIDER_RESOLUTION, COLLIDER_RESOLUTION, heights, { x: CHUNK_SIZE, y: 1, z: CHUNK_SIZE })
+      .setTranslation((chunkX + 0.5) * CHUNK_SIZE, 0, (chunkZ + 0.5) * CHUNK_SIZE)
+    return world.createCollider(desc)
+  }
+
+  // Height of the collider under a point, found by casting straight down
+  const castDown = (collider: RAPIER.Collider, x: number, z: number) => {
+    const toi = collider.castRay(new RAPIER.Ray({ x, y: RAY_TOP, z }, { x: 0, y: -1, z: 0 }), 2 * RAY_TOP, true)
+    expect(toi, `no hit at ${x}, ${z}`).toBeGreaterThanOrEqual(0)
+    return RAY_TOP - toi
+  }
+
+  it('puts the collider at getTerrainHeight on every grid point', () => {
+    for (const [chunkX, chunkZ] of [[0, 0], [1, -1], [-2, 3]]) {
+      const collider = createChunkCollider(chunkX, chunkZ)
+
+      for (let i = 0; i <= COLLIDER_RESOLUTION; i++) {
+        for (let j = 0; j <= COLLIDER_RESOLUTION; j++) {
+          const x = chunkX * CHUNK_SIZE + i * STEP
+          const z = chunkZ * CHUNK_SIZE + j * STEP
+          expect(castDown(collider, x, z)).toBeCloseTo(getTerrainHeight(x, z), 3)
+        }
+      }
+      world.removeCollider(collider, false)
+    }
+  })
+
+  it('matches worldQuery between grid points, on both sides of each cell diagonal', () => {
+    expect(SURFACE_GRID_STEP).toBe(STEP)
+    // Fractions inside a cell: short of the (x1, z0)-(x0, z1) diagonal, on it and past it
+    const offsets = [[0.2, 0.3], [0.9, 0.05], [0.5, 0.5], [0.3, 0.7], [0.6, 0.55], [0.95, 0.9]]
+
+    for (const [chunkX, chunkZ] of [[0, 0], [1, -1], [-2, 3]]) {
+      const collider = createChunkCollider(chunkX, chunkZ)
+
+      for (let i = 0; i < COLLIDER_RESOLUTION; i += 3) {
+        for (let j = 0; j < COLLIDER_RESOLUTION; j += 5) {
+          for (const [fx, fz] of offsets) {
+            const x = chunkX * CHUNK_SIZE + (i + fx) * STEP
+            const z = chunkZ * CHUNK_SIZE + (j + fz) * STEP
+            expect(castDown(collider, x, z)).toBeCloseTo(getSurfaceHeight(x, z), 3)
+          }
+        }
+      }
+      world.removeCollider(collider, false)
+    }
+  })
+})
+
+describe('sampleTerrainHeightfield', () => {
+  const CELL = 8
+  // Heights from a function of the grid indices, laid out column-major
+  const build = (resolution: number, height: (i: number, j: number) => number) => {
+    const heights = new Float32Array((resolution + 1) * (resolution + 1))
+    for (let i = 0; i <= resolution; i++) {
+      for (let j = 0; j <= resolution; j++) {
+        heights[j + i * (resolution + 1)] = height(i, j)
+      }
+    }
+    return heights
+  }
+
+  it('reads X from the columns and Z from the rows', () => {
+    const heights = build(4, (i, j) => i * 10 + j)
+    expect(sampleTerrainHeightfield(heights, 4, 4, 3, 1)).toBeCloseTo(31)
+    expect(sampleTerrainHeightfield(heights, 4, 4, 1, 3)).toBeCloseTo(13)
+  })
+
+  it('is exact on a plane', () => {
+    const heights = build(4, (i, j) => 2 * i * CELL + 3 * j * CELL + 1)
+    for (const [x, z] of [[0.3, 0.2], [5.5, 7.25], [13, 2.5], [31.9, 31.9]]) {
+      expect(sampleTerrainHeightfield(heights, 4, 4 * CELL, x, z)).toBeCloseTo(2 * x + 3 * z + 1)
+    }
+  })
+
+  it('splits cells along the diagonal from (x1, z0) to (x0, z1)', () => {
+    // Only the (x1, z1) corner is raised: flat up to the diagonal, a slope past it
+    const heights = build(1, (i, j) => i * j)
+    expect(sampleTerrainHeightfield(heights, 1, 1, 0.25, 0.25)).toBeCloseTo(0)
+    expect(sampleTerrainHeightfield(heights, 1, 1, 0.5, 0.5)).toBeCloseTo(0)
+    expect(sampleTerrainHeightfield(heights, 1, 1, 0.9, 0.1)).toBeCloseTo(0)
+    expect(sampleTerrainHeightfield(heights, 1, 1, 0.75, 0.75)).toBeCloseTo(0.5)
+    expect(sampleTerrainHeightfield(heights, 1, 1, 1, 1)).toBeCloseTo(1)
+  })
+
+  it('clamps positions outside the chunk to its edge', () => {
+    const heights = build(2, (i, j) => i + j * 2)
+    expect(sampleTerrainHeightfield(heights, 2, 2, -1, 0)).toBeCloseTo(0)
+    expect(sampleTerrainHeightfield(heights, 2, 2, 5, 5)).toBeCloseTo(6)
+  })
+})
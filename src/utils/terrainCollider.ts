@@ -0,0 +1,63 @@
+import { getTerrainConfig, getTerrainHeight } from './noise'
+import type { TerrainConfig } from './noise'
+
+// Collision group of the ground colliders, so the player can pass through them into dungeons
+export const TERRAIN_COLLISION_GROUP = 1
+
+/**
+ * Sample a chunk into a Rapier heightfield matrix.
+ * Heights are column-major: Rapier rows run along Z and columns along X,
+ * so index = zIndex + xIndex * (resolution + 1).
+ */
+export function generateTerrainHeightfield(
+  chunkX: number,
+  chunkZ: number,
+  chunkSize: number,
+  resolution: number,
+  config: TerrainConfig = getTerrainConfig()
+): Float32Array {
+  const heights = new Float32Array((resolution + 1) * (resolution + 1))
+  const stepSize = chunkSize / resolution
+
+  for (let i = 0; i <= resolution; i++) {
+    for (let j = 0; j <= resolution; j++) {
+      const x = chunkX * chunkSize + i * stepSize
+      const z = chunkZ * chunkSize + j * stepSize
+      heights[j + i * (resolution + 1)] = getTerrainHeight(x, z, config)
+    }
+  }
+
+  return heights
+}
+
+/**
+ * Height of a heightfield at a chunk-local position (0..chunkSize on both axes),
+ * interpolated over the same triangles Rapier builds for each cell
+ */
+export function sampleTerrainHeightfield(
+  heights: ArrayLike<number>,
+  resolution: number,
+  chunkSize: number,
+  localX: number,
+  localZ: number
+): number {
+  const stepSize = chunkSize / resolution
+  const gx = Math.min(Math.max(localX / stepSize, 0), resolution)
+  const gz = Math.min(Math.max(localZ / stepSize, 0), resolution)
+  const i = Math.min(Math.floor(gx), resolution - 1)
+  const j = Math.min(Math.floor(gz), resolution - 1)
+  const fx = gx - i
+  const fz = gz - j
+
+  const at = (xi: number, zj: number) => heights[zj + xi * (resolution + 1)]
+  const h00 = at(i, j)
+  const h10 = at(i + 1, j)
+  const h01 = at(i, j + 1)
+  const h11 = at(i + 1, j + 1)
+
+  // Cells are split along the diagonal from (x1, z0) to (x0, z1)
+  if (fx + fz <= 1) {
+    return h00 + fx * (h10 - h00) + fz * (h01 - h00)
+  }
+  return h11 + (1 - fx) * (h01 - h11) + (1 - fz) * (h10 - h11)
+}
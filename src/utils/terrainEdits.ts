@@ -0,0 +1,164 @@
+import { CHUNK_SIZE } from './terrainLod'
+
+/**
+ * Sparse terrain edit layer: height deltas on a regular grid,
+ * stored per chunk and added on top of the noise height.
+ * Edits live here rather than in chunks, so they survive unloading.
+ */
+
+// Spacing of the edit grid in world units
+export const EDIT_CELL_SIZE = 1
+const CELLS_PER_CHUNK = CHUNK_SIZE / EDIT_CELL_SIZE
+
+// Chunk key -> (local grid index -> height delta)
+const edits = new Map<string, Map<number, number>>()
+// Chunk key -> number of edits applied so far, used to spot stale meshes
+const revisions = new Map<string, number>()
+const listeners = new Set<(chunkKeys: string[]) => void>()
+
+function getCellChunk(gx: number, gz: number) {
+  const chunkX = Math.floor(gx / CELLS_PER_CHUNK)
+  const chunkZ = Math.floor(gz / CELLS_PER_CHUNK)
+  const localIndex = (gx - chunkX * CELLS_PER_CHUNK) + (gz - chunkZ * CELLS_PER_CHUNK) * CELLS_PER_CHUNK
+  return { key: `${chunkX},${chunkZ}`, localIndex }
+}
+
+function getCellDelta(gx: number, gz: number): number {
+  const { key, localIndex } = getCellChunk(gx, gz)
+  return edits.get(key)?.get(localIndex) ?? 0
+}
+
+function setCellDelta(gx: number, gz: number, delta: number) {
+  const { key, localIndex } = getCellChunk(gx, gz)
+  let chunkEdits = edits.get(key)
+  if (!chunkEdits) {
+    chunkEdits = new Map()
+    edits.set(key, chunkEdits)
+  }
+  chunkEdits.set(localIndex, delta)
+}
+
+/**
+ * Height delta at a world position, bilinearly interpolated between grid points
+ */
+export function getTerrainEditDelta(x: number, z: number): number {
+  if (edits.size === 0) return 0
+
+  const fx = x / EDIT_CELL_SIZE
+  const fz = z / EDIT_CELL_SIZE
+  const gx = Math.floor(fx)
+  const gz = Math.floor(fz)
+  const tx = fx - gx
+  const tz = fz - gz
+
+  const d00 = getCellDelta(gx, gz)
+  const d10 = getCellDelta(gx + 1, gz)
+  const d01 = getCellDelta(gx, gz + 1)
+  const d11 = getCellDelta(gx + 1, gz + 1)
+
+  return (d00 * (1 - tx) + d10 * tx) * (1 - tz) + (d01 * (1 - tx) + d11 * tx) * tz
+}
+
+/**
+ * Raise (positive amount) or lower (negative amount) the terrain in a
+ * smooth round brush. Returns the keys of every chunk that changed.
+ */
+export function applyTerrainEdit(x: number, z: number, radius: number, amount: number): string[] {
+  const changed = new Set<string>()
+  const minGx = Math.floor((x - radius) / EDIT_CELL_SIZE)
+  const maxGx = Math.ceil((x + radius) / EDIT_CELL_SIZE)
+  const minGz = Math.floor((z - radius) / EDIT_CELL_SIZE)
+  const maxGz = Math.ceil((z + radius) / EDIT_CELL_SIZE)
+
+  for (let gx = minGx; gx <= maxGx; gx++) {
+    for (let gz = minGz; gz <= maxGz; gz++) {
+      const dx = gx * EDIT_CELL_SIZE - x
+      const dz = gz * EDIT_CELL_SIZE - z
+      const t = (dx * dx + dz * dz) / (radius * radius)
+      if (t >= 1) continue
+
+      // Smooth falloff so craters and mounds have soft rims
+      const falloff = (1 - t) * (1 - t)
+      setCellDelta(gx, gz, getCellDelta(gx, gz) + amount * falloff)
+
+      // Grid points on a border also shape the neighbouring chunk
+      for (const ox of [-1, 0]) {
+        for (const oz of [-1, 0]) {
+          changed.add(getCellChunk(gx + ox, gz + oz).key)
+        }
+      }
+    }
+  }
+
+  const chunkKeys = Array.from(changed)
+  chunkKeys.forEach(key => revisions.set(key, (revisions.get(key) ?? 0) + 1))
+  listeners.forEach(listener => listener(chunkKeys))
+
+  return chunkKeys
+}
+
+/**
+ * Carve a crater - shorthand for a negative edit
+ */
+export function carveCrater(x: number, z: number, radius: number, depth: number): string[] {
+  return applyTerrainEdit(x, z, radius, -depth)
+}
+
+/**
+ * Get how many times a chunk has been edited
+ */
+export function getTerrainEditRevision(chunkKey: string): number {
+  return revisions.get(chunkKey) ?? 0
+}
+
+/**
+ * Listen for edits; called with the keys of the chunks that changed
+ */
+export function subscribeTerrainEdits(listener: (chunkKeys: string[]) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Flatten the edits touching an area into [gx, gz, delta, ...] for a worker
+ */
+export function getTerrainEditsInArea(minX: number, minZ: number, maxX: number, maxZ: number): number[] {
+  const result: number[] = []
+  if (edits.size === 0) return result
+
+  const minGx = Math.floor(minX / EDIT_CELL_SIZE) - 1
+  const maxGx = Math.ceil(maxX / EDIT_CELL_SIZE) + 1
+  const minGz = Math.floor(minZ / EDIT_CELL_SIZE) - 1
+  const maxGz = Math.ceil(maxZ / EDIT_CELL_SIZE) + 1
+
+  for (let gx = minGx; gx <= maxGx; gx++) {
+    for (let gz = minGz; gz <= maxGz; gz++) {
+      const delta = getCellDelta(gx, gz)
+      if (delta !== 0) {
+        result.push(gx, gz, delta)
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * Replace every edit with a flattened list from getTerrainEditsInArea
+ */
+export function replaceTerrainEdits(flatEdits: number[]) {
+  edits.clear()
+  for (let i = 0; i < flatEdits.length; i += 3) {
+    setCellDelta(flatEdits[i], flatEdits[i + 1], flatEdits[i + 2])
+  }
+}
+
+/**
+ * Forget all edits (e.g. when switching to another world)
+ */
+export function clearTerrainEdits() {
+  edits.clear()
+  revisions.clear()
+}
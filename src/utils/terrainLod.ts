@@ -0,0 +1,49 @@
+/**
+ * Ring-based level of detail for terrain chunks.
+ * The ring is the Chebyshev distance (in chunks) from the player's chunk.
+ */
+
+export const CHUNK_SIZE = 64
+
+// Heightfield collider samples per chunk side. The nearest ring renders at the
+// same resolution so what you see is what you stand on (see worldQuery).
+export const COLLIDER_RESOLUTION = 32
+
+// Skirts hang below every chunk edge to hide cracks between different LODs
+export const SKIRT_DEPTH = 3
+
+export interface TerrainLodLevel {
+  maxRing: number      // Last ring that uses this level
+  resolution: number   // Quads per chunk side
+  collider: boolean    // Build physics for this ring
+  grass: boolean       // Spawn grass
+  props: boolean       // Spawn models and structures
+  volumetric: boolean  // Mesh caves and overhangs here when caves are enabled
+}
+
+export const TERRAIN_LOD_LEVELS: TerrainLodLevel[] = [
+  { maxRing: 1, resolution: COLLIDER_RESOLUTION, collider: true, grass: true, props: true, volumetric: true },
+  { maxRing: 2, resolution: 8, collider: false, grass: false, props: true, volumetric: false },
+  { maxRing: 4, resolution: 4, collider: false, grass: false, props: false, volumetric: false },
+  { maxRing: Infinity, resolution: 2, collider: false, grass: false, props: false, volumetric: false },
+]
+
+// View distance in chunks (rings around the player)
+export const DEFAULT_VIEW_DISTANCE = 4
+export const VIEW_DISTANCE_OPTIONS = [1, 2, 3, 4, 6, 8]
+
+/**
+ * Get the LOD level index for a chunk ring
+ */
+export function getLodLevel(ring: number): number {
+  const index = TERRAIN_LOD_LEVELS.findIndex(level => ring <= level.maxRing)
+  return index === -1 ? TERRAIN_LOD_LEVELS.length - 1 : index
+}
+
+/**
+ * Fog range that hides the edge of the loaded world for a view distance
+ */
+export function getFogRange(viewDistance: number): [number, number] {
+  const far = Math.max(200, (viewDistance + 0.5) * CHUNK_SIZE)
+  return [far * 0.25, far]
+}
@@ -0,0 +1,297 @@
+import {
+  Color,
+  DataTexture,
+  LinearMipmapLinearFilter,
+  MeshDepthMaterial,
+  MeshDistanceMaterial,
+  MeshStandardMaterial,
+  RepeatWrapping,
+  RGBADepthPacking,
+  RGBAFormat,
+  Vector2,
+  Vector4
+} from 'three'
+import { createRandom } from './random'
+import { defaultWaterConfig } from './water'
+import type { TerrainOpening } from './dungeons'
+
+export interface TerrainMaterialConfig {
+  rockColor: string
+  sandColor: string
+  snowColor: string
+  roadColor: string             // Packed dirt, painted over every other layer
+  rockSlope: [number, number]   // Slope (rise over run) where rock starts and fully covers the ground
+  sandHeight: [number, number]  // Heights where beach sand fades into the biome color
+  snowHeight: [number, number]  // Heights where snow starts and fully covers the ground
+  detailScale: number           // Detail texture repeats per world unit
+  triplanar: boolean            // Project detail from three axes so cliffs don't stretch
+}
+
+// Sand around the sea shore, snow only on the highest peaks
+export const defaultTerrainMaterialConfig: TerrainMaterialConfig = {
+  rockColor: '#7a7068',
+  sandColor: '#d2bc83',
+  snowColor: '#f4f7fa',
+  roadColor: '#8a7456',
+  rockSlope: [0.35, 0.8],
+  sandHeight: [defaultWaterConfig.seaLevel + 0.3, defaultWaterConfig.seaLevel + 0.9],
+  snowHeight: [3.2, 3.8],
+  detailScale: 0.125,
+  triplanar: true,
+}
+
+// Detail texture - the same for every world, it is surface texture not world content
+const DETAIL_TEXTURE_SIZE = 128
+const DETAIL_TEXTURE_SEED = 1337
+
+// Dungeon entrances cut through the ground around the player, nearest first
+export const MAX_TERRAIN_HOLES = 8
+
+// Hole uniforms and the world position they are tested against, for every pass
+const TERRAIN_HOLE_PARS = `
+  uniform vec4 terrainHoles[${MAX_TERRAIN_HOLES}];
+  uniform vec2 terrainHoleRotations[${MAX_TERRAIN_HOLES}];
+  uniform int terrainHoleCount;
+  varying vec3 vTerrainPosition;
+`
+
+// Drops the fragment when it lies inside any hole
+const TERRAIN_HOLE_DISCARD = `
+  for (int i = 0; i < ${MAX_TERRAIN_HOLES}; i++) {
+    if (i >= terrainHoleCount) break;
+    vec2 holeOffset = vTerrainPosition.xz - terrainHoles[i].xy;
+    vec2 holeRotation = terrainHoleRotations[i];
+    vec2 holeLocal = vec2(
+      holeOffset.x * holeRotation.x - holeOffset.y * holeRotation.y,
+      holeOffset.x * holeRotation.y + holeOffset.y * holeRotation.x
+    );
+    if (all(lessThanEqual(abs(holeLocal), terrainHoles[i].zw))) discard;
+  }
+`
+
+/**
+ * Tileable fractal value noise in 0-1, sampled on a size x size grid.
+ * Every octave uses a whole number of lattice cells so the result wraps seamlessly.
+ */
+function tileableFbm(size: number, basePeriod: number, octaves: number, random: () => number): Float32Array {
+  const result = new Float32Array(size * size)
+  const smooth = (t: number) => t * t * (3 - 2 * t)
+  let amplitude = 1
+  let total = 0
+
+  for (let octave = 0; octave < octaves; octave++) {
+    const period = basePeriod << octave
+    const lattice = Float32Array.from({ length: period * period }, random)
+    const at = (i: number, j: number) => lattice[(i % period) + (j % period) * period]
+
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const u = (x / size) * period
+        const v = (y / size) * period
+        const i = Math.floor(u)
+        const j = Math.floor(v)
+        const tx = smooth(u - i)
+        const ty = smooth(v - j)
+        const top = at(i, j) + (at(i + 1, j) - at(i, j)) * tx
+        const bottom = at(i, j + 1) + (at(i + 1, j + 1) - at(i, j + 1)) * tx
+        result[x + y * size] += (top + (bottom - top) * ty) * amplitude
+      }
+    }
+
+    total += amplitude
+    amplitude *= 0.5
+  }
+
+  return result.map(value => value / total)
+}
+
+/**
+ * Pack one detail pattern per layer into a texture:
+ * R = rock cracks, G = grass clumps, B = sand ripples, A = snow
+ */
+function createDetailTexture(): DataTexture {
+  const size = DETAIL_TEXTURE_SIZE
+  const random = createRandom(DETAIL_TEXTURE_SEED)
+  const rock = tileableFbm(size, 4, 4, random)
+  const grass = tileableFbm(size, 16, 3, random)
+  const sand = tileableFbm(size, 4, 2, random)
+  const snow = tileableFbm(size, 4, 2, random)
+  const data = new Uint8Array(size * size * 4)
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const i = x + y * size
+      const ripple = Math.sin((x / size) * Math.PI * 2 * 12 + sand[i] * 6) * 0.5 + 0.5
+
+      data[i * 4] = (1 - Math.abs(rock[i] * 2 - 1)) * 255  // Ridged noise reads as cracks
+      data[i * 4 + 1] = grass[i] * 255
+      data[i * 4 + 2] = (0.35 + ripple * 0.3) * 255
+      data[i * 4 + 3] = (0.4 + snow[i] * 0.2) * 255
+    }
+  }
+
+  const texture = new DataTexture(data, size, size, RGBAFormat)
+  texture.wrapS = RepeatWrapping
+  texture.wrapT = RepeatWrapping
+  texture.minFilter = LinearMipmapLinearFilter
+  texture.generateMipmaps = true
+  texture.needsUpdate = true
+  return texture
+}
+
+interface TerrainHoleUniforms {
+  terrainHoles: { value: Vector4[] }          // Center x/z and half size along the hole's own axes
+  terrainHoleRotations: { value: Vector2[] }  // Cosine and sine of each hole's yaw
+  terrainHoleCount: { value: number }
+}
+
+export interface TerrainMaterial {
+  material: MeshStandardMaterial
+  depthMaterial: MeshDepthMaterial        // Shadows from directional and spot lights
+  distanceMaterial: MeshDistanceMaterial  // Shadows from point lights
+  uniforms: TerrainHoleUniforms
+}
+
+/**
+ * Cut the terrain holes out of a shadow pass too, so the ground over a
+ * dungeon entrance doesn't darken the stairs below it
+ */
+function cutTerrainHoles<T extends MeshDepthMaterial | MeshDistanceMaterial>(material: T, uniforms: TerrainHoleUniforms): T {
+  material.onBeforeCompile = (shader) => {
+    Object.assign(shader.uniforms, uniforms)
+
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>
+        varying vec3 vTerrainPosition;
+      `)
+      .replace('#include <begin_vertex>', `#include <begin_vertex>
+        vTerrainPosition = (modelMatrix * vec4(transformed, 1.0)).xyz;
+      `)
+
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', `#include <common>
+        ${TERRAIN_HOLE_PARS}
+      `)
+      .replace('#include <clipping_planes_fragment>', `#include <clipping_planes_fragment>
+        ${TERRAIN_HOLE_DISCARD}
+      `)
+  }
+  material.customProgramCacheKey = () => 'terrain-holes'
+  return material
+}
+
+/**
+ * Standard (lit, fogged, shadowed) material that splats rock, sand and snow
+ * over the biome vertex colors by slope and height, and roads from the
+ * per-vertex road attribute. Fragments inside the terrain holes are dropped,
+ * from the shadow passes as well.
+ */
+export function createTerrainMaterial(config = defaultTerrainMaterialConfig): TerrainMaterial {
+  const material = new MeshStandardMaterial({
+    vertexColors: true,
+    roughness: 0.95,
+    metalness: 0,
+  })
+
+  const uniforms = {
+    terrainDetail: { value: createDetailTexture() },
+    terrainDetailScale: { value: config.detailScale },
+    terrainRockColor: { value: new Color(config.rockColor) },
+    terrainSandColor: { value: new Color(config.sandColor) },
+    terrainSnowColor: { value: new Color(config.snowColor) },
+    terrainRoadColor: { value: new Color(config.roadColor) },
+    terrainRockSlope: { value: config.rockSlope },
+    terrainSandHeight: { value: config.sandHeight },
+    terrainSnowHeight: { value: config.snowHeight },
+    terrainHoles: { value: Array.from({ length: MAX_TERRAIN_HOLES }, () => new Vector4()) },
+    terrainHoleRotations: { value: Array.from({ length: MAX_TERRAIN_HOLES }, () => new Vector2(1, 0)) },
+    terrainHoleCount: { value: 0 },
+  }
+
+  material.onBeforeCompile = (shader) => {
+    Object.assign(shader.uniforms, uniforms)
+
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', `#include <common>
+        attribute float road;
+        varying vec3 vTerrainPosition;
+        varying vec3 vTerrainNormal;
+        varying float vTerrainRoad;
+      `)
+      .replace('#include <begin_vertex>', `#include <begin_vertex>
+        vTerrainPosition = (modelMatrix * vec4(transformed, 1.0)).xyz;
+        vTerrainNormal = normalize(mat3(modelMatrix) * objectNormal);
+        vTerrainRoad = road;
+      `)
+
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', `#include <common>
+        ${config.triplanar ? '#define TERRAIN_TRIPLANAR' : ''}
+        uniform sampler2D terrainDetail;
+        uniform float terrainDetailScale;
+        uniform vec3 terrainRockColor;
+        uniform vec3 terrainSandColor;
+        uniform vec3 terrainSnowColor;
+        uniform vec3 terrainRoadColor;
+        uniform vec2 terrainRockSlope;
+        uniform vec2 terrainSandHeight;
+        uniform vec2 terrainSnowHeight;
+        ${TERRAIN_HOLE_PARS}
+        varying vec3 vTerrainNormal;
+        varying float vTerrainRoad;
+
+        vec4 sampleTerrainDetail(vec3 position, vec3 normal) {
+          #ifdef TERRAIN_TRIPLANAR
+            vec3 blend = pow(abs(normal), vec3(4.0));
+            blend /= blend.x + blend.y + blend.z;
+            return texture2D(terrainDetail, position.zy * terrainDetailScale) * blend.x +
+              texture2D(terrainDetail, position.xz * terrainDetailScale) * blend.y +
+              texture2D(terrainDetail, position.xy * terrainDetailScale) * blend.z;
+          #else
+            return texture2D(terrainDetail, position.xz * terrainDetailScale);
+          #endif
+        }
+      `)
+      .replace('#include <color_fragment>', `
+        ${TERRAIN_HOLE_DISCARD}
+
+        vec3 terrainNormal = normalize(vTerrainNormal);
+        float terrainSlope = length(terrainNormal.xz) / max(terrainNormal.y, 0.001);
+        vec4 terrainDetailValue = 0.75 + 0.5 * sampleTerrainDetail(vTerrainPosition, terrainNormal);
+
+        float rockWeight = smoothstep(terrainRockSlope.x, terrainRockSlope.y, terrainSlope);
+        float sandWeight = (1.0 - smoothstep(terrainSandHeight.x, terrainSandHeight.y, vTerrainPosition.y)) * (1.0 - rockWeight);
+        float snowWeight = smoothstep(terrainSnowHeight.x, terrainSnowHeight.y, vTerrainPosition.y) * (1.0 - rockWeight);
+
+        // The biome vertex color is the grass layer
+        vec3 terrainColor = vColor * terrainDetailValue.g;
+        terrainColor = mix(terrainColor, terrainSandColor * terrainDetailValue.b, sandWeight);
+        terrainColor = mix(terrainColor, terrainSnowColor * terrainDetailValue.a, snowWeight);
+        terrainColor = mix(terrainColor, terrainRockColor * terrainDetailValue.r, rockWeight);
+        // Roads cover everything, with a little of the rock grain as gravel
+        terrainColor = mix(terrainColor, terrainRoadColor * mix(1.0, terrainDetailValue.r, 0.5), vTerrainRoad);
+        diffuseColor.rgb *= terrainColor;
+      `)
+  }
+  material.customProgramCacheKey = () => `terrain-${config.triplanar}`
+
+  return {
+    material,
+    depthMaterial: cutTerrainHoles(new MeshDepthMaterial({ depthPacking: RGBADepthPacking }), uniforms),
+    distanceMaterial: cutTerrainHoles(new MeshDistanceMaterial(), uniforms),
+    uniforms,
+  }
+}
+
+/**
+ * Point the material's holes at the given openings, dropping any past the limit
+ */
+export function setTerrainHoles({ uniforms }: TerrainMaterial, openings: TerrainOpening[]) {
+  const count = Math.min(openings.length, MAX_TERRAIN_HOLES)
+  for (let i = 0; i < count; i++) {
+    const { center, halfSize, rotation } = openings[i]
+    uniforms.terrainHoles.value[i].set(center[0], center[1], halfSize[0], halfSize[1])
+    uniforms.terrainHoleRotations.value[i].set(Math.cos(rotation), Math.sin(rotation))
+  }
+  uniforms.terrainHoleCount.value = count
+}
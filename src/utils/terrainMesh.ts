@@ -0,0 +1,280 @@
+import { Color } from 'three'
+import {
+  generateTerrainChunk,
+  generateTerrainIndices,
+  generateTerrainNormals,
+  getBiomeWeights,
+  getRoadDistance,
+  getTerrainConfig,
+  getTerrainHeight,
+  getWaterLevel
+} from './noise'
+import type { TerrainConfig } from './noise'
+import { blendBiomeColor } from './biomes'
+import { generateTerrainHeightfield } from './terrainCollider'
+import { generateCaveChunkMesh } from './caves'
+import { defaultRoadConfig } from './roads'
+
+export interface TerrainChunkRequest {
+  chunkX: number
+  chunkZ: number
+  chunkSize: number
+  resolution: number
+  skirtDepth?: number
+  colliderResolution?: number  // 0 = no collider heights
+  volumetric?: boolean  // Mesh caves and overhangs from the 3D density field
+  config?: TerrainConfig
+}
+
+/**
+ * Raw buffers for one terrain chunk - ready to become BufferAttributes
+ */
+export interface TerrainChunkData {
+  positions: Float32Array
+  colors: Float32Array
+  roads: Float32Array  // Road surface coverage per vertex, 0-1
+  normals: Float32Array
+  indices: Uint16Array | Uint32Array
+  minHeight: number  // Lowest surface point
+  heights?: Float32Array  // Heightfield collider samples, when requested
+  volumetric?: boolean  // Built from the density field - collide with the mesh itself
+  water?: TerrainWaterData  // Sea, lake and river surface, when the chunk has any
+}
+
+/**
+ * Water surface over the wet part of a chunk
+ */
+export interface TerrainWaterData {
+  positions: Float32Array
+  indices: Uint16Array
+}
+
+// Road texture fades out over this distance past the road edge
+const ROAD_EDGE_FADE = 1
+
+function getRoadCoverage(x: number, z: number): number {
+  const distance = getRoadDistance(x, z) - defaultRoadConfig.halfWidth
+  return Math.max(0, Math.min(1, 1 - distance / ROAD_EDGE_FADE))
+}
+
+/**
+ * Build heightfield, biome colors, indices and normals for a chunk.
+ * Runs inside the terrain workers and is also the synchronous fallback.
+ */
+export function generateTerrainChunkData({
+  chunkX,
+  chunkZ,
+  chunkSize,
+  resolution,
+  skirtDepth = 0,
+  colliderResolution = 0,
+  volumetric = false,
+  config = getTerrainConfig()
+}: TerrainChunkRequest): TerrainChunkData {
+  if (volumetric) {
+    return generateVolumetricChunkData(chunkX, chunkZ, chunkSize, resolution, config)
+  }
+
+  const positions = generateTerrainChunk(chunkX, chunkZ, chunkSize, resolution, config)
+  const colors = new Float32Array(positions.length)
+  const roads = new Float32Array(positions.length / 3)
+  const color = new Color()
+  let minHeight = Infinity
+
+  for (let i = 0; i < positions.length; i += 3) {
+    const x = positions[i]
+    const y = positions[i + 1]
+    const z = positions[i + 2]
+    minHeight = Math.min(minHeight, y)
+
+    // Blend the palettes of neighbouring biomes so borders fade smoothly
+    blendBiomeColor(getBiomeWeights(x, z), y, color)
+    colors[i] = color.r
+    colors[i + 1] = color.g
+    colors[i + 2] = color.b
+    roads[i / 3] = getRoadCoverage(x, z)
+  }
+
+  const indices = generateTerrainIndices(resolution)
+  const normals = generateTerrainNormals(positions, indices)
+  const mesh: TerrainChunkData = { positions, colors, roads, normals, indices, minHeight }
+  const water = generateWaterSurface(positions, indices)
+  const data = skirtDepth > 0 ? appendSkirts(mesh, resolution, skirtDepth) : mesh
+
+  if (water) {
+    data.water = water
+  }
+
+  if (colliderResolution > 0) {
+    data.heights = generateTerrainHeightfield(chunkX, chunkZ, chunkSize, colliderResolution, config)
+  }
+
+  return data
+}
+
+// Rock walls and floors underground
+const CAVE_COLOR = new Color(0.32, 0.28, 0.25)
+// Vertices this far below the heightfield surface count as underground
+const CAVE_COLOR_DEPTH = 1
+
+/**
+ * Surface nets mesh of the density field, colored like the heightfield
+ * terrain on the surface and like rock underground. No skirts - volumetric
+ * chunks only appear in the nearest ring.
+ */
+function generateVolumetricChunkData(
+  chunkX: number,
+  chunkZ: number,
+  chunkSize: number,
+  resolution: number,
+  config: TerrainConfig
+): TerrainChunkData {
+  const { positions, indices } = generateCaveChunkMesh(chunkX, chunkZ, chunkSize, resolution)
+  const colors = new Float32Array(positions.length)
+  const roads = new Float32Array(positions.length / 3)
+  const color = new Color()
+  let minHeight = Infinity
+
+  for (let i = 0; i < positions.length; i += 3) {
+    const x = positions[i]
+    const y = positions[i + 1]
+    const z = positions[i + 2]
+    minHeight = Math.min(minHeight, y)
+
+    if (y < getTerrainHeight(x, z, config) - CAVE_COLOR_DEPTH) {
+      color.copy(CAVE_COLOR)
+    } else {
+      blendBiomeColor(getBiomeWeights(x, z), y, color)
+      roads[i / 3] = getRoadCoverage(x, z)
+    }
+    colors[i] = color.r
+    colors[i + 1] = color.g
+    colors[i + 2] = color.b
+  }
+
+  const normals = generateTerrainNormals(positions, indices)
+  const data: TerrainChunkData = { positions, colors, roads, normals, indices, minHeight, volumetric: true }
+
+  // Water still follows the heightfield surface
+  const surface = generateTerrainChunk(chunkX, chunkZ, chunkSize, resolution, config)
+  const water = generateWaterSurface(surface, generateTerrainIndices(resolution))
+  if (water) {
+    data.water = water
+  }
+
+  return data
+}
+
+/**
+ * Lift the terrain grid to the local water level and keep the triangles
+ * that are wet somewhere, so rivers and lakes follow their own surface
+ */
+function generateWaterSurface(terrain: Float32Array, terrainIndices: Uint16Array): TerrainWaterData | undefined {
+  const positions = new Float32Array(terrain.length)
+  const wet = new Uint8Array(terrain.length / 3)
+
+  for (let i = 0; i < terrain.length; i += 3) {
+    const x = terrain[i]
+    const z = terrain[i + 2]
+    const level = getWaterLevel(x, z)
+    positions[i] = x
+    positions[i + 1] = level
+    positions[i + 2] = z
+    wet[i / 3] = level > terrain[i + 1] ? 1 : 0
+  }
+
+  const kept: number[] = []
+  for (let i = 0; i < terrainIndices.length; i += 3) {
+    const a = terrainIndices[i]
+    const b = terrainIndices[i + 1]
+    const c = terrainIndices[i + 2]
+    if (wet[a] || wet[b] || wet[c]) {
+      kept.push(a, b, c)
+    }
+  }
+
+  if (kept.length === 0) return undefined
+  return { positions, indices: new Uint16Array(kept) }
+}
+
+/**
+ * Hang a vertical skirt below the chunk border so neighbouring chunks
+ * with a different resolution never show cracks between them
+ */
+function appendSkirts(data: TerrainChunkData, resolution: number, depth: number): TerrainChunkData {
+  const rowLength = resolution + 1
+  const gridVertexCount = rowLength * rowLength
+
+  // Walk the border so the outward side of each skirt quad is its front face
+  const border: number[] = []
+  for (let i = 0; i < resolution; i++) border.push(i * rowLength)  // z = min, +x
+  for (let j = 0; j < resolution; j++) border.push(resolution * rowLength + j)  // x = max, +z
+  for (let i = resolution; i > 0; i--) border.push(i * rowLength + resolution)  // z = max, -x
+  for (let j = resolution; j > 0; j--) border.push(j)  // x = min, -z
+
+  const vertexCount = gridVertexCount + border.length
+  const positions = new Float32Array(vertexCount * 3)
+  const colors = new Float32Array(vertexCount * 3)
+  const roads = new Float32Array(vertexCount)
+  const normals = new Float32Array(vertexCount * 3)
+  positions.set(data.positions)
+  colors.set(data.colors)
+  roads.set(data.roads)
+  normals.set(data.normals)
+
+  border.forEach((gridIndex, k) => {
+    const src = gridIndex * 3
+    const dst = (gridVertexCount + k) * 3
+    positions[dst] = data.positions[src]
+    positions[dst + 1] = data.positions[src + 1] - depth
+    positions[dst + 2] = data.positions[src + 2]
+    // Copy color, road and normal so the skirt shades like the edge above it
+    colors.set(data.colors.subarray(src, src + 3), dst)
+    roads[gridVertexCount + k] = data.roads[gridIndex]
+    normals.set(data.normals.subarray(src, src + 3), dst)
+  })
+
+  const indices = new Uint16Array(data.indices.length + border.length * 6)
+  indices.set(data.indices)
+
+  let offset = data.indices.length
+  for (let k = 0; k < border.length; k++) {
+    const next = (k + 1) % border.length
+    const v0 = border[k]
+    const v1 = border[next]
+    const s0 = gridVertexCount + k
+    const s1 = gridVertexCount + next
+
+    indices[offset++] = v0
+    indices[offset++] = v1
+    indices[offset++] = s0
+    indices[offset++] = v1
+    indices[offset++] = s1
+    indices[offset++] = s0
+  }
+
+  return { positions, colors, roads, normals, indices, minHeight: data.minHeight }
+}
+
+/**
+ * Buffers that can be moved (not copied) between threads
+ */
+export function getChunkTransferables(data: TerrainChunkData): ArrayBuffer[] {
+  const buffers = [
+    data.positions.buffer as ArrayBuffer,
+    data.colors.buffer as ArrayBuffer,
+    data.roads.buffer as ArrayBuffer,
+    data.normals.buffer as ArrayBuffer,
+    data.indices.buffer as ArrayBuffer
+  ]
+
+  if (data.heights) {
+    buffers.push(data.heights.buffer as ArrayBuffer)
+  }
+
+  if (data.water) {
+    buffers.push(data.water.positions.buffer as ArrayBuffer, data.water.indices.buffer as ArrayBuffer)
+  }
+
+  return buffers
+}
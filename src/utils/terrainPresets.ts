@@ -0,0 +1,73 @@
+import {
+  defaultGrassConfig,
+  defaultTerrainConfig,
+  getGrassConfig,
+  getTerrainConfig,
+  setGrassConfig,
+  setTerrainConfig
+} from './noise'
+import type { GrassConfig, TerrainConfig } from './noise'
+
+/**
+ * Everything the tuning panel edits, as saved in preset files
+ */
+export interface TerrainPreset {
+  terrain: TerrainConfig
+  grass: GrassConfig
+}
+
+export const defaultTerrainPreset: TerrainPreset = {
+  terrain: defaultTerrainConfig,
+  grass: defaultGrassConfig,
+}
+
+export function getTerrainPreset(): TerrainPreset {
+  return { terrain: getTerrainConfig(), grass: getGrassConfig() }
+}
+
+/**
+ * Make a preset the active terrain and grass config
+ */
+export function applyTerrainPreset(preset: TerrainPreset) {
+  setTerrainConfig(preset.terrain)
+  setGrassConfig(preset.grass)
+}
+
+export function serializeTerrainPreset(preset: TerrainPreset): string {
+  return JSON.stringify(preset, null, 2)
+}
+
+/**
+ * Read a preset from JSON. Missing or invalid numbers fall back to the defaults,
+ * anything that is not a preset object throws.
+ */
+export function parseTerrainPreset(json: string): TerrainPreset {
+  const value: unknown = JSON.parse(json)
+  if (typeof value !== 'object' || value === null) {
+    throw new Error('Terrain preset must be a JSON object')
+  }
+
+  const { terrain, grass } = value as Partial<Record<keyof TerrainPreset, unknown>>
+  const preset = {
+    terrain: readNumbers(terrain, defaultTerrainConfig),
+    grass: readNumbers(grass, defaultGrassConfig),
+  }
+  // The octave loop needs at least one whole layer
+  preset.terrain.octaves = Math.max(1, Math.round(preset.terrain.octaves))
+
+  return preset
+}
+
+function readNumbers<T extends object>(source: unknown, defaults: T): T {
+  const result = { ...defaults }
+  if (typeof source !== 'object' || source === null) return result
+
+  for (const key of Object.keys(defaults) as (keyof T)[]) {
+    const value = (source as Record<keyof T, unknown>)[key]
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      result[key] = value as T[keyof T]
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,158 @@
+import { addRoadRegions, findMissingRoadRegions, getTerrainConfig, getWorldSeed } from './noise'
+import type { TerrainConfig } from './noise'
+import type { RoadRegion } from './roads'
+import { generateTerrainChunkData } from './terrainMesh'
+import { getTerrainEditsInArea } from './terrainEdits'
+import type { TerrainChunkData, TerrainChunkRequest } from './terrainMesh'
+
+export interface TerrainWorkerRequest {
+  id: number
+  seed: number
+  terrainConfig: TerrainConfig  // Active terrain shape, hydrology depends on it too
+  edits: number[]  // Terrain edits around the chunk, see getTerrainEditsInArea
+  roadRegions: [number, number][]  // Road regions around the chunk the main thread still lacks
+  request: TerrainChunkRequest
+}
+
+export interface TerrainWorkerResponse {
+  id: number
+  data: TerrainChunkData
+  roads: RoadRegion[]  // The requested road regions, planned
+}
+
+interface PendingJob {
+  id: number
+  key: string
+  request: TerrainChunkRequest
+  seed: number
+  terrainConfig: TerrainConfig
+  resolve: (data: TerrainChunkData | null) => void
+  reject: (error: unknown) => void
+}
+
+export interface TerrainWorkerPool {
+  /** Queue a chunk; resolves with null if the job is cancelled before it starts */
+  generate: (key: string, request: TerrainChunkRequest) => Promise<TerrainChunkData | null>
+  /** Drop a queued job that is no longer needed */
+  cancel: (key: string) => void
+  dispose: () => void
+}
+
+const DEFAULT_POOL_SIZE = Math.max(1, Math.min(4, (globalThis.navigator?.hardwareConcurrency ?? 2) - 1))
+
+// Structures shown with a chunk can stand up to a chunk outside it, so roads are fetched that far around
+const ROAD_MARGIN_CHUNKS = 1
+
+/**
+ * Create a pool of terrain workers. Falls back to generating on the
+ * calling thread where Web Workers are not available (e.g. Node).
+ */
+export function createTerrainWorkerPool(size = DEFAULT_POOL_SIZE): TerrainWorkerPool {
+  if (typeof Worker === 'undefined') {
+    return {
+      generate: (_key, request) => Promise.resolve(generateTerrainChunkData(request)),
+      cancel: () => {},
+      dispose: () => {}
+    }
+  }
+
+  const workers: Worker[] = []
+  const idleWorkers: Worker[] = []
+  const running = new Map<Worker, PendingJob>()
+  let queue: PendingJob[] = []
+  let nextId = 0
+
+  const dispatch = () => {
+    while (idleWorkers.length > 0 && queue.length > 0) {
+      const worker = idleWorkers.pop()!
+      const job = queue.shift()!
+      running.set(worker, job)
+
+      // Edits are read at dispatch time so the worker always sees the latest ones
+      const { chunkX, chunkZ, chunkSize } = job.request
+      const edits = getTerrainEditsInArea(
+        chunkX * chunkSize,
+        chunkZ * chunkSize,
+        (chunkX + 1) * chunkSize,
+        (chunkZ + 1) * chunkSize
+      )
+      const margin = ROAD_MARGIN_CHUNKS * chunkSize
+      const roadRegions = findMissingRoadRegions(
+        chunkX * chunkSize - margin,
+        chunkZ * chunkSize - margin,
+        (chunkX + 1) * chunkSize + margin,
+        (chunkZ + 1) * chunkSize + margin
+      )
+      const message: TerrainWorkerRequest = {
+        id: job.id,
+        seed: job.seed,
+        terrainConfig: job.terrainConfig,
+        edits,
+        roadRegions,
+        request: job.request
+      }
+      worker.postMessage(message)
+    }
+  }
+
+  const finish = (worker: Worker) => {
+    running.delete(worker)
+    idleWorkers.push(worker)
+    dispatch()
+  }
+
+  for (let i = 0; i < size; i++) {
+    const worker = new Worker(new URL('../workers/terrainChunk.worker.ts', import.meta.url), { type: 'module' })
+
+    worker.onmessage = (event: MessageEvent<TerrainWorkerResponse>) => {
+      const job = running.get(worker)
+      if (job && job.id === event.data.id) {
+        // Roads planned for an older world or terrain shape don't fit the current one
+        if (job.seed === getWorldSeed() && job.terrainConfig === getTerrainConfig()) {
+          addRoadRegions(event.data.roads)
+        }
+        job.resolve(event.data.data)
+      }
+      finish(worker)
+    }
+
+    worker.onerror = (error) => {
+      running.get(worker)?.reject(error)
+      finish(worker)
+    }
+
+    workers.push(worker)
+    idleWorkers.push(worker)
+  }
+
+  return {
+    generate: (key, request) => new Promise((resolve, reject) => {
+      queue.push({
+        id: nextId++,
+        key,
+        request,
+        seed: getWorldSeed(),
+        terrainConfig: getTerrainConfig(),
+        resolve,
+        reject
+      })
+      dispatch()
+    }),
+
+    cancel: (key) => {
+      queue = queue.filter(job => {
+        if (job.key !== key) return true
+        job.resolve(null)
+        return false
+      })
+    },
+
+    dispose: () => {
+      queue.forEach(job => job.resolve(null))
+      running.forEach(job => job.resolve(null))
+      queue = []
+      running.clear()
+      workers.forEach(worker => worker.terminate())
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createVitalsStore, defaultVitalsConfig, getFallDamage } from './vitals'
+
+const config = defaultVitalsConfig
+
+describe('getFallDamage', () => {
+  it('spares landings up to the safe speed', () => {
+    expect(getFallDamage(0)).toBe(0)
+    expect(getFallDamage(config.safeFallSpeed)).toBe(0)
+  })
+
+  it('grows with the speed past it', () => {
+    expect(getFallDamage(config.safeFallSpeed + 2)).toBeCloseTo(2 * config.fallDamage)
+    expect(getFallDamage(config.safeFallSpeed + 4)).toBeCloseTo(2 * getFallDamage(config.safeFallSpeed + 2))
+  })
+})
+
+describe('createVitalsStore', () => {
+  it('takes fall damage and notifies listeners', () => {
+    const store = createVitalsStore()
+    const listener = vi.fn()
+    store.subscribe(listener)
+
+    store.damage(getFallDamage(config.safeFallSpeed + 3), 'fall')
+    expect(store.getVitals().health).toBeCloseTo(config.maxHealth - 3 * config.fallDamage)
+    expect(store.getVitals().lastDamage).toBe('fall')
+    expect(listener).toHaveBeenCalledTimes(1)
+
+    // A safe landing changes nothing
+    store.damage(getFallDamage(config.safeFallSpeed), 'fall')
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+
+  it('is exhausted once stamina runs out, until it recovers enough to sprint', () => {
+    const store = createVitalsStore()
+    const sprintSeconds = config.maxStamina / config.sprintDrain
+
+    // Sprint in 0.1 s frames until the bar is empty
+    for (let time = 0; time < sprintSeconds + 0.2; time += 0.1) {
+      store.drainStamina(config.sprintDrain * 0.1)
+    }
+    expect(store.getVitals().stamina).toBe(0)
+    expect(store.getVitals().exhausted).toBe(true)
+    expect(store.drainStamina(1)).toBe(false)
+    expect(store.spendStamina(config.jumpCost)).toBe(false)
+
+    // Nothing comes back before the rest delay
+    store.update(config.regenDelay / 2)
+    expect(store.getVitals().stamina).toBe(0)
+    store.update(config.regenDelay / 2)
+    const rested = store.getVitals().stamina
+    expect(rested).toBeGreaterThan(0)
+
+    // Still exhausted just short of the recovery mark, fresh again past it
+    store.update((config.sprintRecovery - 1 - rested) / config.staminaRegen)
+    expect(store.getVitals().stamina).toBeCloseTo(config.sprintRecovery - 1)
+    expect(store.getVitals().exhausted).toBe(true)
+    store.update(2 / config.staminaRegen)
+    expect(store.getVitals().exhausted).toBe(false)
+    expect(store.drainStamina(1)).toBe(true)
+
+    // Spending restarts the rest delay
+    const stamina = store.getVitals().stamina
+    store.update(config.regenDelay / 2)
+    expect(store.getVitals().stamina).toBe(stamina)
+  })
+
+  it('dies at zero health and comes back fresh on respawn', () => {
+    const store = createVitalsStore()
+    store.drainStamina(40)
+    store.damage(config.maxHealth - 10, 'fall')
+    expect(store.getVitals().dead).toBe(false)
+
+    store.damage(25, 'projectile')
+    expect(store.getVitals()).toMatchObject({ health: 0, dead: true, lastDamage: 'projectile' })
+
+    // The dead take no more damage, healing or stamina changes
+    store.damage(5, 'hazard')
+    store.heal(50)
+    store.update(10)
+    expect(store.getVitals()).toMatchObject({ health: 0, lastDamage: 'projectile', stamina: config.maxStamina - 40 })
+    expect(store.spendStamina(1)).toBe(false)
+
+    store.respawn()
+    expect(store.getVitals()).toEqual({
+      health: config.maxHealth,
+      maxHealth: config.maxHealth,
+      stamina: config.maxStamina,
+      maxStamina: config.maxStamina,
+      exhausted: false,
+      dead: false,
+      lastDamage: null,
+    })
+  })
+})
@@ -0,0 +1,130 @@
+/**
+ * Player health and stamina. The store is plain data with listeners, so the
+ * HUD can follow it through useSyncExternalStore while the player changes it
+ * every frame without re-rendering the scene.
+ */
+
+export interface VitalsConfig {
+  maxHealth: number
+  maxStamina: number
+  sprintDrain: number        // Stamina per second while sprinting
+  jumpCost: number           // Stamina per jump
+  staminaRegen: number       // Stamina per second once resting
+  regenDelay: number         // Seconds after spending stamina before it comes back
+  sprintRecovery: number     // An emptied bar must refill to this before sprinting again
+  safeFallSpeed: number      // Landing slower than this (units per second) does no harm
+  fallDamage: number         // Health per unit of landing speed above the safe speed
+  respawnDelay: number       // Seconds between dying and respawning
+}
+
+export const defaultVitalsConfig: VitalsConfig = {
+  maxHealth: 100,
+  maxStamina: 100,
+  sprintDrain: 18,
+  jumpCost: 10,
+  staminaRegen: 25,
+  regenDelay: 0.8,
+  sprintRecovery: 25,
+  safeFallSpeed: 11,  // About a six unit drop
+  fallDamage: 7,
+  respawnDelay: 3,
+}
+
+export type DamageSource = 'fall' | 'projectile' | 'hazard'
+
+export interface Vitals {
+  health: number
+  maxHealth: number
+  stamina: number
+  maxStamina: number
+  exhausted: boolean            // Stamina ran out and has not recovered enough to sprint
+  dead: boolean
+  lastDamage: DamageSource | null
+}
+
+export interface VitalsStore {
+  config: VitalsConfig
+  getVitals: () => Vitals
+  subscribe: (listener: () => void) => () => void
+  damage: (amount: number, source: DamageSource) => void
+  heal: (amount: number) => void
+  spendStamina: (amount: number) => boolean        // All or nothing, false when there is not enough
+  drainStamina: (amount: number) => boolean        // As much as is left, false once exhausted
+  update: (delta: number) => void                  // Regenerates stamina after resting
+  respawn: () => void
+}
+
+/**
+ * Damage for landing at a downward speed
+ */
+export function getFallDamage(speed: number, config = defaultVitalsConfig): number {
+  return Math.max(0, speed - config.safeFallSpeed) * config.fallDamage
+}
+
+export function createVitalsStore(config = defaultVitalsConfig): VitalsStore {
+  const fresh = (): Vitals => ({
+    health: config.maxHealth,
+    maxHealth: config.maxHealth,
+    stamina: config.maxStamina,
+    maxStamina: config.maxStamina,
+    exhausted: false,
+    dead: false,
+    lastDamage: null,
+  })
+
+  // Replaced (never mutated) on change so React can compare snapshots
+  let vitals = fresh()
+  let restTime = 0
+  const listeners = new Set<() => void>()
+
+  const set = (changes: Partial<Vitals>) => {
+    vitals = { ...vitals, ...changes }
+    listeners.forEach(listener => listener())
+  }
+
+  const setStamina = (stamina: number) => {
+    const exhausted = stamina <= 0 || (vitals.exhausted && stamina < config.sprintRecovery)
+    if (stamina !== vitals.stamina || exhausted !== vitals.exhausted) set({ stamina, exhausted })
+  }
+
+  return {
+    config,
+    getVitals: () => vitals,
+    subscribe: listener => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    damage: (amount, source) => {
+      if (vitals.dead || amount <= 0) return
+      const health = Math.max(0, vitals.health - amount)
+      set({ health, dead: health === 0, lastDamage: source })
+    },
+    heal: amount => {
+      if (vitals.dead) return
+      set({ health: Math.min(config.maxHealth, vitals.health + amount) })
+    },
+    spendStamina: amount => {
+      if (vitals.dead || vitals.stamina < amount) return false
+      restTime = 0
+      setStamina(vitals.stamina - amount)
+      return true
+    },
+    drainStamina: amount => {
+      if (vitals.dead || vitals.exhausted) return false
+      restTime = 0
+      setStamina(Math.max(0, vitals.stamina - amount))
+      return true
+    },
+    update: delta => {
+      restTime += delta
+      if (vitals.dead || restTime < config.regenDelay || vitals.stamina >= config.maxStamina) return
+      setStamina(Math.min(config.maxStamina, vitals.stamina + config.staminaRegen * delta))
+    },
+    respawn: () => {
+      restTime = 0
+      set(fresh())
+    },
+  }
+}
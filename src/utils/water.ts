@@ -0,0 +1,14 @@
+export interface WaterConfig {
+  seaLevel: number
+  color: string
+  opacity: number
+  projectileDrag: number  // Linear damping applied to projectiles in water
+}
+
+// Low valleys and most swamps end up below the sea level
+export const defaultWaterConfig: WaterConfig = {
+  seaLevel: -0.6,
+  color: '#2a6f97',
+  opacity: 0.65,
+  projectileDrag: 4,
+}
@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { Vector3 } from 'three'
+// Ahead of noise: noise reaches this module through structures, and whichever
+// side of that cycle loads first is the one that sees the mock below
+import {
+  createSurfacePatch,
+  getSlopeAngle,
+  getSurfaceHeight,
+  getSurfaceNormal,
+  raycastTerrain,
+  sampleSurface,
+} from './worldQuery'
+import { generateTerrainChunk, generateTerrainIndices } from './noise'
+import { CHUNK_SIZE, COLLIDER_RESOLUTION } from './terrainLod'
+
+// Replaces the terrain with a plane for the tests that need known answers
+const terrain = vi.hoisted(() => ({ plane: null as ((x: number, z: number) => number) | null }))
+
+vi.mock('./noise', async importOriginal => {
+  const actual = await importOriginal<typeof import('./noise')>()
+  return {
+    ...actual,
+    getTerrainHeight: (x: number, z: number) => terrain.plane?.(x, z) ?? actual.getTerrainHeight(x, z),
+  }
+})
+
+// Rises half a unit per unit along +X and falls a quarter along +Z
+const PLANE_DX = 0.5
+const PLANE_DZ = -0.25
+const plane = (x: number, z: number) => PLANE_DX * x + PLANE_DZ * z + 3
+
+/**
+ * Height of the rendered mesh at a point: find the triangle under it and
+ * interpolate its corners
+ */
+function getMeshHeight(vertices: Float32Array, indices: Uint16Array, x: number, z: number): number {
+  for (let k = 0; k < indices.length; k += 3) {
+    const [a, b, c] = [indices[k] * 3, indices[k + 1] * 3, indices[k + 2] * 3]
+    const denominator = (vertices[b + 2] - vertices[c + 2]) * (vertices[a] - vertices[c]) +
+      (vertices[c] - vertices[b]) * (vertices[a + 2] - vertices[c + 2])
+    const wa = ((vertices[b + 2] - vertices[c + 2]) * (x - vertices[c]) + (vertices[c] - vertices[b]) * (z - vertices[c + 2])) / denominator
+    const wb = ((vertices[c + 2] - vertices[a + 2]) * (x - vertices[c]) + (vertices[a] - vertices[c]) * (z - vertices[c + 2])) / denominator
+    const wc = 1 - wa - wb
+    if (wa >= -1e-6 && wb >= -1e-6 && wc >= -1e-6) {
+      return wa * vertices[a + 1] + wb * vertices[b + 1] + wc * vertices[c + 1]
+    }
+  }
+  throw new Error(`No triangle under ${x}, ${z}`)
+}
+
+describe('worldQuery', () => {
+  afterEach(() => {
+    terrain.plane = null
+  })
+
+  it('matches the near ring mesh on both sides of each cell diagonal', () => {
+    const step = CHUNK_SIZE / COLLIDER_RESOLUTION
+    const vertices = generateTerrainChunk(1, -1, CHUNK_SIZE, COLLIDER_RESOLUTION)
+    const indices = generateTerrainIndices(COLLIDER_RESOLUTION)
+
+    // Fractions inside a cell: below the (x1, z0)-(x0, z1) diagonal, on it and past it
+    const offsets = [[0.2, 0.3], [0.9, 0.05], [0.5, 0.5], [0.3, 0.7], [0.6, 0.55], [0.95, 0.9]]
+    for (const [cellI, cellJ] of [[0, 0], [7, 19], [31, 31], [16, 3]]) {
+      for (const [fx, fz] of offsets) {
+        const x = CHUNK_SIZE + (cellI + fx) * step
+        const z = -CHUNK_SIZE + (cellJ + fz) * step
+        expect(getSurfaceHeight(x, z)).toBeCloseTo(getMeshHeight(vertices, indices, x, z), 4)
+      }
+    }
+  })
+
+  it('finds the normal and slope of a plane', () => {
+    terrain.plane = plane
+    const expected = new Vector3(-PLANE_DX, 1, -PLANE_DZ).normalize()
+
+    for (const [x, z] of [[0.3, 0.1], [17.7, -40.2], [-5, 5]]) {
+      const normal = getSurfaceNormal(x, z)
+      expect(normal.x).toBeCloseTo(expected.x)
+      expect(normal.y).toBeCloseTo(expected.y)
+      expect(normal.z).toBeCloseTo(expected.z)
+      expect(getSlopeAngle(x, z)).toBeCloseTo(Math.atan(Math.hypot(PLANE_DX, PLANE_DZ)))
+      expect(getSurfaceHeight(x, z)).toBeCloseTo(plane(x, z))
+    }
+  })
+
+  it('gives the same answers from a surface patch', () => {
+    const patch = createSurfacePatch(64, -64, CHUNK_SIZE)
+
+    for (const [x, z] of [[64, -64], [70.3, -12.9], [100.5, -33.25], [127.9, -0.1], [96, -32]]) {
+      expect(patch.getHeight(x, z)).toBeCloseTo(getSurfaceHeight(x, z), 5)
+
+      const patched = patch.sample(x, z)
+      const direct = sampleSurface(x, z)
+      expect(patched.height).toBeCloseTo(direct.height, 5)
+      expect(patched.slope).toBeCloseTo(direct.slope, 5)
+      expect(patched.normal.distanceTo(direct.normal)).toBeLessThan(1e-5)
+      expect(patched.type).toBe(direct.type)
+    }
+  })
+
+  describe('raycastTerrain', () => {
+    it('hits a plane where the ray crosses it', () => {
+      terrain.plane = plane
+      // Along z = 0 the plane is y = 0.5x + 3, and the ray y = 10 - x meets it at x = 14 / 3
+      const hit = raycastTerrain(new Vector3(0, 10, 0), new Vector3(1, -1, 0), 50)
+      expect(hit).not.toBeNull()
+      expect(hit!.point.x).toBeCloseTo(14 / 3, 2)
+      expect(hit!.point.y).toBeCloseTo(plane(14 / 3, 0), 2)
+      expect(hit!.distance).toBeCloseTo((14 / 3) * Math.SQRT2, 2)
+      expect(hit!.normal.distanceTo(new Vector3(-PLANE_DX, 1, -PLANE_DZ).normalize())).toBeLessThan(1e-6)
+    })
+
+    it('lands on the generated surface', () => {
+      const origin = new Vector3(20, 40, 30)
+      const hit = raycastTerrain(origin, new Vector3(0.3, -1, -0.2), 200)
+      expect(hit).not.toBeNull()
+      expect(hit!.point.y).toBeCloseTo(getSurfaceHeight(hit!.point.x, hit!.point.z), 5)
+      expect(hit!.point.distanceTo(origin)).toBeCloseTo(hit!.distance, 1)
+    })
+
+    it('misses rays that point away or run out of range', () => {
+      terrain.plane = plane
+      expect(raycastTerrain(new Vector3(0, 10, 0), new Vector3(0, 1, 0), 100)).toBeNull()
+      expect(raycastTerrain(new Vector3(0, 10, 0), new Vector3(1, -1, 0), 5)).toBeNull()
+      // Level with the plane's downhill side it never comes down to the ground
+      expect(raycastTerrain(new Vector3(0, 10, 0), new Vector3(-1, 0, 0), 30)).toBeNull()
+    })
+
+    it('hits at once when it starts below the ground', () => {
+      terrain.plane = plane
+      const hit = raycastTerrain(new Vector3(2, 0, 4), new Vector3(0, -1, 0), 10)
+      expect(hit).not.toBeNull()
+      expect(hit!.distance).toBe(0)
+      expect(hit!.point.x).toBeCloseTo(2)
+      expect(hit!.point.z).toBeCloseTo(4)
+      expect(hit!.point.y).toBeCloseTo(plane(2, 4))
+    })
+  })
+})
@@ -0,0 +1,236 @@
+import { Vector3 } from 'three'
+import { getBiome, getTerrainHeight, getWaterLevel, isOnRoad } from './noise'
+import { BiomeType } from './biomes'
+import { CHUNK_SIZE, COLLIDER_RESOLUTION } from './terrainLod'
+import { defaultTerrainMaterialConfig } from './terrainMaterial'
+
+/**
+ * Terrain queries that agree with what is rendered and simulated.
+ * The near terrain mesh and the heightfield colliders sample the terrain on
+ * the same grid and split each cell along the same diagonal, so every query
+ * here interpolates over exactly those triangles instead of using the
+ * analytic height between samples.
+ */
+
+// Spacing of the shared mesh / collider grid
+export const SURFACE_GRID_STEP = CHUNK_SIZE / COLLIDER_RESOLUTION
+
+export enum SurfaceType {
+  GRASS = 'grass',
+  ROCK = 'rock',
+  SAND = 'sand',
+  SNOW = 'snow',
+  WATER = 'water',
+  ROAD = 'road'
+}
+
+export interface SurfaceSample {
+  height: number
+  normal: Vector3
+  slope: number  // Angle from horizontal in radians
+  type: SurfaceType
+}
+
+export interface TerrainRayHit {
+  point: Vector3
+  normal: Vector3
+  distance: number
+}
+
+// Ray marching: never step further than the terrain could rise in the meantime
+const RAY_MAX_TERRAIN_SLOPE = 2   // Rise over run assumed for the steepest terrain
+const RAY_MIN_STEP = 0.25
+const RAY_REFINE_ITERATIONS = 12
+
+// Surface types switch halfway through the material's blend ranges
+const midpoint = ([start, end]: [number, number]) => (start + end) / 2
+const ROCK_GRADIENT = midpoint(defaultTerrainMaterialConfig.rockSlope)
+const SAND_HEIGHT = midpoint(defaultTerrainMaterialConfig.sandHeight)
+const SNOW_HEIGHT = midpoint(defaultTerrainMaterialConfig.snowHeight)
+
+interface TriangleSample {
+  height: number
+  dx: number
+  dz: number
+}
+
+/**
+ * Height and gradient of the grid triangle under a point, given the height at grid points
+ */
+function interpolateTriangle(x: number, z: number, at: (i: number, j: number) => number): TriangleSample {
+  const gx = x / SURFACE_GRID_STEP
+  const gz = z / SURFACE_GRID_STEP
+  const i = Math.floor(gx)
+  const j = Math.floor(gz)
+  const fx = gx - i
+  const fz = gz - j
+
+  // Cells are split along the diagonal from (x1, z0) to (x0, z1)
+  const h10 = at(i + 1, j)
+  const h01 = at(i, j + 1)
+  if (fx + fz <= 1) {
+    const h00 = at(i, j)
+    return {
+      height: h00 + fx * (h10 - h00) + fz * (h01 - h00),
+      dx: (h10 - h00) / SURFACE_GRID_STEP,
+      dz: (h01 - h00) / SURFACE_GRID_STEP,
+    }
+  }
+
+  const h11 = at(i + 1, j + 1)
+  return {
+    height: h11 + (1 - fx) * (h01 - h11) + (1 - fz) * (h10 - h11),
+    dx: (h11 - h01) / SURFACE_GRID_STEP,
+    dz: (h11 - h10) / SURFACE_GRID_STEP,
+  }
+}
+
+function sampleTriangle(x: number, z: number): TriangleSample {
+  return interpolateTriangle(x, z, (i, j) => getTerrainHeight(i * SURFACE_GRID_STEP, j * SURFACE_GRID_STEP))
+}
+
+function toSurfaceSample(x: number, z: number, { height, dx, dz }: TriangleSample): SurfaceSample {
+  const gradient = Math.hypot(dx, dz)
+
+  return {
+    height,
+    normal: new Vector3(-dx, 1, -dz).normalize(),
+    slope: Math.atan(gradient),
+    type: classifySurface(x, z, height, gradient),
+  }
+}
+
+/**
+ * Ground height as rendered by the near mesh and used by the colliders
+ */
+export function getSurfaceHeight(x: number, z: number): number {
+  return sampleTriangle(x, z).height
+}
+
+/**
+ * Upward unit normal of the ground
+ */
+export function getSurfaceNormal(x: number, z: number, target = new Vector3()): Vector3 {
+  const { dx, dz } = sampleTriangle(x, z)
+  return target.set(-dx, 1, -dz).normalize()
+}
+
+/**
+ * Ground steepness in radians, 0 = flat
+ */
+export function getSlopeAngle(x: number, z: number): number {
+  const { dx, dz } = sampleTriangle(x, z)
+  return Math.atan(Math.hypot(dx, dz))
+}
+
+/**
+ * What the ground is made of - matches the terrain material's layers
+ */
+export function getSurfaceType(x: number, z: number): SurfaceType {
+  const { height, dx, dz } = sampleTriangle(x, z)
+  return classifySurface(x, z, height, Math.hypot(dx, dz))
+}
+
+/**
+ * Height, normal, slope and surface type in one go
+ */
+export function sampleSurface(x: number, z: number): SurfaceSample {
+  return toSurfaceSample(x, z, sampleTriangle(x, z))
+}
+
+export interface SurfacePatch {
+  getHeight: (x: number, z: number) => number
+  sample: (x: number, z: number) => SurfaceSample
+}
+
+/**
+ * The same queries over a square area, with its grid heights sampled once
+ * up front. Much cheaper than the functions above for many points in one
+ * place, like scattering grass over a chunk. Points must lie inside the area.
+ */
+export function createSurfacePatch(minX: number, minZ: number, size: number): SurfacePatch {
+  const firstI = Math.floor(minX / SURFACE_GRID_STEP)
+  const firstJ = Math.floor(minZ / SURFACE_GRID_STEP)
+  const columns = Math.ceil((minX + size) / SURFACE_GRID_STEP) - firstI + 2
+  const rows = Math.ceil((minZ + size) / SURFACE_GRID_STEP) - firstJ + 2
+  const heights = new Float32Array(columns * rows)
+
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < columns; i++) {
+      heights[i + j * columns] = getTerrainHeight((firstI + i) * SURFACE_GRID_STEP, (firstJ + j) * SURFACE_GRID_STEP)
+    }
+  }
+
+  const at = (i: number, j: number) => heights[(i - firstI) + (j - firstJ) * columns]
+
+  return {
+    getHeight: (x, z) => interpolateTriangle(x, z, at).height,
+    sample: (x, z) => toSurfaceSample(x, z, interpolateTriangle(x, z, at)),
+  }
+}
+
+function classifySurface(x: number, z: number, height: number, gradient: number): SurfaceType {
+  if (getWaterLevel(x, z) > height) return SurfaceType.WATER
+  if (isOnRoad(x, z)) return SurfaceType.ROAD
+  if (gradient >= ROCK_GRADIENT) return SurfaceType.ROCK
+  if (height < SAND_HEIGHT) return SurfaceType.SAND
+  if (height > SNOW_HEIGHT) return SurfaceType.SNOW
+
+  // Elsewhere the biome decides
+  switch (getBiome(x, z).type) {
+    case BiomeType.DESERT:
+      return SurfaceType.SAND
+    case BiomeType.TUNDRA:
+      return SurfaceType.SNOW
+    default:
+      return SurfaceType.GRASS
+  }
+}
+
+/**
+ * First intersection of a ray with the terrain surface, or null within maxDistance.
+ * Steps are sized from the height above the ground, then the crossing is refined by bisection.
+ */
+export function raycastTerrain(origin: Vector3, direction: Vector3, maxDistance: number): TerrainRayHit | null {
+  const dir = direction.clone().normalize()
+  const heightAbove = (t: number) =>
+    origin.y + dir.y * t - getSurfaceHeight(origin.x + dir.x * t, origin.z + dir.z * t)
+
+  // How fast the gap to the ground can close per unit along the ray
+  const closingRate = RAY_MAX_TERRAIN_SLOPE * Math.hypot(dir.x, dir.z) + Math.max(0, -dir.y)
+
+  let near = 0
+  let gap = heightAbove(0)
+  if (gap > 0) {
+    let far = 0
+    for (;;) {
+      if (near >= maxDistance) return null
+
+      far = Math.min(maxDistance, near + Math.max(RAY_MIN_STEP, gap / closingRate))
+      const farGap = heightAbove(far)
+      if (farGap <= 0) break
+
+      near = far
+      gap = farGap
+    }
+
+    for (let k = 0; k < RAY_REFINE_ITERATIONS; k++) {
+      const mid = (near + far) / 2
+      if (heightAbove(mid) > 0) {
+        near = mid
+      } else {
+        far = mid
+      }
+    }
+    near = far
+  }
+
+  const point = dir.multiplyScalar(near).add(origin)
+  point.y = getSurfaceHeight(point.x, point.z)
+
+  return {
+    point,
+    normal: getSurfaceNormal(point.x, point.z),
+    distance: near,
+  }
+}
@@ -0,0 +1,41 @@
+import { setWorldSeed } from './noise'
+import { parseSeed, randomSeed } from './random'
+import { clearTerrainEdits } from './terrainEdits'
+import { clearPropDamage } from './propDamage'
+
+// `?seed=` URL parameter takes priority so worlds can be shared as links
+const SEED_URL_PARAM = 'seed'
+const SEED_STORAGE_KEY = 'r3f-game.worldSeed'
+
+/**
+ * Find the seed to start with: URL parameter, then saved settings, then a new random seed
+ */
+export function resolveWorldSeed(): number {
+  const fromUrl = new URLSearchParams(window.location.search).get(SEED_URL_PARAM)
+  if (fromUrl) {
+    return parseSeed(fromUrl)
+  }
+
+  const fromStorage = window.localStorage.getItem(SEED_STORAGE_KEY)
+  if (fromStorage) {
+    return parseSeed(fromStorage)
+  }
+
+  return randomSeed()
+}
+
+/**
+ * Make a seed the active world seed, remember it and reflect it in the URL
+ */
+export function applyWorldSeed(seed: number) {
+  setWorldSeed(seed)
+  // Edits and destroyed props belong to the world they were made in
+  clearTerrainEdits()
+  clearPropDamage()
+
+  window.localStorage.setItem(SEED_STORAGE_KEY, String(seed))
+
+  const url = new URL(window.location.href)
+  url.searchParams.set(SEED_URL_PARAM, String(seed))
+  window.history.replaceState(null, '', url)
+}
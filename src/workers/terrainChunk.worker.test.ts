@@ -0,0 +1,108 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { defaultTerrainConfig, findMissingRoadRegions, setTerrainConfig } from '../utils/noise'
+import type { TerrainConfig } from '../utils/noise'
+import { generateTerrainChunkData } from '../utils/terrainMesh'
+import type { TerrainChunkRequest } from '../utils/terrainMesh'
+import { applyTerrainEdit, carveCrater, getTerrainEditDelta, getTerrainEditsInArea } from '../utils/terrainEdits'
+import type { TerrainWorkerRequest, TerrainWorkerResponse } from '../utils/terrainWorkerPool'
+import { CHUNK_SIZE, COLLIDER_RESOLUTION } from '../utils/terrainLod'
+import { TEST_SEED } from '../test/setup'
+
+// Not the default, so the worker only gets it from the message
+const TERRAIN_CONFIG: TerrainConfig = { ...defaultTerrainConfig, amplitude: 16 }
+
+// The worker script against a stand-in for its global scope
+const worker = {
+  onmessage: null as ((event: { data: TerrainWorkerRequest }) => void) | null,
+  postMessage: vi.fn<(response: TerrainWorkerResponse, options: StructuredSerializeOptions) => void>(),
+}
+// The worker's own copy of the edit layer
+let workerEdits: typeof import('../utils/terrainEdits')
+
+/**
+ * The message the pool would send for a chunk, made with the edits and
+ * roads this thread has now
+ */
+function createMessage(id: number, request: TerrainChunkRequest): TerrainWorkerRequest {
+  const { chunkX, chunkZ, chunkSize } = request
+  return {
+    id,
+    seed: TEST_SEED,
+    terrainConfig: TERRAIN_CONFIG,
+    edits: getTerrainEditsInArea(chunkX * chunkSize, chunkZ * chunkSize, (chunkX + 1) * chunkSize, (chunkZ + 1) * chunkSize),
+    roadRegions: findMissingRoadRegions(
+      (chunkX - 1) * chunkSize,
+      (chunkZ - 1) * chunkSize,
+      (chunkX + 2) * chunkSize,
+      (chunkZ + 2) * chunkSize
+    ),
+    request,
+  }
+}
+
+/**
+ * Run the worker's handler on a copy of the message, as postMessage would
+ */
+function runWorker(message: TerrainWorkerRequest): TerrainWorkerResponse {
+  worker.postMessage.mockClear()
+  worker.onmessage!({ data: structuredClone(message) })
+  expect(worker.postMessage).toHaveBeenCalledTimes(1)
+  return worker.postMessage.mock.calls[0][0]
+}
+
+describe('terrainChunk worker', () => {
+  beforeAll(async () => {
+    setTerrainConfig(TERRAIN_CONFIG)
+
+    // Across the border of chunks 0,0 and 1,0, inside 0,0 and far from both
+    carveCrater(64, 20, 6, 3)
+    applyTerrainEdit(30.5, 41.25, 4, 2)
+    carveCrater(-200, 300, 5, 4)
+
+    // A fresh module graph, like the worker's own thread
+    vi.stubGlobal('self', worker)
+    vi.resetModules()
+    await import('./terrainChunk.worker')
+    workerEdits = await import('../utils/terrainEdits')
+  })
+
+  afterAll(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('builds the same chunks as this thread', () => {
+    const requests: TerrainChunkRequest[] = [
+      { chunkX: 0, chunkZ: 0, chunkSize: CHUNK_SIZE, resolution: 32, skirtDepth: 2, colliderResolution: COLLIDER_RESOLUTION },
+      { chunkX: 1, chunkZ: 0, chunkSize: CHUNK_SIZE, resolution: 16, skirtDepth: 2 },
+    ]
+
+    requests.forEach((request, id) => {
+      const response = runWorker(createMessage(id, request))
+      expect(response.id).toBe(id)
+      expect(response.data).toEqual(generateTerrainChunkData(request))
+    })
+  })
+
+  it('sees the same edits as this thread around the chunk and none elsewhere', () => {
+    const request: TerrainChunkRequest = { chunkX: 1, chunkZ: 0, chunkSize: CHUNK_SIZE, resolution: 8 }
+    const message = createMessage(7, request)
+    runWorker(message)
+
+    // Quarter cells, so the interpolation between edit grid points is compared too
+    const mismatches: [number, number][] = []
+    for (let x = CHUNK_SIZE; x <= 2 * CHUNK_SIZE; x += 0.25) {
+      for (let z = 0; z <= CHUNK_SIZE; z += 0.25) {
+        if (workerEdits.getTerrainEditDelta(x, z) !== getTerrainEditDelta(x, z)) {
+          mismatches.push([x, z])
+        }
+      }
+    }
+    expect(mismatches).toEqual([])
+
+    // The previous chunk's edits were replaced, not added to
+    expect(workerEdits.getTerrainEditDelta(30.5, 41.25)).toBe(0)
+    expect(workerEdits.getTerrainEditDelta(-200, 300)).toBe(0)
+    expect(getTerrainEditDelta(-200, 300)).toBeLessThan(0)
+    expect(workerEdits.getTerrainEditsInArea(CHUNK_SIZE, 0, 2 * CHUNK_SIZE, CHUNK_SIZE)).toEqual(message.edits)
+  })
+})
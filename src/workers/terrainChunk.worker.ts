@@ -0,0 +1,29 @@
+import { getWorldSeed, planRoadRegions, setTerrainConfig, setWorldSeed } from '../utils/noise'
+import { generateTerrainChunkData, getChunkTransferables } from '../utils/terrainMesh'
+import { replaceTerrainEdits } from '../utils/terrainEdits'
+import type { TerrainWorkerRequest, TerrainWorkerResponse } from '../utils/terrainWorkerPool'
+
+// Configs arrive as copies, so compare them by value
+let lastTerrainConfig = ''
+
+// Each worker keeps its own copy of the noise module, so the seed and config travel with every job
+self.onmessage = (event: MessageEvent<TerrainWorkerRequest>) => {
+  const { id, seed, terrainConfig, edits, roadRegions, request } = event.data
+
+  if (seed !== getWorldSeed()) {
+    setWorldSeed(seed)
+  }
+  const configKey = JSON.stringify(terrainConfig)
+  if (configKey !== lastTerrainConfig) {
+    setTerrainConfig(terrainConfig)
+    lastTerrainConfig = configKey
+  }
+  replaceTerrainEdits(edits)
+
+  const data = generateTerrainChunkData(request)
+  // Copied rather than transferred, this worker keeps its regions for the chunks that follow
+  const roads = planRoadRegions(roadRegions)
+  const response: TerrainWorkerResponse = { id, data, roads }
+
+  self.postMessage(response, { transfer: getChunkTransferables(data) })
+}
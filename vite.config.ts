@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
@@ -31,6 +32,12 @@ export default defineConfig({
     open: true,
   },
   
+  test: {
+    setupFiles: ['src/test/setup.ts'],
+    // Generous for a cold start on a slow machine, the slowest spec takes a few seconds
+    testTimeout: 15_000,
+  },
+
   // Handle imports for Three.js and physics libraries
   optimizeDeps: {
     include: ['three', '@react-three/fiber', '@react-three/drei', '@react-three/rapier'],